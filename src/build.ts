@@ -0,0 +1,167 @@
+/**
+ * Build pipeline
+ * Runs the C compiler as a child process and publishes its errors and warnings
+ * as diagnostics, separate from the heuristic checks of the editor
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { parseCompilerOutput, toDiagnostics, CompilerMessage } from './compilerOutput';
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let buildDiagnosticCollection: vscode.DiagnosticCollection | undefined;
+let buildOutputChannel: vscode.OutputChannel | undefined;
+
+export interface ProcessResult {
+    /** Exit code, or null when the process could not be started or was killed */
+    exitCode: number | null;
+    output: string;
+    /** Standard output alone, without the warnings written to stderr */
+    stdout: string;
+    /** Set when the process could not be started (e.g. compiler not installed) */
+    spawnError?: Error;
+}
+
+export interface ProcessOptions {
+    /** Variables added to the inherited environment */
+    env?: { [name: string]: string };
+    /** File piped to standard input; otherwise standard input is closed right away */
+    stdinFile?: string;
+    /** Receives output as it arrives, e.g. to stream it to an output channel */
+    onOutput?: (text: string) => void;
+    /** Kills the process when cancellation is requested */
+    token?: vscode.CancellationToken;
+}
+
+export interface CompileResult extends ProcessResult {
+    success: boolean;
+    compiler: string;
+    messages: CompilerMessage[];
+}
+
+export function registerBuild(context: vscode.ExtensionContext) {
+    buildDiagnosticCollection = vscode.languages.createDiagnosticCollection('c-helper-build');
+    buildOutputChannel = vscode.window.createOutputChannel('Lazy C Build');
+    context.subscriptions.push(buildDiagnosticCollection, buildOutputChannel);
+}
+
+export function getBuildOutputChannel(): vscode.OutputChannel {
+    if (!buildOutputChannel) {
+        buildOutputChannel = vscode.window.createOutputChannel('Lazy C Build');
+    }
+    return buildOutputChannel;
+}
+
+/**
+ * Runs a process to completion and collects stdout and stderr in the order they arrive
+ */
+export function runProcess(command: string, args: string[], cwd: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+    return new Promise(resolve => {
+        let output = '';
+        let stdout = '';
+        let settled = false;
+        let cancellation: vscode.Disposable | undefined;
+        const finish = (result: ProcessResult) => {
+            if (!settled) {
+                settled = true;
+                cancellation?.dispose();
+                resolve(result);
+            }
+        };
+        const collect = (data: Buffer) => {
+            const text = data.toString();
+            output += text;
+            options.onOutput?.(text);
+        };
+
+        try {
+            const env = options.env ? { ...process.env, ...options.env } : undefined;
+            const child = spawn(command, args, { cwd, env, shell: false });
+            child.stdout.on('data', (data: Buffer) => {
+                stdout += data.toString();
+                collect(data);
+            });
+            child.stderr.on('data', collect);
+            child.on('error', error => finish({ exitCode: null, output, stdout, spawnError: error }));
+            child.on('close', code => finish({ exitCode: code, output, stdout }));
+            cancellation = options.token?.onCancellationRequested(() => child.kill());
+
+            // The process may exit without reading all of its input
+            child.stdin.on('error', () => { /* ignore EPIPE */ });
+            if (options.stdinFile) {
+                const input = fs.createReadStream(options.stdinFile);
+                input.on('error', error => {
+                    output += `Could not read ${options.stdinFile}: ${error.message}\n`;
+                    child.stdin.end();
+                });
+                input.pipe(child.stdin);
+            } else {
+                child.stdin.end();
+            }
+        } catch (error) {
+            finish({ exitCode: null, output, stdout, spawnError: error instanceof Error ? error : new Error(String(error)) });
+        }
+    });
+}
+
+/**
+ * Runs the compiler and parses its output, without touching the Problems panel
+ * @param compiler Compiler executable (name on PATH or full path)
+ * @param args Arguments passed to the compiler
+ * @param cwd Working directory, also used to resolve relative paths in the output
+ */
+export async function runCompiler(compiler: string, args: string[], cwd: string): Promise<CompileResult> {
+    const channel = getBuildOutputChannel();
+    channel.appendLine(`> ${quoteArgument(compiler)} ${args.map(quoteArgument).join(' ')}`);
+
+    const result = await runProcess(compiler, args, cwd);
+    if (result.spawnError) {
+        channel.appendLine(`Could not start ${compiler}: ${result.spawnError.message}`);
+    } else if (result.output) {
+        channel.append(result.output);
+    }
+
+    const success = !result.spawnError && result.exitCode === 0;
+    return { ...result, success, compiler, messages: parseCompilerOutput(result.output, cwd) };
+}
+
+/**
+ * Runs the compiler, then replaces the build diagnostics with its messages
+ */
+export async function compile(compiler: string, args: string[], cwd: string): Promise<CompileResult> {
+    const result = await runCompiler(compiler, args, cwd);
+    publishBuildDiagnostics(result.messages, path.basename(compiler));
+
+    getBuildOutputChannel().appendLine(result.success
+        ? 'Build succeeded.'
+        : `Build failed${result.exitCode !== null ? ` (exit code ${result.exitCode})` : ''}.`);
+
+    return result;
+}
+
+/**
+ * Replaces the build diagnostics with the messages of the latest build
+ */
+export function publishBuildDiagnostics(messages: CompilerMessage[], source: string) {
+    if (!buildDiagnosticCollection) {
+        console.warn('Build diagnostic collection not initialized');
+        return;
+    }
+
+    buildDiagnosticCollection.clear();
+    for (const [file, diagnostics] of toDiagnostics(messages, source)) {
+        buildDiagnosticCollection.set(vscode.Uri.file(file), diagnostics);
+    }
+}
+
+/**
+ * Quotes an argument for display in the output channel
+ */
+export function quoteArgument(arg: string): string {
+    return /[\s"]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg;
+}
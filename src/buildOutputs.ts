@@ -0,0 +1,151 @@
+/**
+ * Build outputs
+ * Decides where executables and object files go and what they are called,
+ * and remembers what was produced so it can be cleaned up again
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig } from './config';
+import { BuildProfile, resolveProfilePath } from './buildProfiles';
+
+const BUILD_OUTPUTS_KEY = 'c-helper.buildOutputs';
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let extensionContext: vscode.ExtensionContext | undefined;
+
+export function registerBuildOutputs(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c-helper.cleanBuildOutputs', cleanBuildOutputs)
+    );
+}
+
+/**
+ * Expands the ${name} and ${profile} variables of an output template
+ */
+export function expandOutputTemplate(template: string, name: string, profile: string): string {
+    return template
+        .replace(/\$\{name\}/g, name)
+        .replace(/\$\{profile\}/g, profile);
+}
+
+/**
+ * Adds the platform's executable extension: ".exe" on Windows, nothing elsewhere
+ */
+export function getExecutableFileName(baseName: string, platform: NodeJS.Platform = process.platform): string {
+    return platform === 'win32' && !baseName.toLowerCase().endsWith('.exe') ? `${baseName}.exe` : baseName;
+}
+
+/**
+ * Places the outputs of sources in a subdirectory of the project in the same subdirectory
+ * of the output directory, so "a/main.c" and "b/main.c" don't overwrite each other's
+ * executables and objects. Sources outside the project build into the directory itself.
+ */
+export function mirrorSourceDirectory(outputDir: string, projectRoot: string, sourceDir: string): string {
+    const relative = path.relative(projectRoot, sourceDir);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return outputDir;
+    }
+    return path.join(outputDir, relative);
+}
+
+/**
+ * Returns the directory outputs go to: the profile's outputDir, else "c-helper.outputDirectory",
+ * mirroring the source's directory in the project. An empty directory setting keeps outputs
+ * next to the sources.
+ * @param name Source file name without extension, or project name
+ * @param projectRoot Directory relative output directories are resolved against
+ * @param sourceDir Directory of the source file, or of the project sources
+ */
+export function getOutputDirectory(profile: BuildProfile, name: string, projectRoot: string, sourceDir: string): string {
+    const configured = profile.outputDir !== undefined ? profile.outputDir : getConfig().outputDirectory;
+    const directory = expandOutputTemplate(configured.trim(), name, profile.name);
+    return directory ? mirrorSourceDirectory(resolveProfilePath(directory, projectRoot), projectRoot, sourceDir) : sourceDir;
+}
+
+/**
+ * Returns the path of the executable built from a source file or project
+ * @param name Source file name without extension, or project name
+ */
+export function getExecutablePath(profile: BuildProfile, name: string, projectRoot: string, sourceDir: string): string {
+    const baseName = expandOutputTemplate(getConfig().outputName, name, profile.name) || name;
+    return path.join(getOutputDirectory(profile, name, projectRoot, sourceDir), getExecutableFileName(baseName));
+}
+
+/**
+ * Remembers a file or directory the extension produced, for "Clean Build Outputs"
+ */
+export function recordBuildOutput(outputPath: string) {
+    if (!extensionContext) {
+        return;
+    }
+    const outputs = extensionContext.workspaceState.get<string[]>(BUILD_OUTPUTS_KEY, []);
+    if (!outputs.includes(outputPath)) {
+        extensionContext.workspaceState.update(BUILD_OUTPUTS_KEY, [...outputs, outputPath]).then(undefined, (e: any) => {
+            console.error('Error recording build output:', e);
+        });
+    }
+}
+
+async function cleanBuildOutputs() {
+    try {
+        if (!extensionContext) {
+            return;
+        }
+
+        const outputs = extensionContext.workspaceState.get<string[]>(BUILD_OUTPUTS_KEY, []);
+        if (outputs.length === 0) {
+            vscode.window.showInformationMessage('No build outputs to clean');
+            return;
+        }
+
+        const failed: string[] = [];
+        let removed = 0;
+        for (const output of outputs) {
+            try {
+                if (fs.existsSync(output)) {
+                    fs.rmSync(output, { recursive: true, force: true });
+                    removed++;
+                }
+                removeEmptyParents(path.dirname(output));
+            } catch (error) {
+                console.error(`Error removing ${output}:`, error);
+                failed.push(output);
+            }
+        }
+
+        await extensionContext.workspaceState.update(BUILD_OUTPUTS_KEY, failed);
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`Removed ${removed} build output(s); could not remove ${failed.map(f => path.basename(f)).join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(`Removed ${removed} build output(s)`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to clean build outputs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Removes output directories left empty by cleaning, stopping at the workspace folder
+ */
+function removeEmptyParents(directory: string) {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(directory));
+    let current = directory;
+
+    while (folder && current.startsWith(folder.uri.fsPath) && current !== folder.uri.fsPath) {
+        try {
+            if (fs.readdirSync(current).length > 0) {
+                return;
+            }
+            fs.rmdirSync(current);
+        } catch {
+            return;
+        }
+        current = path.dirname(current);
+    }
+}
@@ -0,0 +1,242 @@
+/**
+ * Build profiles
+ * Named sets of compiler options (debug, release, sanitize, ...) defined by the extension,
+ * the "c-helper.buildProfiles" setting or the "profiles" section of .lazyc.json
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getConfig } from './config';
+import { getProjectConfig, getProjectRoot, onDidChangeProjectConfig } from './projectConfig';
+
+export interface BuildProfile {
+    name: string;
+    /** Compiler executable; falls back to "c-helper.compilerPath" */
+    compiler?: string;
+    /** C standard passed as -std=, e.g. "c11" or "gnu17" */
+    standard?: string;
+    /** Warning switches, either "all" or "-Wall" style */
+    warnings?: string[];
+    /** Preprocessor defines, e.g. "DEBUG" or "SIZE=10" */
+    defines?: string[];
+    /** Include directories, relative to the workspace folder */
+    includeDirs?: string[];
+    /** Libraries to link, e.g. "m" for -lm */
+    libraries?: string[];
+    /** Any other compiler flags, e.g. -g, -O2 or -fsanitize=address */
+    flags?: string[];
+    /** Directory for build outputs, relative to the workspace folder; overrides "c-helper.outputDirectory" */
+    outputDir?: string;
+}
+
+/**
+ * Profiles available in every workspace; settings and .lazyc.json can override them
+ */
+const BUILT_IN_PROFILES: { [name: string]: BuildProfile } = {
+    debug: {
+        name: 'debug',
+        standard: 'c11',
+        warnings: ['all', 'extra'],
+        defines: ['DEBUG'],
+        libraries: ['m'],
+        flags: ['-g', '-O0']
+    },
+    release: {
+        name: 'release',
+        standard: 'c11',
+        warnings: ['all'],
+        defines: ['NDEBUG'],
+        libraries: ['m'],
+        flags: ['-O2']
+    },
+    sanitize: {
+        name: 'sanitize',
+        standard: 'c11',
+        warnings: ['all', 'extra'],
+        defines: ['DEBUG'],
+        libraries: ['m'],
+        flags: ['-g', '-O1', '-fsanitize=address,undefined', '-fno-omit-frame-pointer']
+    }
+};
+
+const DEFAULT_PROFILE = 'debug';
+// Compile flags the linker needs too, e.g. to pull in the sanitizer runtime
+const LINK_FLAG_PATTERN = /^(-fsanitize=.*|-pthread|-static|-flto.*|-pg|--coverage)$/;
+const ACTIVE_PROFILE_KEY = 'c-helper.activeBuildProfile';
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let extensionContext: vscode.ExtensionContext | undefined;
+let profileStatusBarItem: vscode.StatusBarItem | undefined;
+
+export function registerBuildProfiles(context: vscode.ExtensionContext) {
+    extensionContext = context;
+
+    profileStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    profileStatusBarItem.command = 'c-helper.selectBuildProfile';
+    profileStatusBarItem.tooltip = 'Lazy C: Select Build Profile';
+
+    context.subscriptions.push(
+        profileStatusBarItem,
+        vscode.commands.registerCommand('c-helper.selectBuildProfile', selectBuildProfile),
+        vscode.window.onDidChangeActiveTextEditor(() => updateProfileStatusBar()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('c-helper.buildProfiles')) {
+                updateProfileStatusBar();
+            }
+        }),
+        onDidChangeProjectConfig(() => updateProfileStatusBar())
+    );
+
+    updateProfileStatusBar();
+}
+
+/**
+ * Returns all profiles for the project containing the given file, by name.
+ * Later sources override earlier ones field by field: built-in, settings, .lazyc.json.
+ */
+export function getBuildProfiles(filePath: string): { [name: string]: BuildProfile } {
+    const profiles: { [name: string]: BuildProfile } = {};
+    const settingsProfiles = vscode.workspace
+        .getConfiguration('c-helper', vscode.Uri.file(filePath))
+        .get<{ [name: string]: Partial<BuildProfile> }>('buildProfiles', {});
+    const projectProfiles = getProjectConfig(filePath).profiles || {};
+
+    for (const source of [BUILT_IN_PROFILES, settingsProfiles, projectProfiles]) {
+        for (const [name, profile] of Object.entries(source)) {
+            if (!profile || typeof profile !== 'object') {
+                continue;
+            }
+            profiles[name] = { ...profiles[name], ...profile, name };
+        }
+    }
+
+    return profiles;
+}
+
+/**
+ * Returns the profile selected in the status bar, or the default one when the
+ * selection no longer exists
+ */
+export function getActiveBuildProfile(filePath: string): BuildProfile {
+    const profiles = getBuildProfiles(filePath);
+    const selected = extensionContext?.workspaceState.get<string>(ACTIVE_PROFILE_KEY);
+    return (selected && profiles[selected]) || profiles[DEFAULT_PROFILE] || BUILT_IN_PROFILES[DEFAULT_PROFILE];
+}
+
+/**
+ * Resolves a profile path against the project root, expanding ${workspaceFolder}
+ */
+export function resolveProfilePath(value: string, projectRoot: string): string {
+    const expanded = value.replace(/\$\{workspaceFolder\}/g, projectRoot);
+    return path.resolve(projectRoot, expanded);
+}
+
+/**
+ * Returns the include dirs of a profile as absolute paths
+ */
+export function getProfileIncludeDirs(profile: BuildProfile, projectRoot: string): string[] {
+    return (profile.includeDirs || []).map(dir => resolveProfilePath(dir, projectRoot));
+}
+
+/**
+ * Returns the compiler executable a profile builds with
+ */
+export function getProfileCompiler(profile: BuildProfile): string {
+    return (profile.compiler && profile.compiler.trim()) || getConfig().compilerPath;
+}
+
+/**
+ * Returns the compile flags of a profile: standard, warnings, defines, include dirs and extra flags
+ */
+export function getProfileCompileFlags(profile: BuildProfile, projectRoot: string): string[] {
+    const args: string[] = [];
+
+    if (profile.standard) {
+        args.push(`-std=${profile.standard}`);
+    }
+    for (const warning of profile.warnings || []) {
+        args.push(warning.startsWith('-') ? warning : `-W${warning}`);
+    }
+    for (const define of profile.defines || []) {
+        args.push(`-D${define}`);
+    }
+    for (const includeDir of getProfileIncludeDirs(profile, projectRoot)) {
+        args.push(`-I${includeDir}`);
+    }
+    args.push(...(profile.flags || []));
+
+    return args;
+}
+
+/**
+ * Returns the link flags of a profile; they go after the sources and objects.
+ * Flags that also change linking (sanitizers, -pthread, ...) are repeated here.
+ */
+export function getProfileLinkFlags(profile: BuildProfile): string[] {
+    return [
+        ...(profile.flags || []).filter(flag => LINK_FLAG_PATTERN.test(flag)),
+        ...(profile.libraries || []).map(library => library.startsWith('-') ? library : `-l${library}`)
+    ];
+}
+
+/**
+ * Builds the full compiler command line for compiling and linking the given sources
+ */
+export function getCompilerArgs(profile: BuildProfile, sources: string[], outputPath: string, projectRoot: string): string[] {
+    return [
+        ...getProfileCompileFlags(profile, projectRoot),
+        ...sources,
+        '-o', outputPath,
+        ...getProfileLinkFlags(profile)
+    ];
+}
+
+async function selectBuildProfile() {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        const filePath = editor?.document.uri.fsPath
+            || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!filePath) {
+            vscode.window.showWarningMessage('Open a C file or folder to select a build profile');
+            return;
+        }
+
+        const active = getActiveBuildProfile(filePath);
+        const projectRoot = getProjectRoot(filePath);
+        const items = Object.values(getBuildProfiles(filePath)).map(profile => ({
+            label: profile.name,
+            description: profile.name === active.name ? '(active)' : undefined,
+            detail: [
+                getProfileCompiler(profile),
+                ...getProfileCompileFlags(profile, projectRoot),
+                ...getProfileLinkFlags(profile)
+            ].join(' ')
+        }));
+
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Select the build profile for compile commands' });
+        if (choice) {
+            await extensionContext?.workspaceState.update(ACTIVE_PROFILE_KEY, choice.label);
+            updateProfileStatusBar();
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to select build profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function updateProfileStatusBar() {
+    if (!profileStatusBarItem) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'c') {
+        profileStatusBarItem.hide();
+        return;
+    }
+
+    profileStatusBarItem.text = `$(tools) ${getActiveBuildProfile(editor.document.uri.fsPath).name}`;
+    profileStatusBarItem.show();
+}
@@ -0,0 +1,379 @@
+/**
+ * Build system integration
+ * Detects Makefile and CMake projects and builds them with make or cmake instead of
+ * calling the compiler directly. Their output feeds the same diagnostic parsing.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runProcess, publishBuildDiagnostics, getBuildOutputChannel, quoteArgument, ProcessResult } from './build';
+import { parseCompilerOutput, CompilerMessage } from './compilerOutput';
+import { BuildProfile, getActiveBuildProfile } from './buildProfiles';
+import { getOutputDirectory, recordBuildOutput } from './buildOutputs';
+import { getProjectRoot } from './projectConfig';
+
+export type BuildSystemKind = 'make' | 'cmake';
+
+export interface BuildSystem {
+    kind: BuildSystemKind;
+    /** Directory holding the Makefile, or the top-level CMakeLists.txt */
+    root: string;
+}
+
+export interface BuildTarget {
+    name: string;
+    /** Executable produced by the target, when known */
+    executable?: string;
+}
+
+export interface BuildSystemResult {
+    success: boolean;
+    target?: string;
+    /** Executable to run after the build, when it could be determined */
+    executable?: string;
+    messages: CompilerMessage[];
+}
+
+const MAKEFILE_NAMES = ['GNUmakefile', 'makefile', 'Makefile'];
+const CMAKE_LISTS = 'CMakeLists.txt';
+const SELECTED_TARGETS_KEY = 'c-helper.buildTargets';
+
+// "target other: deps" rule lines; variable assignments (:=, ::=) are excluded
+const MAKE_RULE_PATTERN = /^([A-Za-z0-9_.\-/][A-Za-z0-9_.\-/ \t]*?)\s*:(?![:=])/;
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let extensionContext: vscode.ExtensionContext | undefined;
+
+export function registerBuildSystems(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c-helper.selectBuildTarget', selectBuildTarget)
+    );
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Finds the build system of a source file by walking up to its workspace folder.
+ * The top-most CMakeLists.txt wins (nested ones belong to the same project);
+ * otherwise the nearest Makefile is used.
+ * @param stopDir Directory the search does not go above
+ */
+export function detectBuildSystem(filePath: string, stopDir: string): BuildSystem | undefined {
+    let makeRoot: string | undefined;
+    let cmakeRoot: string | undefined;
+    let current = path.dirname(filePath);
+
+    while (true) {
+        if (fs.existsSync(path.join(current, CMAKE_LISTS))) {
+            cmakeRoot = current;
+        }
+        if (!makeRoot && MAKEFILE_NAMES.some(name => fs.existsSync(path.join(current, name)))) {
+            makeRoot = current;
+        }
+
+        const parent = path.dirname(current);
+        if (current === stopDir || parent === current || !current.startsWith(stopDir)) {
+            break;
+        }
+        current = parent;
+    }
+
+    if (cmakeRoot) {
+        return { kind: 'cmake', root: cmakeRoot };
+    }
+    return makeRoot ? { kind: 'make', root: makeRoot } : undefined;
+}
+
+/**
+ * Returns the build system compile commands should use for a file, honoring
+ * "c-helper.buildSystem"
+ */
+export function getBuildSystem(filePath: string): BuildSystem | undefined {
+    const setting = vscode.workspace
+        .getConfiguration('c-helper', vscode.Uri.file(filePath))
+        .get<string>('buildSystem', 'auto');
+    if (setting === 'compiler') {
+        return undefined;
+    }
+
+    const detected = detectBuildSystem(filePath, getProjectRoot(filePath));
+    if (setting === 'make' || setting === 'cmake') {
+        return detected && detected.kind === setting ? detected : undefined;
+    }
+    return detected;
+}
+
+// ============================================================================
+// MAKE
+// ============================================================================
+
+/**
+ * Lists the explicit targets of a Makefile in the order they appear.
+ * Pattern rules, special targets (.PHONY, ...) and targets built from variables are skipped.
+ */
+export function parseMakeTargets(text: string): string[] {
+    const targets: string[] = [];
+
+    for (const line of text.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+        if (/^\s/.test(line)) {
+            continue;
+        }
+        const match = line.match(MAKE_RULE_PATTERN);
+        if (!match) {
+            continue;
+        }
+        for (const target of match[1].split(/\s+/)) {
+            if (target && !target.startsWith('.') && !target.includes('%') && !targets.includes(target)) {
+                targets.push(target);
+            }
+        }
+    }
+
+    return targets;
+}
+
+function findMakefile(root: string): string | undefined {
+    return MAKEFILE_NAMES.map(name => path.join(root, name)).find(file => fs.existsSync(file));
+}
+
+/**
+ * Returns the prerequisites of a Makefile rule, e.g. ["greeter"] for "all: greeter"
+ */
+export function parseMakePrerequisites(text: string, target: string): string[] {
+    for (const line of text.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+        const match = line.match(MAKE_RULE_PATTERN);
+        if (match && match[1].split(/\s+/).includes(target)) {
+            return line.substring(match[0].length).split(';')[0].trim().split(/\s+/).filter(Boolean);
+        }
+    }
+    return [];
+}
+
+function isExecutableFile(filePath: string): boolean {
+    try {
+        if (!fs.statSync(filePath).isFile()) {
+            return false;
+        }
+        if (process.platform === 'win32') {
+            return filePath.toLowerCase().endsWith('.exe');
+        }
+        fs.accessSync(filePath, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Finds the program a make target produces: an executable named like the target next to
+ * the Makefile, or for aggregate targets such as "all", one produced by a prerequisite
+ */
+function findMakeExecutable(root: string, target: string, makefileText: string, depth = 0): string | undefined {
+    for (const candidate of [path.join(root, target), path.join(root, `${target}.exe`)]) {
+        if (isExecutableFile(candidate)) {
+            return candidate;
+        }
+    }
+    if (depth >= 2) {
+        return undefined;
+    }
+    for (const prerequisite of parseMakePrerequisites(makefileText, target)) {
+        const executable = findMakeExecutable(root, prerequisite, makefileText, depth + 1);
+        if (executable) {
+            return executable;
+        }
+    }
+    return undefined;
+}
+
+function getMakeTargets(root: string): BuildTarget[] {
+    const makefile = findMakefile(root);
+    if (!makefile) {
+        return [];
+    }
+    return parseMakeTargets(fs.readFileSync(makefile, 'utf8')).map(name => ({ name }));
+}
+
+// ============================================================================
+// CMAKE
+// ============================================================================
+
+export function getCMakeBuildDir(root: string, profile: BuildProfile): string {
+    const directory = getOutputDirectory(profile, path.basename(root), root, root);
+    return directory === root ? path.join(root, 'build') : directory;
+}
+
+/**
+ * Asks CMake to write its code model (targets and artifacts) on the next configure
+ * through the file-based API
+ */
+function requestCMakeCodeModel(buildDir: string) {
+    const queryDir = path.join(buildDir, '.cmake', 'api', 'v1', 'query');
+    fs.mkdirSync(queryDir, { recursive: true });
+    const query = path.join(queryDir, 'codemodel-v2');
+    if (!fs.existsSync(query)) {
+        fs.writeFileSync(query, '');
+    }
+}
+
+/**
+ * Reads the targets of a configured CMake build directory from the file-based API reply
+ */
+export function readCMakeTargets(buildDir: string): BuildTarget[] {
+    try {
+        const replyDir = path.join(buildDir, '.cmake', 'api', 'v1', 'reply');
+        const index = fs.readdirSync(replyDir).filter(file => file.startsWith('index-')).sort().pop();
+        if (!index) {
+            return [];
+        }
+
+        const readReply = (file: string) => JSON.parse(fs.readFileSync(path.join(replyDir, file), 'utf8'));
+        const codemodelRef = (readReply(index).objects || []).find((object: any) => object.kind === 'codemodel');
+        if (!codemodelRef) {
+            return [];
+        }
+
+        const configuration = (readReply(codemodelRef.jsonFile).configurations || [])[0];
+        return (configuration?.targets || []).map((targetRef: any) => {
+            const target = readReply(targetRef.jsonFile);
+            const artifact = target.type === 'EXECUTABLE' && target.artifacts?.[0]?.path;
+            return {
+                name: target.name,
+                executable: artifact ? path.resolve(buildDir, artifact) : undefined
+            };
+        });
+    } catch (error) {
+        console.error('Error reading CMake code model:', error);
+        return [];
+    }
+}
+
+async function configureCMake(root: string, buildDir: string, profile: BuildProfile): Promise<ProcessResult> {
+    requestCMakeCodeModel(buildDir);
+    recordBuildOutput(buildDir);
+    const buildType = profile.name === 'release' ? 'Release' : 'Debug';
+    return runLogged('cmake', ['-S', root, '-B', buildDir, `-DCMAKE_BUILD_TYPE=${buildType}`, '-DCMAKE_EXPORT_COMPILE_COMMANDS=ON'], root);
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+async function runLogged(command: string, args: string[], cwd: string): Promise<ProcessResult> {
+    const channel = getBuildOutputChannel();
+    channel.appendLine(`> ${command} ${args.map(quoteArgument).join(' ')}`);
+
+    const result = await runProcess(command, args, cwd);
+    if (result.spawnError) {
+        channel.appendLine(`Could not start ${command}: ${result.spawnError.message}`);
+    } else if (result.output) {
+        channel.append(result.output);
+    }
+    return result;
+}
+
+/**
+ * Lists the targets of a build system; CMake projects are configured first if needed
+ */
+export async function getBuildTargets(buildSystem: BuildSystem, filePath: string): Promise<BuildTarget[]> {
+    if (buildSystem.kind === 'make') {
+        return getMakeTargets(buildSystem.root);
+    }
+
+    const profile = getActiveBuildProfile(filePath);
+    const buildDir = getCMakeBuildDir(buildSystem.root, profile);
+    if (!fs.existsSync(path.join(buildDir, 'CMakeCache.txt'))) {
+        await configureCMake(buildSystem.root, buildDir, profile);
+    }
+    return readCMakeTargets(buildDir);
+}
+
+export function getSelectedTarget(buildSystem: BuildSystem): string | undefined {
+    return extensionContext?.workspaceState.get<{ [root: string]: string }>(SELECTED_TARGETS_KEY, {})[buildSystem.root];
+}
+
+/**
+ * Builds the selected target (or the default one) with make or cmake and publishes
+ * the compiler messages found in the output. The profile only picks the CMake build
+ * type and directory; make builds with the flags of the Makefile.
+ */
+export async function buildWithBuildSystem(
+    buildSystem: BuildSystem,
+    filePath: string,
+    profile: BuildProfile = getActiveBuildProfile(filePath)
+): Promise<BuildSystemResult> {
+    const target = getSelectedTarget(buildSystem);
+    let result: ProcessResult;
+    let cwd = buildSystem.root;
+    let executable: string | undefined;
+
+    if (buildSystem.kind === 'make') {
+        result = await runLogged('make', target ? [target] : [], buildSystem.root);
+        // Without a target make builds the first one of the Makefile
+        const makefile = findMakefile(buildSystem.root);
+        const makefileText = makefile ? fs.readFileSync(makefile, 'utf8') : '';
+        const name = target || parseMakeTargets(makefileText)[0];
+        executable = name ? findMakeExecutable(buildSystem.root, name, makefileText) : undefined;
+    } else {
+        const buildDir = getCMakeBuildDir(buildSystem.root, profile);
+        cwd = buildDir;
+        result = await configureCMake(buildSystem.root, buildDir, profile);
+        if (!result.spawnError && result.exitCode === 0) {
+            result = await runLogged('cmake', ['--build', buildDir, ...(target ? ['--target', target] : [])], buildDir);
+            const targets = readCMakeTargets(buildDir).filter(t => t.executable);
+            executable = (targets.find(t => t.name === target) || (target ? undefined : targets[0]))?.executable;
+        }
+    }
+
+    if (result.spawnError) {
+        throw new Error(`Could not run ${buildSystem.kind}. Install it or set "c-helper.buildSystem" to "compiler".`);
+    }
+
+    const messages = parseCompilerOutput(result.output, cwd);
+    publishBuildDiagnostics(messages, buildSystem.kind);
+
+    const success = result.exitCode === 0;
+    getBuildOutputChannel().appendLine(success ? 'Build succeeded.' : `Build failed (exit code ${result.exitCode}).`);
+    return { success, target, executable, messages };
+}
+
+async function selectBuildTarget() {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        const buildSystem = editor && getBuildSystem(editor.document.uri.fsPath);
+        if (!editor || !buildSystem) {
+            vscode.window.showWarningMessage('No Makefile or CMakeLists.txt found for the current file');
+            return;
+        }
+
+        const targets = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: `Reading ${buildSystem.kind} targets` },
+            () => getBuildTargets(buildSystem, editor.document.uri.fsPath)
+        );
+        const selected = getSelectedTarget(buildSystem);
+        const items: (vscode.QuickPickItem & { target?: string })[] = [
+            { label: '(default)', description: selected ? undefined : '(active)', detail: `Build what ${buildSystem.kind} builds without a target` },
+            ...targets.map(target => ({
+                label: target.name,
+                target: target.name,
+                description: target.name === selected ? '(active)' : undefined,
+                detail: target.executable ? path.relative(buildSystem.root, target.executable) : undefined
+            }))
+        ];
+
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: `Select the ${buildSystem.kind} target to build` });
+        if (choice && extensionContext) {
+            const selections = extensionContext.workspaceState.get<{ [root: string]: string | undefined }>(SELECTED_TARGETS_KEY, {});
+            await extensionContext.workspaceState.update(SELECTED_TARGETS_KEY, { ...selections, [buildSystem.root]: choice.target });
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to select build target: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
@@ -0,0 +1,264 @@
+/**
+ * C lexer
+ * Splits C source into tokens, keeping comments, string and character literals and
+ * preprocessor lines intact so editor features never mistake their contents for code
+ */
+
+export type TokenKind =
+    | 'identifier'
+    | 'keyword'
+    | 'number'
+    | 'string'
+    | 'char'
+    | 'punctuator'
+    | 'preprocessor'
+    | 'comment';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    /** Offset of the first character */
+    start: number;
+    /** Offset after the last character */
+    end: number;
+    /** 0-based line of the first character */
+    line: number;
+    /** 0-based column of the first character */
+    column: number;
+    /** 0-based line of the last character; differs from line for block comments and continued lines */
+    endLine: number;
+}
+
+export const C_KEYWORDS = new Set([
+    'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else',
+    'enum', 'extern', 'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register',
+    'restrict', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'typedef',
+    'union', 'unsigned', 'void', 'volatile', 'while',
+    // C11
+    '_Alignas', '_Alignof', '_Atomic', '_Bool', '_Complex', '_Generic', '_Imaginary',
+    '_Noreturn', '_Static_assert', '_Thread_local',
+    // C23
+    'alignas', 'alignof', 'bool', 'constexpr', 'false', 'nullptr', 'static_assert',
+    'thread_local', 'true', 'typeof', 'typeof_unqual'
+]);
+
+// Longest first, so "<<=" wins over "<<" and "<"
+const PUNCTUATORS = [
+    '...', '<<=', '>>=',
+    '->', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+    '*=', '/=', '%=', '+=', '-=', '&=', '^=', '|=', '##'
+];
+
+const STRING_PREFIXES = new Set(['L', 'u', 'U', 'u8']);
+
+function isIdentifierStart(char: string): boolean {
+    return /[A-Za-z_$]/.test(char);
+}
+
+function isIdentifierPart(char: string): boolean {
+    return /[A-Za-z0-9_$]/.test(char);
+}
+
+/**
+ * Tokenizes C source. Backslash-newline continuations are kept inside the token they
+ * continue. Unterminated literals and comments end at the end of their line or of the text.
+ * @param text Source text
+ * @param includeComments Keep comment tokens in the result
+ */
+export function tokenize(text: string, includeComments = true): Token[] {
+    const tokens: Token[] = [];
+    let offset = 0;
+    let line = 0;
+    let lineStart = 0;
+    // Only whitespace and comments so far on this line, so "#" starts a directive
+    let atLineStart = true;
+
+    const push = (kind: TokenKind, start: number, end: number, startLine: number, startColumn: number) => {
+        if (kind === 'comment' && !includeComments) {
+            return;
+        }
+        tokens.push({ kind, text: text.substring(start, end), start, end, line: startLine, column: startColumn, endLine: line });
+    };
+
+    // Advances over text[offset..end), keeping the line count in step
+    const advanceTo = (end: number) => {
+        for (; offset < end; offset++) {
+            if (text[offset] === '\n') {
+                line++;
+                lineStart = offset + 1;
+            }
+        }
+    };
+
+    // End of a quoted literal starting at offset: the closing quote, or the end of the line
+    const findLiteralEnd = (quote: string, from: number): number => {
+        let index = from;
+        while (index < text.length) {
+            const char = text[index];
+            if (char === '\\') {
+                index += 2;
+                continue;
+            }
+            if (char === quote) {
+                return index + 1;
+            }
+            if (char === '\n') {
+                return index;
+            }
+            index++;
+        }
+        return text.length;
+    };
+
+    while (offset < text.length) {
+        const char = text[offset];
+        const next = text[offset + 1];
+        const start = offset;
+        const startLine = line;
+        const startColumn = offset - lineStart;
+
+        if (char === '\n') {
+            advanceTo(offset + 1);
+            atLineStart = true;
+            continue;
+        }
+        if (char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v') {
+            offset++;
+            continue;
+        }
+        if (char === '\\' && (next === '\n' || (next === '\r' && text[offset + 2] === '\n'))) {
+            advanceTo(offset + (next === '\r' ? 3 : 2));
+            continue;
+        }
+
+        if (char === '/' && next === '/') {
+            // Line comments continue onto the next line after a trailing backslash
+            let end = offset + 2;
+            while (end < text.length && text[end] !== '\n') {
+                end = text[end] === '\\' && text[end + 1] === '\n' ? end + 2 : end + 1;
+            }
+            advanceTo(end);
+            push('comment', start, end, startLine, startColumn);
+            continue;
+        }
+        if (char === '/' && next === '*') {
+            const close = text.indexOf('*/', offset + 2);
+            const end = close === -1 ? text.length : close + 2;
+            advanceTo(end);
+            push('comment', start, end, startLine, startColumn);
+            continue;
+        }
+
+        if (char === '#' && atLineStart) {
+            // The directive runs to the end of the line, including continuations, up to a comment
+            let end = offset + 1;
+            while (end < text.length && text[end] !== '\n') {
+                if (text[end] === '\\' && (text[end + 1] === '\n' || (text[end + 1] === '\r' && text[end + 2] === '\n'))) {
+                    end += text[end + 1] === '\r' ? 3 : 2;
+                    continue;
+                }
+                if (text[end] === '/' && (text[end + 1] === '/' || text[end + 1] === '*')) {
+                    break;
+                }
+                if (text[end] === '"' || text[end] === '\'') {
+                    end = findLiteralEnd(text[end], end + 1);
+                    continue;
+                }
+                end++;
+            }
+            while (end > offset && /\s/.test(text[end - 1]) && text[end - 1] !== '\n') {
+                end--;
+            }
+            advanceTo(end);
+            push('preprocessor', start, end, startLine, startColumn);
+            atLineStart = false;
+            continue;
+        }
+        atLineStart = false;
+
+        if (isIdentifierStart(char)) {
+            let end = offset + 1;
+            while (end < text.length && isIdentifierPart(text[end])) {
+                end++;
+            }
+            const word = text.substring(offset, end);
+            if (STRING_PREFIXES.has(word) && (text[end] === '"' || text[end] === '\'')) {
+                const literalEnd = findLiteralEnd(text[end], end + 1);
+                advanceTo(literalEnd);
+                push(text[end] === '"' ? 'string' : 'char', start, literalEnd, startLine, startColumn);
+                continue;
+            }
+            advanceTo(end);
+            push(C_KEYWORDS.has(word) ? 'keyword' : 'identifier', start, end, startLine, startColumn);
+            continue;
+        }
+
+        if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next || ''))) {
+            // A preprocessing number: digits, letters, dots, digit separators and signed exponents
+            let end = offset + 1;
+            while (end < text.length) {
+                if (/[eEpP]/.test(text[end]) && /[+-]/.test(text[end + 1] || '')) {
+                    end += 2;
+                } else if (/[A-Za-z0-9_.']/.test(text[end])) {
+                    end++;
+                } else {
+                    break;
+                }
+            }
+            advanceTo(end);
+            push('number', start, end, startLine, startColumn);
+            continue;
+        }
+
+        if (char === '"' || char === '\'') {
+            const end = findLiteralEnd(char, offset + 1);
+            advanceTo(end);
+            push(char === '"' ? 'string' : 'char', start, end, startLine, startColumn);
+            continue;
+        }
+
+        const punctuator = PUNCTUATORS.find(candidate => text.startsWith(candidate, offset)) || char;
+        advanceTo(offset + punctuator.length);
+        push('punctuator', start, offset, startLine, startColumn);
+    }
+
+    return tokens;
+}
+
+/**
+ * Returns the text with comments and the contents of string and character literals
+ * replaced by spaces. Offsets and line breaks are kept, so positions found in the
+ * result are valid in the original text.
+ */
+export function maskCommentsAndStrings(text: string): string {
+    const chars = text.split('');
+    for (const token of tokenize(text)) {
+        if (token.kind !== 'comment' && token.kind !== 'string' && token.kind !== 'char') {
+            continue;
+        }
+        // Literals keep their quotes so the code around them still reads as an expression
+        let contentStart = token.start;
+        let contentEnd = token.end;
+        if (token.kind !== 'comment') {
+            const quote = token.kind === 'string' ? '"' : '\'';
+            contentStart = token.start + token.text.indexOf(quote) + 1;
+            if (token.text.length > 1 && token.text.endsWith(quote) && token.end - 1 >= contentStart) {
+                contentEnd = token.end - 1;
+            }
+        }
+        for (let index = contentStart; index < contentEnd; index++) {
+            if (chars[index] !== '\n' && chars[index] !== '\r') {
+                chars[index] = ' ';
+            }
+        }
+    }
+    return chars.join('');
+}
+
+/**
+ * Returns the name of a preprocessor directive token, e.g. "include" for "#  include <x.h>"
+ */
+export function getDirectiveName(token: Token): string {
+    const match = token.text.match(/^#\s*(\w*)/);
+    return match ? match[1] : '';
+}
@@ -0,0 +1,615 @@
+/**
+ * Lightweight C parser
+ * Finds the declarations, function definitions, calls and conditions of a C file from the
+ * tokens of the lexer. It does not expand macros or check types; it only knows enough
+ * about C's structure to tell declarations, bodies and expressions apart.
+ */
+
+import { Token, tokenize, getDirectiveName } from './cLexer';
+
+export interface CParameter {
+    /** Full parameter text, e.g. "const char *name" */
+    text: string;
+    /** Parameter name; undefined for unnamed parameters such as "int" in a prototype */
+    name?: string;
+}
+
+export interface CFunction {
+    name: string;
+    /** Return type including storage class, e.g. "static char *" without the trailing space */
+    returnType: string;
+    /** Storage class and function specifiers, e.g. ["static", "inline"] */
+    specifiers: string[];
+    parameters: CParameter[];
+    /** True for a definition with a body, false for a prototype */
+    isDefinition: boolean;
+    /** Normalized declaration without the body or semicolon, e.g. "static int add(int a, int b)" */
+    signature: string;
+    /** Offset of the first token of the declaration */
+    start: number;
+    /** Offset after the closing brace or semicolon */
+    end: number;
+    /** 0-based line of the first token */
+    line: number;
+    /** 0-based line of the function name */
+    nameLine: number;
+    /** 0-based line of the closing parenthesis of the parameter list */
+    declaratorEndLine: number;
+    /** Offset of the opening brace of the body */
+    bodyStart?: number;
+    /** 0-based lines of the opening and closing braces of the body */
+    bodyStartLine?: number;
+    bodyEndLine?: number;
+}
+
+export interface CInclude {
+    header: string;
+    /** True for <header.h>, false for "header.h" */
+    system: boolean;
+    line: number;
+}
+
+export interface CMacro {
+    name: string;
+    line: number;
+    functionLike: boolean;
+    /** Offsets of the whole directive, including continuation lines */
+    start: number;
+    end: number;
+}
+
+export interface CTypeDeclaration {
+    /** Names it declares: struct, union and enum tags and typedef names */
+    names: string[];
+    /** Other identifiers it mentions, such as types and macros */
+    references: string[];
+    /** Offsets from the first token to after the semicolon */
+    start: number;
+    end: number;
+    line: number;
+    endLine: number;
+}
+
+export interface CCall {
+    name: string;
+    /** The identifier token of the called name */
+    token: Token;
+    /** Offset after the closing parenthesis of the arguments */
+    end: number;
+    /** Tokens of each argument, split at top-level commas */
+    args: Token[][];
+    /** Name of the function whose body contains the call */
+    inFunction?: string;
+}
+
+export interface CCondition {
+    keyword: 'if' | 'while' | 'switch' | 'for';
+    keywordToken: Token;
+    /** Tokens of the controlling expression; for "for" loops only the condition part */
+    tokens: Token[];
+}
+
+export interface CTranslationUnit {
+    /** Code tokens, without comments */
+    tokens: Token[];
+    comments: Token[];
+    includes: CInclude[];
+    macros: CMacro[];
+    /** Function definitions and prototypes in source order */
+    functions: CFunction[];
+    /** Names of typedefs declared in the file */
+    typedefs: string[];
+    /** File-scope struct, union and enum definitions and typedefs */
+    types: CTypeDeclaration[];
+    /** Names of variables declared in the file, at file scope or in function bodies */
+    variables: string[];
+    calls: CCall[];
+    conditions: CCondition[];
+}
+
+const TYPE_KEYWORDS = new Set([
+    'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned',
+    '_Bool', 'bool', '_Complex', '_Imaginary', 'struct', 'union', 'enum',
+    'const', 'volatile', 'restrict', '_Atomic', 'static', 'extern', 'register', 'auto',
+    'inline', '_Noreturn', '_Thread_local', 'thread_local', 'constexpr', 'typedef', 'typeof', 'typeof_unqual'
+]);
+const FUNCTION_SPECIFIERS = new Set(['static', 'extern', 'inline', '_Noreturn']);
+// Compiler extensions written like calls that are part of a declaration
+const ATTRIBUTE_NAMES = new Set(['__attribute__', '__declspec', '__asm__', 'asm', '__asm', '_Alignas', 'alignas']);
+const QUALIFIERS = new Set(['const', 'volatile', 'restrict', '_Atomic']);
+const TAG_KEYWORDS = new Set(['struct', 'union', 'enum']);
+const CONTROL_KEYWORDS = new Set(['if', 'while', 'switch', 'for']);
+
+const OPENING: { [open: string]: string } = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Returns the index of the token closing the bracket at index, or tokens.length when unbalanced
+ */
+export function findClosing(tokens: Token[], index: number): number {
+    const open = tokens[index].text;
+    const close = OPENING[open];
+    let depth = 0;
+    for (let i = index; i < tokens.length; i++) {
+        if (tokens[i].kind !== 'punctuator') {
+            continue;
+        }
+        if (tokens[i].text === open) {
+            depth++;
+        } else if (tokens[i].text === close) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return tokens.length;
+}
+
+/**
+ * Splits tokens at commas that are not nested in brackets
+ */
+export function splitTopLevel(tokens: Token[], separator = ','): Token[][] {
+    const parts: Token[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.kind === 'punctuator') {
+            if (OPENING[token.text]) {
+                depth++;
+            } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+                depth--;
+            } else if (token.text === separator && depth === 0) {
+                parts.push([]);
+                continue;
+            }
+        }
+        parts[parts.length - 1].push(token);
+    }
+    return parts.length === 1 && parts[0].length === 0 ? [] : parts;
+}
+
+function isWord(token: Token): boolean {
+    return token.kind === 'identifier' || token.kind === 'keyword' || token.kind === 'number';
+}
+
+/**
+ * Joins tokens into normalized declaration text: "char *name", "int f(int a, int b)"
+ */
+export function joinTokens(tokens: Token[]): string {
+    let text = '';
+    tokens.forEach((token, index) => {
+        const previous = tokens[index - 1];
+        if (previous && needsSpace(previous, token)) {
+            text += ' ';
+        }
+        text += token.text;
+    });
+    return text;
+}
+
+function needsSpace(previous: Token, token: Token): boolean {
+    if ([',', ')', ']', ';', '['].includes(token.text)) {
+        return false;
+    }
+    if (['(', '[', '*', '&', '~', '!'].includes(previous.text)) {
+        return false;
+    }
+    if (previous.text === ',') {
+        return true;
+    }
+    if (token.text === '(') {
+        // "void (*callback)(int)" but "name(int)"
+        return previous.kind === 'keyword';
+    }
+    if (token.text === '*') {
+        return isWord(previous) || previous.text === ')';
+    }
+    if (['.', '->', '++', '--'].includes(token.text) || ['.', '->'].includes(previous.text)) {
+        return false;
+    }
+    return true;
+}
+
+function isTypeToken(token: Token, typedefs: Set<string>): boolean {
+    return (token.kind === 'keyword' && TYPE_KEYWORDS.has(token.text)) || (token.kind === 'identifier' && typedefs.has(token.text));
+}
+
+interface FunctionDeclarator {
+    nameIndex: number;
+    openIndex: number;
+    closeIndex: number;
+    /** Last token of the declarator: the closing parenthesis of the parameter list, or of the returned function's in "int (*getfn(void))(int)" */
+    endIndex: number;
+}
+
+/**
+ * Finds the function declarator of a top-level declaration: the name token followed by
+ * its parameter list. Returns undefined for anything else (variables, function pointers).
+ */
+function findFunctionDeclarator(tokens: Token[]): FunctionDeclarator | undefined {
+    for (let i = 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.text === '=' || token.text === '{') {
+            return undefined;
+        }
+        if (token.text !== '(') {
+            continue;
+        }
+        const previous = tokens[i - 1];
+        const closeIndex = findClosing(tokens, i);
+        if (previous.kind === 'identifier' && ATTRIBUTE_NAMES.has(previous.text)) {
+            i = closeIndex;
+            continue;
+        }
+        if (previous.kind !== 'identifier') {
+            return tokens[i + 1]?.text === '*' ? findPointerReturningDeclarator(tokens, i, closeIndex) : undefined;
+        }
+        // Something has to come before the name: a return type or a declaration specifier
+        return closeIndex < tokens.length ? { nameIndex: i - 1, openIndex: i, closeIndex, endIndex: closeIndex } : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * A function returning a function pointer, "void (*signal(int sig, ...))(int)": the name
+ * and its parameters are inside the parentheses and the returned type's parameters follow
+ */
+function findPointerReturningDeclarator(tokens: Token[], open: number, close: number): FunctionDeclarator | undefined {
+    let nameIndex = open + 1;
+    while (nameIndex < close && (tokens[nameIndex].text === '*' || QUALIFIERS.has(tokens[nameIndex].text))) {
+        nameIndex++;
+    }
+    if (tokens[nameIndex]?.kind !== 'identifier' || tokens[nameIndex + 1]?.text !== '(') {
+        // "void (*handler)(int)" is a function pointer variable
+        return undefined;
+    }
+    const closeIndex = findClosing(tokens, nameIndex + 1);
+    if (closeIndex + 1 !== close || tokens[close + 1]?.text !== '(') {
+        return undefined;
+    }
+    const endIndex = findClosing(tokens, close + 1);
+    return endIndex < tokens.length ? { nameIndex, openIndex: nameIndex + 1, closeIndex, endIndex } : undefined;
+}
+
+function parseParameter(tokens: Token[]): CParameter {
+    const text = joinTokens(tokens);
+    // Function pointer parameter: the name is inside the first parentheses, "void (*name)(int)"
+    const open = tokens.findIndex(token => token.text === '(');
+    if (open !== -1 && tokens[open + 1]?.text === '*') {
+        const name = tokens.slice(open + 1, findClosing(tokens, open)).find(token => token.kind === 'identifier');
+        return { text, name: name?.text };
+    }
+
+    const bracket = tokens.findIndex(token => token.text === '[');
+    const declarator = bracket === -1 ? tokens : tokens.slice(0, bracket);
+    const last = declarator[declarator.length - 1];
+    const previous = declarator[declarator.length - 2];
+    // "size_t" and "const char *" have no name, "struct node" names a tag
+    const typeTokens = declarator.slice(0, -1).filter(token => token.text !== '*' && !QUALIFIERS.has(token.text));
+    const isNamed = !!last && last.kind === 'identifier' && typeTokens.length > 0 && !TAG_KEYWORDS.has(previous?.text);
+    return isNamed ? { text, name: last.text } : { text };
+}
+
+function parseFunction(
+    tokens: Token[],
+    declarator: FunctionDeclarator,
+    end: number,
+    body?: { open: Token; close: Token }
+): CFunction {
+    const leadingTokens = withoutAttributes(tokens.slice(0, declarator.nameIndex));
+    const parameterTokens = tokens.slice(declarator.openIndex + 1, declarator.closeIndex);
+    const parameters = splitTopLevel(parameterTokens).map(parseParameter);
+    const isVoidList = parameters.length === 1 && parameters[0].text === 'void';
+    const nameToken = tokens[declarator.nameIndex];
+    // Attributes and anything after the declarator are not part of the signature
+    const signatureTokens = [...leadingTokens, ...tokens.slice(declarator.nameIndex, declarator.endIndex + 1)];
+    // "int (*getfn(void))(int)" returns "int (*)(int)"
+    const returnTokens = [...leadingTokens, ...tokens.slice(declarator.closeIndex + 1, declarator.endIndex + 1)];
+
+    return {
+        name: nameToken.text,
+        returnType: joinTokens(returnTokens),
+        specifiers: leadingTokens.filter(token => FUNCTION_SPECIFIERS.has(token.text)).map(token => token.text),
+        parameters: isVoidList ? [] : parameters,
+        isDefinition: !!body,
+        signature: joinTokens(signatureTokens),
+        start: tokens[0].start,
+        end,
+        line: tokens[0].line,
+        nameLine: nameToken.line,
+        declaratorEndLine: tokens[declarator.endIndex].line,
+        bodyStart: body?.open.start,
+        bodyStartLine: body?.open.line,
+        bodyEndLine: body?.close.line
+    };
+}
+
+/**
+ * Drops "__attribute__((...))" and similar groups from declaration tokens
+ */
+function withoutAttributes(tokens: Token[]): Token[] {
+    const result: Token[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].kind === 'identifier' && ATTRIBUTE_NAMES.has(tokens[i].text) && tokens[i + 1]?.text === '(') {
+            i = findClosing(tokens, i + 1);
+            continue;
+        }
+        result.push(tokens[i]);
+    }
+    return result;
+}
+
+/**
+ * Names declared by a declaration: "int a = 1, *b[3];" declares a and b
+ */
+function findDeclaredNames(tokens: Token[], typedefs: Set<string>): string[] {
+    if (tokens.length < 2 || !(isTypeToken(tokens[0], typedefs) || tokens[0].kind === 'identifier')) {
+        return [];
+    }
+    const names: string[] = [];
+    for (const part of splitTopLevel(tokens)) {
+        const equals = part.findIndex(token => token.text === '=');
+        const declarator = (equals === -1 ? part : part.slice(0, equals)).filter(token => token.kind === 'identifier' || token.text === '[');
+        const bracket = declarator.findIndex(token => token.text === '[');
+        const candidates = bracket === -1 ? declarator : declarator.slice(0, bracket);
+        const name = candidates[candidates.length - 1];
+        if (name && !typedefs.has(name.text)) {
+            names.push(name.text);
+        }
+    }
+    return names;
+}
+
+/**
+ * Looks through a function body for calls, controlling expressions and local variables.
+ * Struct bodies and initializers are scanned for calls only.
+ */
+function scanBody(tokens: Token[], from: number, to: number, functionName: string, unit: CTranslationUnit, typedefs: Set<string>, collectVariables = true) {
+    let statementStart = from;
+    for (let i = from; i < to; i++) {
+        const token = tokens[i];
+
+        if (token.text === '{' && ['=', ',', '{', '('].includes(tokens[i - 1]?.text) && i - 1 >= statementStart) {
+            // An initializer, "int a[] = { 1, 2 };", stays part of its declaration
+            const close = Math.min(findClosing(tokens, i), to);
+            scanBody(tokens, i + 1, close, functionName, unit, typedefs, false);
+            i = close;
+            continue;
+        }
+
+        if (token.kind === 'punctuator' && (token.text === ';' || token.text === '{' || token.text === '}')) {
+            // A statement starting with a type is a declaration: "int count = 0;", "FILE *f = ...;"
+            const statement = tokens.slice(statementStart, i);
+            if (collectVariables && token.text === ';' && statement.length > 0 && startsDeclaration(statement, typedefs)) {
+                unit.variables.push(...findDeclaredNames(statement, typedefs));
+            }
+            statementStart = i + 1;
+            continue;
+        }
+
+        if (token.kind === 'keyword' && CONTROL_KEYWORDS.has(token.text) && tokens[i + 1]?.text === '(') {
+            const close = findClosing(tokens, i + 1);
+            let expression = tokens.slice(i + 2, Math.min(close, to));
+            if (token.text === 'for') {
+                const parts = splitTopLevel(expression, ';');
+                expression = parts.length === 3 ? parts[1] : [];
+                // The init clause may declare loop variables
+                if (collectVariables && parts[0] && parts[0].length > 0 && startsDeclaration(parts[0], typedefs)) {
+                    unit.variables.push(...findDeclaredNames(parts[0], typedefs));
+                }
+            }
+            unit.conditions.push({ keyword: token.text as CCondition['keyword'], keywordToken: token, tokens: expression });
+            continue;
+        }
+
+        if (token.kind === 'identifier' && tokens[i + 1]?.text === '(' && !ATTRIBUTE_NAMES.has(token.text)) {
+            const previous = tokens[i - 1];
+            // "int helper(void);" inside a body declares rather than calls
+            const isDeclaration = previous && i - 1 >= statementStart && (isTypeToken(previous, typedefs) || (previous.kind === 'identifier' && i - 1 === statementStart))
+                && tokens.slice(statementStart, i).every(t => isTypeToken(t, typedefs) || t.kind === 'identifier' || t.text === '*');
+            if (!isDeclaration) {
+                const close = findClosing(tokens, i + 1);
+                unit.calls.push({
+                    name: token.text,
+                    token,
+                    end: tokens[Math.min(close, tokens.length - 1)].end,
+                    args: splitTopLevel(tokens.slice(i + 2, close)),
+                    inFunction: functionName
+                });
+            }
+        }
+    }
+}
+
+function startsDeclaration(tokens: Token[], typedefs: Set<string>): boolean {
+    const first = tokens[0];
+    if (isTypeToken(first, typedefs)) {
+        return true;
+    }
+    // "mytype_t name" or "mytype_t *name" with a type we have not seen declared
+    return first.kind === 'identifier' && tokens.length >= 2
+        && (tokens[1].kind === 'identifier' || (tokens[1].text === '*' && tokens[2]?.kind === 'identifier' && tokens[3]?.text !== undefined && ['=', ';', ',', '['].includes(tokens[3].text)));
+}
+
+function parseDirective(token: Token, unit: CTranslationUnit) {
+    const name = getDirectiveName(token);
+    if (name === 'include') {
+        const match = token.text.match(/^#\s*include\s*([<"])([^>"]+)[>"]/);
+        if (match) {
+            unit.includes.push({ header: match[2].trim(), system: match[1] === '<', line: token.line });
+        }
+    } else if (name === 'define') {
+        const match = token.text.match(/^#\s*define\s+([A-Za-z_]\w*)(\()?/);
+        if (match) {
+            unit.macros.push({ name: match[1], line: token.line, functionLike: !!match[2], start: token.start, end: token.end });
+        }
+    }
+}
+
+/**
+ * Parses a C file into its declarations, functions, calls and conditions
+ */
+export function parseC(text: string): CTranslationUnit {
+    const allTokens = tokenize(text);
+    const unit: CTranslationUnit = {
+        tokens: [],
+        comments: [],
+        includes: [],
+        macros: [],
+        functions: [],
+        typedefs: [],
+        types: [],
+        variables: [],
+        calls: [],
+        conditions: []
+    };
+
+    for (const token of allTokens) {
+        if (token.kind === 'comment') {
+            unit.comments.push(token);
+        } else if (token.kind === 'preprocessor') {
+            parseDirective(token, unit);
+        } else {
+            unit.tokens.push(token);
+        }
+    }
+
+    const tokens = unit.tokens;
+    const typedefs = new Set<string>();
+    let declarationStart = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.kind !== 'punctuator') {
+            continue;
+        }
+
+        if (token.text === '(' || token.text === '[') {
+            i = findClosing(tokens, i);
+            continue;
+        }
+
+        if (token.text === '{') {
+            const declaration = tokens.slice(declarationStart, i);
+            const declarator = findFunctionDeclarator(declaration);
+            const close = findClosing(tokens, i);
+
+            if (declarator && declaration[declarator.closeIndex] && tokens[i - 1]) {
+                // A function definition; K&R style braces on the next line look the same here
+                const closeToken = tokens[Math.min(close, tokens.length - 1)];
+                unit.functions.push(parseFunction(declaration, declarator, closeToken.end, { open: token, close: closeToken }));
+                scanBody(tokens, i + 1, Math.min(close, tokens.length), declaration[declarator.nameIndex].text, unit, typedefs);
+                i = close;
+                declarationStart = i + 1;
+                continue;
+            }
+
+            // struct/union/enum bodies and initializers belong to the declaration around them
+            scanBody(tokens, i + 1, Math.min(close, tokens.length), '', unit, typedefs, false);
+            const isAggregateOrInitializer = ['=', ',', '{'].includes(tokens[i - 1]?.text) || declaration.some(part => TAG_KEYWORDS.has(part.text));
+            i = close;
+            if (!isAggregateOrInitializer) {
+                // A body we cannot read: the next declaration starts after it
+                declarationStart = i + 1;
+            }
+            continue;
+        }
+
+        if (token.text === ';') {
+            const declaration = tokens.slice(declarationStart, i);
+            declarationStart = i + 1;
+            if (declaration.length === 0) {
+                continue;
+            }
+
+            if (declaration[0].text === 'typedef') {
+                const name = findTypedefName(declaration);
+                if (name) {
+                    typedefs.add(name);
+                    unit.typedefs.push(name);
+                }
+                unit.types.push(toTypeDeclaration(declaration, token, name));
+                continue;
+            }
+
+            const declarator = findFunctionDeclarator(declaration);
+            if (declarator && declarator.nameIndex > 0) {
+                unit.functions.push(parseFunction(declaration, declarator, token.end));
+            } else {
+                const names = findDeclaredNames(withoutAggregateBodies(declaration), typedefs);
+                // "struct node { ... };" only declares a tag
+                const isTagOnly = TAG_KEYWORDS.has(declaration[0].text) && withoutAggregateBodies(declaration).length <= 2;
+                unit.variables.push(...(isTagOnly ? [] : names));
+                if (isTagOnly && declaration.some(part => part.text === '{')) {
+                    unit.types.push(toTypeDeclaration(declaration, token));
+                }
+            }
+        }
+    }
+
+    // File-scope initializers may call functions too, but those were scanned as bodies above
+    unit.calls.forEach(call => {
+        if (call.inFunction === '') {
+            call.inFunction = undefined;
+        }
+    });
+
+    return unit;
+}
+
+/**
+ * Drops "{ ... }" groups so "struct point { int x; } origin;" reads as "struct point origin;"
+ */
+function withoutAggregateBodies(tokens: Token[]): Token[] {
+    const result: Token[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].text === '{') {
+            i = findClosing(tokens, i);
+            continue;
+        }
+        result.push(tokens[i]);
+    }
+    return result;
+}
+
+function toTypeDeclaration(tokens: Token[], semicolon: Token, typedefName?: string): CTypeDeclaration {
+    const names: string[] = [];
+    // The leading tag: "struct point { ... }", "typedef enum color { ... } color_t"
+    const tagIndex = tokens.findIndex(token => TAG_KEYWORDS.has(token.text));
+    if (tagIndex !== -1 && tokens[tagIndex + 1]?.kind === 'identifier') {
+        names.push(tokens[tagIndex + 1].text);
+    }
+    if (typedefName) {
+        names.push(typedefName);
+    }
+    const references = tokens
+        .filter(token => token.kind === 'identifier' && !names.includes(token.text))
+        .map(token => token.text);
+    return {
+        names,
+        references: Array.from(new Set(references)),
+        start: tokens[0].start,
+        end: semicolon.end,
+        line: tokens[0].line,
+        endLine: semicolon.line
+    };
+}
+
+function findTypedefName(tokens: Token[]): string | undefined {
+    const flat = withoutAggregateBodies(tokens);
+    // "typedef int (*handler)(int);"
+    const open = flat.findIndex((token, index) => token.text === '(' && flat[index + 1]?.text === '*');
+    if (open !== -1) {
+        return flat.slice(open + 1).find(token => token.kind === 'identifier')?.text;
+    }
+    const bracket = flat.findIndex(token => token.text === '[');
+    const declarator = bracket === -1 ? flat : flat.slice(0, bracket);
+    const last = declarator[declarator.length - 1];
+    return last && last.kind === 'identifier' ? last.text : undefined;
+}
+
+/**
+ * Returns the code tokens on a line, or those spanning it
+ */
+export function tokensOnLine(tokens: Token[], line: number): Token[] {
+    return tokens.filter(token => token.line <= line && token.endLine >= line);
+}
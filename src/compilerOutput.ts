@@ -0,0 +1,130 @@
+/**
+ * Compiler output parsing
+ * Turns GCC/Clang "file:line:col: severity: message" output into structured messages
+ * and VS Code diagnostics for the Problems panel
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export type CompilerSeverity = 'error' | 'warning' | 'note';
+
+export interface CompilerMessage {
+    /** Absolute path of the file the message points at */
+    file: string;
+    /** 1-based line number */
+    line: number;
+    /** 1-based column, or 0 when the compiler did not report one */
+    column: number;
+    severity: CompilerSeverity;
+    message: string;
+    /** Warning option reported in brackets, e.g. -Wunused-variable */
+    option?: string;
+    /** Notes that followed this message (e.g. "declared here") */
+    notes: CompilerMessage[];
+}
+
+// file:line[:col]: (fatal error|error|warning|note): message
+// The lazy file group also copes with Windows drive letters such as C:\src\main.c
+const MESSAGE_PATTERN = /^(.+?):(\d+)(?::(\d+))?:\s+(fatal error|error|warning|note):\s+(.*)$/;
+const OPTION_PATTERN = /\s+\[(-W[^\]]+)\]$/;
+// make[1]: Entering directory '/path' - recursive make runs the compiler in other directories
+const MAKE_DIRECTORY_PATTERN = /^\S*make(?:\[\d+\])?: (Entering|Leaving) directory [`'"](.+)['"]$/;
+
+/**
+ * Parses raw compiler output into messages. Notes are attached to the error or
+ * warning they follow; a note with nothing before it is kept as a message of its own.
+ * @param output Combined stdout/stderr of the compiler, or of make running it
+ * @param cwd Directory the compiler ran in, used to resolve relative paths
+ */
+export function parseCompilerOutput(output: string, cwd: string): CompilerMessage[] {
+    const messages: CompilerMessage[] = [];
+    const directories = [cwd];
+    let current: CompilerMessage | undefined;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const directoryMatch = rawLine.match(MAKE_DIRECTORY_PATTERN);
+        if (directoryMatch) {
+            if (directoryMatch[1] === 'Entering') {
+                directories.push(path.resolve(directories[directories.length - 1], directoryMatch[2]));
+            } else if (directories.length > 1) {
+                directories.pop();
+            }
+            continue;
+        }
+
+        const match = rawLine.match(MESSAGE_PATTERN);
+        if (!match) {
+            continue;
+        }
+
+        const [, file, line, column, kind, text] = match;
+        const optionMatch = text.match(OPTION_PATTERN);
+        const message: CompilerMessage = {
+            file: path.resolve(directories[directories.length - 1], file.trim()),
+            line: parseInt(line, 10),
+            column: column ? parseInt(column, 10) : 0,
+            severity: kind === 'note' ? 'note' : (kind === 'warning' ? 'warning' : 'error'),
+            message: optionMatch ? text.substring(0, optionMatch.index).trim() : text.trim(),
+            option: optionMatch ? optionMatch[1] : undefined,
+            notes: []
+        };
+
+        if (message.severity === 'note' && current) {
+            current.notes.push(message);
+            continue;
+        }
+
+        messages.push(message);
+        current = message.severity === 'note' ? undefined : message;
+    }
+
+    return messages;
+}
+
+function toRange(message: CompilerMessage): vscode.Range {
+    const line = Math.max(message.line - 1, 0);
+    const column = Math.max(message.column - 1, 0);
+    // An empty range is widened to the word at that position by the editor
+    return new vscode.Range(line, column, line, column);
+}
+
+function toSeverity(severity: CompilerSeverity): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
+
+/**
+ * Converts parsed messages into diagnostics grouped by file path.
+ * Notes become related information links on their parent diagnostic.
+ * @param source Shown next to each diagnostic in the Problems panel (e.g. "gcc")
+ */
+export function toDiagnostics(messages: CompilerMessage[], source: string): Map<string, vscode.Diagnostic[]> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const message of messages) {
+        const diagnostic = new vscode.Diagnostic(toRange(message), message.message, toSeverity(message.severity));
+        diagnostic.source = source;
+        if (message.option) {
+            diagnostic.code = message.option;
+        }
+        if (message.notes.length > 0) {
+            diagnostic.relatedInformation = message.notes.map(note => new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(note.file), toRange(note)),
+                note.message
+            ));
+        }
+
+        const diagnostics = byFile.get(message.file) || [];
+        diagnostics.push(diagnostic);
+        byFile.set(message.file, diagnostics);
+    }
+
+    return byFile;
+}
@@ -0,0 +1,102 @@
+/**
+ * Typed access to the "c-helper.*" settings
+ * The values are cached and refreshed whenever the user changes them
+ */
+
+import * as vscode from 'vscode';
+
+export type WarningLevel = 'low' | 'medium' | 'high';
+export type BuildMode = 'file' | 'project';
+export type HeaderGuardStyle = 'includeGuard' | 'pragmaOnce';
+export type CStandard = 'C89' | 'C99' | 'C11' | 'C17' | 'C23';
+export type SemicolonRule = 'statements' | 'jumps' | 'declarations' | 'typeDefinitions' | 'doWhile';
+export type SemicolonRules = { [rule in SemicolonRule]: boolean };
+
+export interface LazyCConfig {
+    autoSemicolon: boolean;
+    /** Kinds of statements auto semicolons are added to */
+    semicolonRules: SemicolonRules;
+    autoHeaders: boolean;
+    /** Keep prototypes of public functions in the paired .h file */
+    prototypeHeader: boolean;
+    /** How headers created from a source file protect against double inclusion */
+    headerGuardStyle: HeaderGuardStyle;
+    warningLevel: WarningLevel;
+    /** Newest C version whose library names the reference, completion and hover offer */
+    referenceStandard: CStandard;
+    /** Offer POSIX names as well */
+    referencePosix: boolean;
+    /** Search the locally installed man pages for names the reference doesn't have */
+    manPageFallback: boolean;
+    compilerPath: string;
+    buildMode: BuildMode;
+    outputDirectory: string;
+    outputName: string;
+    /** Milliseconds a test case may run before it is stopped */
+    testTimeout: number;
+}
+
+const CONFIG_SECTION = 'c-helper';
+const WARNING_LEVELS: WarningLevel[] = ['low', 'medium', 'high'];
+/** ISO C versions, oldest first */
+export const C_STANDARDS: CStandard[] = ['C89', 'C99', 'C11', 'C17', 'C23'];
+const DEFAULT_SEMICOLON_RULES: SemicolonRules = {
+    statements: true,
+    jumps: true,
+    declarations: true,
+    typeDefinitions: true,
+    doWhile: true
+};
+
+let currentConfig: LazyCConfig | undefined;
+const configChangeEmitter = new vscode.EventEmitter<LazyCConfig>();
+
+/**
+ * Fires with the new configuration after any "c-helper.*" setting changed
+ */
+export const onDidChangeConfig = configChangeEmitter.event;
+
+function readConfig(): LazyCConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const warningLevel = config.get<string>('warningLevel', 'medium');
+    const compilerPath = config.get<string>('compilerPath', 'gcc').trim();
+    const semicolonRules = config.get<Partial<SemicolonRules>>('semicolonRules', {});
+    const referenceStandard = config.get<string>('referenceStandard', 'C23');
+
+    return {
+        autoSemicolon: config.get<boolean>('autoSemicolon', true),
+        semicolonRules: { ...DEFAULT_SEMICOLON_RULES, ...semicolonRules },
+        autoHeaders: config.get<boolean>('autoHeaders', true),
+        prototypeHeader: config.get<boolean>('prototypeHeader', false),
+        headerGuardStyle: config.get<string>('headerGuardStyle', 'includeGuard') === 'pragmaOnce' ? 'pragmaOnce' : 'includeGuard',
+        warningLevel: WARNING_LEVELS.includes(warningLevel as WarningLevel) ? warningLevel as WarningLevel : 'medium',
+        referenceStandard: C_STANDARDS.includes(referenceStandard as CStandard) ? referenceStandard as CStandard : 'C23',
+        referencePosix: config.get<boolean>('referencePosix', true),
+        manPageFallback: config.get<boolean>('manPageFallback', true),
+        compilerPath: compilerPath || 'gcc',
+        buildMode: config.get<string>('buildMode', 'file') === 'project' ? 'project' : 'file',
+        outputDirectory: config.get<string>('outputDirectory', 'build'),
+        outputName: config.get<string>('outputName', '${name}').trim() || '${name}',
+        testTimeout: Math.max(config.get<number>('testTimeout', 5000), 1)
+    };
+}
+
+export function getConfig(): LazyCConfig {
+    if (!currentConfig) {
+        currentConfig = readConfig();
+    }
+    return currentConfig;
+}
+
+export function registerConfig(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        configChangeEmitter,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (!event.affectsConfiguration(CONFIG_SECTION)) {
+                return;
+            }
+            currentConfig = readConfig();
+            configChangeEmitter.fire(currentConfig);
+        })
+    );
+}
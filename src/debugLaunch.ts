@@ -0,0 +1,392 @@
+/**
+ * Debug launch
+ * "Compile and Debug": builds with -g -O0 and starts gdb or lldb through whichever
+ * C/C++ debug adapter extension is installed, and writes matching launch.json/tasks.json
+ * entries on request
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getConfig } from './config';
+import { getProjectRoot } from './projectConfig';
+import { BuildProfile, getActiveBuildProfile, getCompilerArgs, getProfileCompiler } from './buildProfiles';
+import { getExecutablePath } from './buildOutputs';
+import { findProjectSources } from './projectBuild';
+import { getBuildSystem, getCMakeBuildDir, getSelectedTarget } from './buildSystems';
+import { resolveRunConfiguration, quoteShellArgument, ResolvedRunConfiguration } from './runConfigurations';
+
+export type DebugAdapterKind = 'cppdbg' | 'lldb' | 'lldb-dap' | 'gdb';
+
+export interface DebugAdapter {
+    kind: DebugAdapterKind;
+    /** Extension contributing the debug type */
+    extensionId: string;
+    label: string;
+}
+
+/** Debug adapters in order of preference when "c-helper.debugAdapter" is "auto" */
+export const DEBUG_ADAPTERS: DebugAdapter[] = [
+    { kind: 'cppdbg', extensionId: 'ms-vscode.cpptools', label: 'C/C++' },
+    { kind: 'lldb', extensionId: 'vadimcn.vscode-lldb', label: 'CodeLLDB' },
+    { kind: 'lldb-dap', extensionId: 'llvm-vs-code-extensions.lldb-dap', label: 'LLDB DAP' },
+    { kind: 'gdb', extensionId: 'webfreak.debug', label: 'Native Debug' }
+];
+
+/** A command line run by the tasks.json build task */
+interface BuildCommand {
+    command: string;
+    args: string[];
+    cwd: string;
+}
+
+const DEBUG_CONFIGURATION_OFFER_KEY = 'c-helper.debugConfigurationOffer';
+
+/** Builds a C file (or its project) with the given profile and returns the program */
+export type DebugBuilder = (sourcePath: string, profile: BuildProfile) => Promise<{ success: boolean; outputPath: string }>;
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let extensionContext: vscode.ExtensionContext | undefined;
+
+export function registerDebugLaunch(context: vscode.ExtensionContext, build: DebugBuilder) {
+    extensionContext = context;
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c-helper.compileAndDebug', () => compileAndDebug(build)),
+        vscode.commands.registerCommand('c-helper.writeDebugConfiguration', () => writeDebugConfigurationForEditor(build))
+    );
+}
+
+// ============================================================================
+// CONFIGURATIONS
+// ============================================================================
+
+/**
+ * Returns the profile to debug with: the given one with optimization and debug
+ * info switches replaced by -g -O0
+ */
+export function toDebugProfile(profile: BuildProfile): BuildProfile {
+    const flags = profile.flags || [];
+    if (flags.includes('-g') && flags.includes('-O0')) {
+        return profile;
+    }
+
+    const kept = flags.filter(flag => !/^-(O.*|g.*|s)$/.test(flag));
+    return { ...profile, name: `${profile.name}-debug`, flags: ['-g', '-O0', ...kept] };
+}
+
+/**
+ * Picks the debug adapter to use among the installed extensions
+ * @param preferred Value of "c-helper.debugAdapter"
+ */
+export function findDebugAdapter(installedExtensionIds: string[], preferred = 'auto'): DebugAdapter | undefined {
+    const installed = DEBUG_ADAPTERS.filter(adapter =>
+        installedExtensionIds.some(id => id.toLowerCase() === adapter.extensionId)
+    );
+    return installed.find(adapter => adapter.kind === preferred) || installed[0];
+}
+
+/**
+ * Creates a launch configuration for a program in the adapter's own format
+ */
+export function createLaunchConfiguration(
+    adapter: DebugAdapter,
+    name: string,
+    program: string,
+    run: ResolvedRunConfiguration,
+    platform: NodeJS.Platform = process.platform
+): vscode.DebugConfiguration {
+    const base = { name, request: 'launch' };
+
+    switch (adapter.kind) {
+        case 'cppdbg': {
+            const miMode = platform === 'darwin' ? 'lldb' : 'gdb';
+            return {
+                ...base,
+                type: 'cppdbg',
+                program,
+                // gdb starts the program through a shell, so "<" redirects stdin
+                args: run.stdinFile ? [...run.args, '<', run.stdinFile] : run.args,
+                cwd: run.cwd,
+                environment: Object.entries(run.env).map(([envName, value]) => ({ name: envName, value })),
+                stopAtEntry: false,
+                externalConsole: false,
+                MIMode: miMode,
+                ...(miMode === 'gdb' ? {
+                    setupCommands: [{ description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true }]
+                } : {})
+            };
+        }
+        case 'lldb':
+            return {
+                ...base,
+                type: 'lldb',
+                program,
+                args: run.args,
+                cwd: run.cwd,
+                env: run.env,
+                ...(run.stdinFile ? { stdio: [run.stdinFile, null, null] } : {})
+            };
+        case 'lldb-dap':
+            return {
+                ...base,
+                type: 'lldb-dap',
+                program,
+                args: run.args,
+                cwd: run.cwd,
+                env: Object.entries(run.env).map(([envName, value]) => `${envName}=${value}`),
+                ...(run.stdinFile ? { stdio: [run.stdinFile, null, null] } : {})
+            };
+        case 'gdb': {
+            const args = run.args.map(arg => quoteShellArgument(arg, 'posix'));
+            if (run.stdinFile) {
+                args.push('<', quoteShellArgument(run.stdinFile, 'posix'));
+            }
+            return {
+                ...base,
+                type: 'gdb',
+                target: program,
+                arguments: args.join(' '),
+                cwd: run.cwd,
+                env: run.env,
+                valuesFormatting: 'parseText'
+            };
+        }
+    }
+}
+
+/**
+ * Replaces the workspace folder in a path or argument with ${workspaceFolder} so the
+ * written configuration keeps working when the folder moves
+ */
+export function toWorkspaceRelative(value: string, folderPath: string): string {
+    const prefix = folderPath.endsWith(path.sep) ? folderPath.slice(0, -1) : folderPath;
+    if (value === prefix) {
+        return '${workspaceFolder}';
+    }
+    return value.split(prefix + path.sep).join('${workspaceFolder}/');
+}
+
+/**
+ * Rewrites the string values of a configuration (paths, arguments) relative to the workspace folder
+ */
+function makeWorkspaceRelative<T>(value: T, folderPath: string): T {
+    if (typeof value === 'string') {
+        return toWorkspaceRelative(value, folderPath) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => makeWorkspaceRelative(item, folderPath)) as unknown as T;
+    }
+    if (value && typeof value === 'object') {
+        const result: { [key: string]: any } = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = makeWorkspaceRelative(item, folderPath);
+        }
+        return result as T;
+    }
+    return value;
+}
+
+/**
+ * Returns the command that builds a file for debugging the way "Compile and Debug" does.
+ * Project builds are written as one full compile, since tasks.json has no incremental build.
+ */
+async function getDebugBuildCommand(filePath: string, profile: BuildProfile): Promise<BuildCommand> {
+    const projectRoot = getProjectRoot(filePath);
+    const buildSystem = getBuildSystem(filePath);
+
+    if (buildSystem) {
+        const target = getSelectedTarget(buildSystem);
+        const targetArgs = target ? (buildSystem.kind === 'make' ? [target] : ['--target', target]) : [];
+        return buildSystem.kind === 'make'
+            ? { command: 'make', args: targetArgs, cwd: buildSystem.root }
+            : { command: 'cmake', args: ['--build', getCMakeBuildDir(buildSystem.root, profile), ...targetArgs], cwd: buildSystem.root };
+    }
+
+    if (getConfig().buildMode === 'project') {
+        const { baseDir, name, sources } = await findProjectSources(filePath);
+        const outputPath = getExecutablePath(profile, name, projectRoot, baseDir);
+        return { command: getProfileCompiler(profile), args: getCompilerArgs(profile, sources, outputPath, projectRoot), cwd: baseDir };
+    }
+
+    const outputPath = getExecutablePath(profile, path.basename(filePath, '.c'), projectRoot, path.dirname(filePath));
+    return {
+        command: getProfileCompiler(profile),
+        args: getCompilerArgs(profile, [filePath], outputPath, projectRoot),
+        cwd: path.dirname(filePath)
+    };
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+function getDebugAdapter(): DebugAdapter | undefined {
+    const preferred = vscode.workspace.getConfiguration('c-helper').get<string>('debugAdapter', 'auto');
+    return findDebugAdapter(vscode.extensions.all.map(extension => extension.id), preferred);
+}
+
+async function showMissingDebugAdapter() {
+    const choice = await vscode.window.showErrorMessage(
+        'No C debugger extension is installed. Install "C/C++" (gdb/lldb) or "CodeLLDB" to debug.',
+        'Find Debuggers'
+    );
+    if (choice === 'Find Debuggers') {
+        vscode.commands.executeCommand('workbench.extensions.search', '@category:debuggers C');
+    }
+}
+
+function getDebugConfigurationName(filePath: string): string {
+    return `Lazy C: Debug ${path.basename(filePath)}`;
+}
+
+async function compileAndDebug(build: DebugBuilder) {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'c') {
+            vscode.window.showErrorMessage('No C file is currently open');
+            return;
+        }
+
+        const adapter = getDebugAdapter();
+        if (!adapter) {
+            await showMissingDebugAdapter();
+            return;
+        }
+
+        const filePath = editor.document.uri.fsPath;
+        if (editor.document.isDirty && !await editor.document.save()) {
+            return;
+        }
+
+        const profile = toDebugProfile(getActiveBuildProfile(filePath));
+        const result = await build(filePath, profile);
+        if (!result.success) {
+            return;
+        }
+        if (!result.outputPath) {
+            vscode.window.showWarningMessage('The program to debug could not be determined. Select a target with "Lazy C: Select Build Target".');
+            return;
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+        const name = getDebugConfigurationName(filePath);
+        const configuration = createLaunchConfiguration(adapter, name, result.outputPath, resolveRunConfiguration(filePath));
+        if (!await vscode.debug.startDebugging(folder, configuration)) {
+            vscode.window.showErrorMessage(`Could not start the ${adapter.label} debugger`);
+            return;
+        }
+
+        if (folder) {
+            offerToWriteDebugConfiguration(folder, name, () => writeDebugConfiguration(folder, filePath, adapter, profile, result.outputPath));
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Debug error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Offers once per workspace folder and file to save the configuration just used,
+ * unless launch.json already has it
+ */
+async function offerToWriteDebugConfiguration(folder: vscode.WorkspaceFolder, name: string, write: () => Promise<void>) {
+    const existing = vscode.workspace.getConfiguration('launch', folder.uri).get<vscode.DebugConfiguration[]>('configurations', []);
+    const declined = extensionContext?.workspaceState.get<string[]>(DEBUG_CONFIGURATION_OFFER_KEY, []) || [];
+    if (existing.some(configuration => configuration.name === name) || declined.includes(name)) {
+        return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `Save "${name}" to launch.json and tasks.json so it can be started with F5?`,
+        'Save', 'Not Now', "Don't Ask Again"
+    );
+    if (choice === 'Save') {
+        await write();
+    } else if (choice === "Don't Ask Again") {
+        await extensionContext?.workspaceState.update(DEBUG_CONFIGURATION_OFFER_KEY, [...declined, name]);
+    }
+}
+
+/**
+ * Adds (or replaces) a build task and a launch configuration for a file, matching the
+ * active build settings
+ */
+async function writeDebugConfiguration(
+    folder: vscode.WorkspaceFolder,
+    filePath: string,
+    adapter: DebugAdapter,
+    profile: BuildProfile,
+    program: string
+) {
+    const name = getDebugConfigurationName(filePath);
+    const taskLabel = `Lazy C: Build ${path.basename(filePath)} for debugging`;
+    const folderPath = folder.uri.fsPath;
+    const buildCommand = await getDebugBuildCommand(filePath, profile);
+
+    const task = makeWorkspaceRelative({
+        label: taskLabel,
+        type: 'process',
+        command: buildCommand.command,
+        args: buildCommand.args,
+        options: { cwd: buildCommand.cwd },
+        group: 'build',
+        problemMatcher: ['$gcc']
+    }, folderPath);
+
+    const launch = makeWorkspaceRelative({
+        ...createLaunchConfiguration(adapter, name, program, resolveRunConfiguration(filePath)),
+        preLaunchTask: taskLabel
+    }, folderPath);
+
+    const tasksConfig = vscode.workspace.getConfiguration('tasks', folder.uri);
+    const tasks = tasksConfig.get<any[]>('tasks', []).filter(existing => existing.label !== taskLabel);
+    if (!tasksConfig.get('version')) {
+        await tasksConfig.update('version', '2.0.0', vscode.ConfigurationTarget.WorkspaceFolder);
+    }
+    await tasksConfig.update('tasks', [...tasks, task], vscode.ConfigurationTarget.WorkspaceFolder);
+
+    const launchConfig = vscode.workspace.getConfiguration('launch', folder.uri);
+    const configurations = launchConfig.get<vscode.DebugConfiguration[]>('configurations', []).filter(existing => existing.name !== name);
+    if (!launchConfig.get('version')) {
+        await launchConfig.update('version', '0.2.0', vscode.ConfigurationTarget.WorkspaceFolder);
+    }
+    await launchConfig.update('configurations', [...configurations, launch], vscode.ConfigurationTarget.WorkspaceFolder);
+
+    vscode.window.showInformationMessage(`Added "${name}" to launch.json and "${taskLabel}" to tasks.json`);
+}
+
+/**
+ * Builds the current file for debugging, which also tells where make or cmake put the
+ * program, then writes its configuration
+ */
+async function writeDebugConfigurationForEditor(build: DebugBuilder) {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'c') {
+            vscode.window.showErrorMessage('No C file is currently open');
+            return;
+        }
+        const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+        if (!folder) {
+            vscode.window.showErrorMessage('Open the file inside a workspace folder to write launch.json');
+            return;
+        }
+        const adapter = getDebugAdapter();
+        if (!adapter) {
+            await showMissingDebugAdapter();
+            return;
+        }
+
+        const filePath = editor.document.uri.fsPath;
+        const profile = toDebugProfile(getActiveBuildProfile(filePath));
+        const result = await build(filePath, profile);
+        if (!result.success || !result.outputPath) {
+            vscode.window.showWarningMessage('Build the program for debugging first; the debug configuration was not written.');
+            return;
+        }
+        await writeDebugConfiguration(folder, filePath, adapter, profile, result.outputPath);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to write debug configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
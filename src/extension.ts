@@ -9,701 +9,43 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
-
-// ============================================================================
-// CONSTANTS AND MAPPINGS
-// ============================================================================
-
-/**
- * Maps common C standard library functions to their required header files
- */
-const FUNCTION_TO_HEADER: { [key: string]: string } = {
-    // stdio.h
-    'printf': 'stdio.h', 'scanf': 'stdio.h', 'fprintf': 'stdio.h', 'fscanf': 'stdio.h',
-    'fopen': 'stdio.h', 'fclose': 'stdio.h', 'fgets': 'stdio.h', 'fputs': 'stdio.h',
-    'fread': 'stdio.h', 'fwrite': 'stdio.h', 'sprintf': 'stdio.h', 'sscanf': 'stdio.h',
-    'puts': 'stdio.h', 'getchar': 'stdio.h', 'putchar': 'stdio.h', 'perror': 'stdio.h',
-    'fgetc': 'stdio.h', 'fputc': 'stdio.h', 'fseek': 'stdio.h', 'ftell': 'stdio.h',
-    
-    // stdlib.h
-    'malloc': 'stdlib.h', 'calloc': 'stdlib.h', 'realloc': 'stdlib.h', 'free': 'stdlib.h',
-    'exit': 'stdlib.h', 'atoi': 'stdlib.h', 'atof': 'stdlib.h', 'rand': 'stdlib.h', 
-    'srand': 'stdlib.h', 'abs': 'stdlib.h', 'system': 'stdlib.h', 'getenv': 'stdlib.h',
-    
-    // string.h
-    'strcpy': 'string.h', 'strncpy': 'string.h', 'strcat': 'string.h', 'strncat': 'string.h',
-    'strlen': 'string.h', 'strcmp': 'string.h', 'strncmp': 'string.h', 'strchr': 'string.h',
-    'strstr': 'string.h', 'memcpy': 'string.h', 'memset': 'string.h', 'memmove': 'string.h',
-    'memcmp': 'string.h', 'strdup': 'string.h',
-    
-    // math.h
-    'sqrt': 'math.h', 'pow': 'math.h', 'sin': 'math.h', 'cos': 'math.h', 'tan': 'math.h',
-    'floor': 'math.h', 'ceil': 'math.h', 'fabs': 'math.h', 'exp': 'math.h', 'log': 'math.h',
-    'round': 'math.h', 'fmod': 'math.h',
-    
-    // time.h
-    'time': 'time.h', 'clock': 'time.h', 'difftime': 'time.h', 'strftime': 'time.h',
-    
-    // ctype.h
-    'isalpha': 'ctype.h', 'isdigit': 'ctype.h', 'isalnum': 'ctype.h', 'toupper': 'ctype.h',
-    'tolower': 'ctype.h', 'isspace': 'ctype.h', 'ispunct': 'ctype.h', 'isupper': 'ctype.h',
-    'islower': 'ctype.h'
-};
-
-/**
- * Maps unsafe C functions to their safer alternatives
- */
-const UNSAFE_FUNCTIONS: { [key: string]: string } = {
-    'gets': 'fgets',
-    'strcpy': 'strncpy',
-    'strcat': 'strncat',
-    'sprintf': 'snprintf'
-};
+import { registerBuild, compile, getBuildOutputChannel, CompileResult } from './build';
+import { registerConfig, getConfig, BuildMode } from './config';
+import { registerProjectConfig, getProjectRoot } from './projectConfig';
+import { buildProject } from './projectBuild';
+import { registerBuildSystems, getBuildSystem, buildWithBuildSystem, BuildSystem } from './buildSystems';
+import { registerRunConfigurations, runInTerminal } from './runConfigurations';
+import { registerTestCases } from './testCases';
+import { registerDebugLaunch } from './debugLaunch';
+import { registerMemoryCheck } from './memoryCheck';
+import { registerBuildProfiles, getActiveBuildProfile, getProfileCompiler, getProfileIncludeDirs, getCompilerArgs, BuildProfile } from './buildProfiles';
+import { registerBuildOutputs, getExecutablePath, recordBuildOutput } from './buildOutputs';
+import { parseC, CTranslationUnit, CFunction } from './cParser';
+import { getIncludedContext, findMissingHeaders, findIncludeInsertionLine, findQuotedHeaderFiles } from './headerInference';
+import { computePrototypeEdits } from './prototypes';
+import { registerHeaderPairing, isPairedHeaderManaged, syncPairedHeader } from './headerPairing';
+import { findMissingSemicolons } from './semicolons';
+import { registerLibraryDatabase, getFunctionToHeader, getLibraryDatabase, getLibraryEntry, getLibraryEntries, formatInclude } from './libraryDatabase';
+import { registerLibraryCompletion } from './libraryCompletion';
+import { registerLibraryHover, SHOW_REFERENCE_ENTRY_COMMAND } from './libraryHover';
+import { registerSafetyFixes } from './safetyFixes';
+import { getSafetyRule, SHOW_RULE_COMMAND } from './safetyRules';
+import { registerSafetyDiagnostics } from './safetyDiagnostics';
+import { registerManPages, isManPageFallbackEnabled, getManIndex, getManPage, searchManIndex } from './manPages';
 
 // ============================================================================
 // GLOBAL STATE
 // ============================================================================
 
-let diagnosticCollection: vscode.DiagnosticCollection;
 let isProcessingChange = false;
 let prototypeCheckTimer: NodeJS.Timeout | undefined;
 let lastCursorLine: number = -1;
+// Prototypes generated per document, the only ones removed when their function disappears
+const managedPrototypes = new Map<string, Set<string>>();
 
 // Global variable for reference panel
 let referencePanel: vscode.WebviewPanel | undefined;
 
-// Global variable for C Compiler terminal
-let cCompilerTerminal: vscode.Terminal | undefined;
-
-/**
- * Maps C standard library functions to their documentation
- */
-const LIBRARY_DATABASE: any = {
-    printf: {
-        name: 'printf',
-        header: 'stdio.h',
-        prototype: 'int printf(const char *format, ...);',
-        description: 'Prints formatted output to stdout',
-        parameters: [
-            { name: 'format', type: 'const char*', description: 'Format string with conversion specifiers' }
-        ],
-        returnValue: 'Number of characters printed, or negative if error occurs',
-        example: 'printf("Hello, %s!\\n", "World");',
-        notes: 'Use format specifiers like %d (int), %s (string), %f (float), %x (hex)',
-        relatedFunctions: ['fprintf', 'sprintf', 'scanf']
-    },
-    scanf: {
-        name: 'scanf',
-        header: 'stdio.h',
-        prototype: 'int scanf(const char *format, ...);',
-        description: 'Reads formatted input from stdin',
-        parameters: [
-            { name: 'format', type: 'const char*', description: 'Format string specifying input format' }
-        ],
-        returnValue: 'Number of successfully read items',
-        example: 'int x; scanf("%d", &x);',
-        notes: '⚠️ UNSAFE! Use fgets() with sscanf() for safer input',
-        relatedFunctions: ['fscanf', 'sscanf', 'printf']
-    },
-    fprintf: {
-        name: 'fprintf',
-        header: 'stdio.h',
-        prototype: 'int fprintf(FILE *stream, const char *format, ...);',
-        description: 'Prints formatted output to a file stream',
-        parameters: [
-            { name: 'stream', type: 'FILE*', description: 'Output file stream' },
-            { name: 'format', type: 'const char*', description: 'Format string' }
-        ],
-        returnValue: 'Number of characters printed',
-        example: 'fprintf(fp, "Error: %s\\n", message);',
-        notes: 'Similar to printf but writes to a file',
-        relatedFunctions: ['printf', 'sprintf', 'fscanf']
-    },
-    sprintf: {
-        name: 'sprintf',
-        header: 'stdio.h',
-        prototype: 'int sprintf(char *str, const char *format, ...);',
-        description: 'Prints formatted output to a string buffer',
-        parameters: [
-            { name: 'str', type: 'char*', description: 'Destination buffer' },
-            { name: 'format', type: 'const char*', description: 'Format string' }
-        ],
-        returnValue: 'Number of characters printed',
-        example: 'sprintf(buffer, "Value: %d", 42);',
-        notes: '⚠️ UNSAFE! Use snprintf() instead to avoid buffer overflow',
-        relatedFunctions: ['snprintf', 'printf', 'fprintf']
-    },
-    fgets: {
-        name: 'fgets',
-        header: 'stdio.h',
-        prototype: 'char* fgets(char *str, int n, FILE *stream);',
-        description: 'Reads a line from a file stream into a buffer',
-        parameters: [
-            { name: 'str', type: 'char*', description: 'Destination buffer' },
-            { name: 'n', type: 'int', description: 'Maximum number of characters to read' },
-            { name: 'stream', type: 'FILE*', description: 'Input file stream' }
-        ],
-        returnValue: 'Pointer to str on success, NULL on EOF or error',
-        example: 'fgets(line, 100, stdin);',
-        notes: 'Safer than gets(). Reads up to n-1 characters or until newline',
-        relatedFunctions: ['gets', 'fputs', 'scanf']
-    },
-    fputs: {
-        name: 'fputs',
-        header: 'stdio.h',
-        prototype: 'int fputs(const char *str, FILE *stream);',
-        description: 'Writes a string to a file stream',
-        parameters: [
-            { name: 'str', type: 'const char*', description: 'String to write' },
-            { name: 'stream', type: 'FILE*', description: 'Output file stream' }
-        ],
-        returnValue: 'Non-negative value on success, EOF on error',
-        example: 'fputs("Hello World\\n", fp);',
-        notes: 'Similar to puts but writes to a file stream',
-        relatedFunctions: ['puts', 'fgets', 'fprintf']
-    },
-    fread: {
-        name: 'fread',
-        header: 'stdio.h',
-        prototype: 'size_t fread(void *ptr, size_t size, size_t nmemb, FILE *stream);',
-        description: 'Reads binary data from a file stream',
-        parameters: [
-            { name: 'ptr', type: 'void*', description: 'Pointer to destination buffer' },
-            { name: 'size', type: 'size_t', description: 'Size of each element' },
-            { name: 'nmemb', type: 'size_t', description: 'Number of elements to read' },
-            { name: 'stream', type: 'FILE*', description: 'Input file stream' }
-        ],
-        returnValue: 'Number of elements successfully read',
-        example: 'fread(buffer, sizeof(int), 10, fp);',
-        notes: 'Used for binary file I/O',
-        relatedFunctions: ['fwrite', 'fgets', 'fopen']
-    },
-    fwrite: {
-        name: 'fwrite',
-        header: 'stdio.h',
-        prototype: 'size_t fwrite(const void *ptr, size_t size, size_t nmemb, FILE *stream);',
-        description: 'Writes binary data to a file stream',
-        parameters: [
-            { name: 'ptr', type: 'const void*', description: 'Pointer to data to write' },
-            { name: 'size', type: 'size_t', description: 'Size of each element' },
-            { name: 'nmemb', type: 'size_t', description: 'Number of elements to write' },
-            { name: 'stream', type: 'FILE*', description: 'Output file stream' }
-        ],
-        returnValue: 'Number of elements successfully written',
-        example: 'fwrite(data, sizeof(int), 5, fp);',
-        notes: 'Used for binary file I/O',
-        relatedFunctions: ['fread', 'fputs', 'fopen']
-    },
-    malloc: {
-        name: 'malloc',
-        header: 'stdlib.h',
-        prototype: 'void* malloc(size_t size);',
-        description: 'Allocates memory dynamically on the heap',
-        parameters: [
-            { name: 'size', type: 'size_t', description: 'Number of bytes to allocate' }
-        ],
-        returnValue: 'Pointer to allocated memory, or NULL if allocation fails',
-        example: 'int *arr = (int*)malloc(10 * sizeof(int));',
-        notes: 'Always check if malloc returns NULL. Remember to free() allocated memory.',
-        relatedFunctions: ['calloc', 'realloc', 'free']
-    },
-    calloc: {
-        name: 'calloc',
-        header: 'stdlib.h',
-        prototype: 'void* calloc(size_t nmemb, size_t size);',
-        description: 'Allocates memory and initializes it to zero',
-        parameters: [
-            { name: 'nmemb', type: 'size_t', description: 'Number of elements' },
-            { name: 'size', type: 'size_t', description: 'Size of each element' }
-        ],
-        returnValue: 'Pointer to allocated memory, or NULL if allocation fails',
-        example: 'int *arr = (int*)calloc(10, sizeof(int));',
-        notes: 'Like malloc but initializes memory to 0. Slightly slower than malloc.',
-        relatedFunctions: ['malloc', 'realloc', 'free']
-    },
-    realloc: {
-        name: 'realloc',
-        header: 'stdlib.h',
-        prototype: 'void* realloc(void *ptr, size_t size);',
-        description: 'Changes the size of previously allocated memory',
-        parameters: [
-            { name: 'ptr', type: 'void*', description: 'Pointer to previously allocated memory' },
-            { name: 'size', type: 'size_t', description: 'New size in bytes' }
-        ],
-        returnValue: 'Pointer to reallocated memory, or NULL if reallocation fails',
-        example: 'arr = (int*)realloc(arr, 20 * sizeof(int));',
-        notes: 'If realloc fails, original memory is unchanged. Always reassign the result.',
-        relatedFunctions: ['malloc', 'calloc', 'free']
-    },
-    free: {
-        name: 'free',
-        header: 'stdlib.h',
-        prototype: 'void free(void *ptr);',
-        description: 'Frees dynamically allocated memory',
-        parameters: [
-            { name: 'ptr', type: 'void*', description: 'Pointer to memory allocated by malloc/calloc/realloc' }
-        ],
-        returnValue: 'void (no return value)',
-        example: 'free(arr); arr = NULL;',
-        notes: 'Always set pointer to NULL after freeing. Double-free causes undefined behavior.',
-        relatedFunctions: ['malloc', 'calloc', 'realloc']
-    },
-    strlen: {
-        name: 'strlen',
-        header: 'string.h',
-        prototype: 'size_t strlen(const char *s);',
-        description: 'Returns the length of a string (excluding null terminator)',
-        parameters: [
-            { name: 's', type: 'const char*', description: 'Pointer to null-terminated string' }
-        ],
-        returnValue: 'Length of the string as size_t',
-        example: 'int len = strlen("hello");  // returns 5',
-        notes: 'Does not include the null terminator in the count',
-        relatedFunctions: ['strcpy', 'strcat', 'strcmp']
-    },
-    strcmp: {
-        name: 'strcmp',
-        header: 'string.h',
-        prototype: 'int strcmp(const char *s1, const char *s2);',
-        description: 'Compares two strings lexicographically',
-        parameters: [
-            { name: 's1', type: 'const char*', description: 'First string to compare' },
-            { name: 's2', type: 'const char*', description: 'Second string to compare' }
-        ],
-        returnValue: '0 if equal, negative if s1 < s2, positive if s1 > s2',
-        example: 'if (strcmp(str1, str2) == 0) { /* strings are equal */ }',
-        notes: 'Case-sensitive comparison. Use strcasecmp for case-insensitive.',
-        relatedFunctions: ['strcpy', 'strlen', 'strcat']
-    },
-    strncmp: {
-        name: 'strncmp',
-        header: 'string.h',
-        prototype: 'int strncmp(const char *s1, const char *s2, size_t n);',
-        description: 'Compares first n characters of two strings',
-        parameters: [
-            { name: 's1', type: 'const char*', description: 'First string' },
-            { name: 's2', type: 'const char*', description: 'Second string' },
-            { name: 'n', type: 'size_t', description: 'Number of characters to compare' }
-        ],
-        returnValue: '0 if equal, negative if s1 < s2, positive if s1 > s2',
-        example: 'strncmp(str1, str2, 5);',
-        notes: 'Safer than strcmp as it limits comparison length',
-        relatedFunctions: ['strcmp', 'strlen', 'strcpy']
-    },
-    strcpy: {
-        name: 'strcpy',
-        header: 'string.h',
-        prototype: 'char* strcpy(char *dest, const char *src);',
-        description: 'Copies a string from source to destination',
-        parameters: [
-            { name: 'dest', type: 'char*', description: 'Destination buffer' },
-            { name: 'src', type: 'const char*', description: 'Source string to copy' }
-        ],
-        returnValue: 'Pointer to dest',
-        example: 'strcpy(destination, source);',
-        notes: '⚠️ UNSAFE! Can cause buffer overflow. Use strncpy() instead.',
-        relatedFunctions: ['strncpy', 'strcat', 'strcmp']
-    },
-    strncpy: {
-        name: 'strncpy',
-        header: 'string.h',
-        prototype: 'char* strncpy(char *dest, const char *src, size_t n);',
-        description: 'Safely copies up to n characters from source to destination',
-        parameters: [
-            { name: 'dest', type: 'char*', description: 'Destination buffer' },
-            { name: 'src', type: 'const char*', description: 'Source string' },
-            { name: 'n', type: 'size_t', description: 'Maximum number of characters to copy' }
-        ],
-        returnValue: 'Pointer to dest',
-        example: 'strncpy(dest, src, 100);',
-        notes: 'Safer than strcpy. Specify buffer size to prevent overflow.',
-        relatedFunctions: ['strcpy', 'strcat', 'strlen']
-    },
-    strcat: {
-        name: 'strcat',
-        header: 'string.h',
-        prototype: 'char* strcat(char *dest, const char *src);',
-        description: 'Concatenates two strings',
-        parameters: [
-            { name: 'dest', type: 'char*', description: 'Destination string buffer' },
-            { name: 'src', type: 'const char*', description: 'Source string to append' }
-        ],
-        returnValue: 'Pointer to dest',
-        example: 'strcat(str1, str2);',
-        notes: '⚠️ UNSAFE! Use strncat() instead',
-        relatedFunctions: ['strncat', 'strcpy', 'strlen']
-    },
-    strncat: {
-        name: 'strncat',
-        header: 'string.h',
-        prototype: 'char* strncat(char *dest, const char *src, size_t n);',
-        description: 'Safely concatenates up to n characters',
-        parameters: [
-            { name: 'dest', type: 'char*', description: 'Destination string buffer' },
-            { name: 'src', type: 'const char*', description: 'Source string' },
-            { name: 'n', type: 'size_t', description: 'Maximum characters to append' }
-        ],
-        returnValue: 'Pointer to dest',
-        example: 'strncat(dest, src, 50);',
-        notes: 'Safer than strcat. Always specify maximum length.',
-        relatedFunctions: ['strcat', 'strcpy', 'strlen']
-    },
-    strchr: {
-        name: 'strchr',
-        header: 'string.h',
-        prototype: 'char* strchr(const char *s, int c);',
-        description: 'Finds the first occurrence of a character in a string',
-        parameters: [
-            { name: 's', type: 'const char*', description: 'String to search' },
-            { name: 'c', type: 'int', description: 'Character to search for' }
-        ],
-        returnValue: 'Pointer to first occurrence, or NULL if not found',
-        example: 'char *ptr = strchr("hello", \'l\');',
-        notes: 'Returns pointer to the character, not the index',
-        relatedFunctions: ['strstr', 'strrchr', 'strlen']
-    },
-    strstr: {
-        name: 'strstr',
-        header: 'string.h',
-        prototype: 'char* strstr(const char *haystack, const char *needle);',
-        description: 'Finds the first occurrence of a substring in a string',
-        parameters: [
-            { name: 'haystack', type: 'const char*', description: 'String to search in' },
-            { name: 'needle', type: 'const char*', description: 'Substring to search for' }
-        ],
-        returnValue: 'Pointer to first occurrence, or NULL if not found',
-        example: 'char *pos = strstr("Hello World", "World");',
-        notes: 'Case-sensitive search',
-        relatedFunctions: ['strchr', 'strlen', 'strcmp']
-    },
-    atoi: {
-        name: 'atoi',
-        header: 'stdlib.h',
-        prototype: 'int atoi(const char *str);',
-        description: 'Converts a string to an integer',
-        parameters: [
-            { name: 'str', type: 'const char*', description: 'String containing integer' }
-        ],
-        returnValue: 'Converted integer value, or 0 on error',
-        example: 'int num = atoi("123");',
-        notes: 'Returns 0 if conversion fails. No error indication.',
-        relatedFunctions: ['atof', 'strtol', 'sprintf']
-    },
-    atof: {
-        name: 'atof',
-        header: 'stdlib.h',
-        prototype: 'double atof(const char *str);',
-        description: 'Converts a string to a floating point number',
-        parameters: [
-            { name: 'str', type: 'const char*', description: 'String containing float' }
-        ],
-        returnValue: 'Converted double value',
-        example: 'double d = atof("3.14");',
-        notes: 'Returns 0.0 on error',
-        relatedFunctions: ['atoi', 'strtod', 'sprintf']
-    },
-    fopen: {
-        name: 'fopen',
-        header: 'stdio.h',
-        prototype: 'FILE* fopen(const char *filename, const char *mode);',
-        description: 'Opens a file and returns a FILE pointer',
-        parameters: [
-            { name: 'filename', type: 'const char*', description: 'Name of file to open' },
-            { name: 'mode', type: 'const char*', description: 'Mode: "r" (read), "w" (write), "a" (append), "r+" (read/write)' }
-        ],
-        returnValue: 'FILE pointer on success, NULL on failure',
-        example: 'FILE *file = fopen("data.txt", "r"); if (file == NULL) { /* handle error */ }',
-        notes: 'Always check if fopen returns NULL before using the file pointer. Remember to fclose().',
-        relatedFunctions: ['fclose', 'fread', 'fwrite', 'fprintf']
-    },
-    fclose: {
-        name: 'fclose',
-        header: 'stdio.h',
-        prototype: 'int fclose(FILE *stream);',
-        description: 'Closes a file stream',
-        parameters: [
-            { name: 'stream', type: 'FILE*', description: 'FILE pointer to close' }
-        ],
-        returnValue: '0 on success, EOF on error',
-        example: 'fclose(file);',
-        notes: 'Always close files when done. Not closing can cause data loss or resource leaks.',
-        relatedFunctions: ['fopen', 'fread', 'fwrite']
-    },
-    abs: {
-        name: 'abs',
-        header: 'stdlib.h',
-        prototype: 'int abs(int j);',
-        description: 'Returns the absolute value of an integer',
-        parameters: [
-            { name: 'j', type: 'int', description: 'Integer value' }
-        ],
-        returnValue: 'Absolute value',
-        example: 'int x = abs(-5);  // returns 5',
-        notes: 'For floating point, use fabs() from math.h',
-        relatedFunctions: ['fabs', 'labs', 'sqrt']
-    },
-    sqrt: {
-        name: 'sqrt',
-        header: 'math.h',
-        prototype: 'double sqrt(double x);',
-        description: 'Calculates the square root',
-        parameters: [
-            { name: 'x', type: 'double', description: 'Non-negative number' }
-        ],
-        returnValue: 'Square root as double',
-        example: 'double root = sqrt(16.0);  // returns 4.0',
-        notes: 'Returns NaN for negative values',
-        relatedFunctions: ['pow', 'fabs', 'cbrt']
-    },
-    pow: {
-        name: 'pow',
-        header: 'math.h',
-        prototype: 'double pow(double x, double y);',
-        description: 'Calculates x raised to the power of y',
-        parameters: [
-            { name: 'x', type: 'double', description: 'Base value' },
-            { name: 'y', type: 'double', description: 'Exponent' }
-        ],
-        returnValue: 'Result of x^y',
-        example: 'double result = pow(2.0, 3.0);  // returns 8.0',
-        notes: 'Returns 1.0 for 0^0',
-        relatedFunctions: ['sqrt', 'exp', 'log']
-    },
-    ceil: {
-        name: 'ceil',
-        header: 'math.h',
-        prototype: 'double ceil(double x);',
-        description: 'Rounds up to the nearest integer',
-        parameters: [
-            { name: 'x', type: 'double', description: 'Floating point number' }
-        ],
-        returnValue: 'Smallest integer >= x as double',
-        example: 'double y = ceil(3.2);  // returns 4.0',
-        notes: 'Rounds toward positive infinity',
-        relatedFunctions: ['floor', 'round', 'trunc']
-    },
-    floor: {
-        name: 'floor',
-        header: 'math.h',
-        prototype: 'double floor(double x);',
-        description: 'Rounds down to the nearest integer',
-        parameters: [
-            { name: 'x', type: 'double', description: 'Floating point number' }
-        ],
-        returnValue: 'Largest integer <= x as double',
-        example: 'double y = floor(3.8);  // returns 3.0',
-        notes: 'Rounds toward negative infinity',
-        relatedFunctions: ['ceil', 'round', 'trunc']
-    },
-    round: {
-        name: 'round',
-        header: 'math.h',
-        prototype: 'double round(double x);',
-        description: 'Rounds to the nearest integer',
-        parameters: [
-            { name: 'x', type: 'double', description: 'Floating point number' }
-        ],
-        returnValue: 'Rounded value as double',
-        example: 'double y = round(3.5);  // returns 4.0',
-        notes: 'Halfway cases round away from zero',
-        relatedFunctions: ['ceil', 'floor', 'trunc']
-    },
-    isdigit: {
-        name: 'isdigit',
-        header: 'ctype.h',
-        prototype: 'int isdigit(int c);',
-        description: 'Checks if a character is a digit (0-9)',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to check' }
-        ],
-        returnValue: 'Non-zero if digit, 0 otherwise',
-        example: 'if (isdigit(\'5\')) { /* is digit */ }',
-        notes: 'Pass unsigned char or EOF for safety',
-        relatedFunctions: ['isalpha', 'isalnum', 'isspace']
-    },
-    isalpha: {
-        name: 'isalpha',
-        header: 'ctype.h',
-        prototype: 'int isalpha(int c);',
-        description: 'Checks if a character is alphabetic (a-z, A-Z)',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to check' }
-        ],
-        returnValue: 'Non-zero if alphabetic, 0 otherwise',
-        example: 'if (isalpha(\'a\')) { /* is letter */ }',
-        notes: 'Locale-dependent',
-        relatedFunctions: ['isdigit', 'isalnum', 'isupper']
-    },
-    isalnum: {
-        name: 'isalnum',
-        header: 'ctype.h',
-        prototype: 'int isalnum(int c);',
-        description: 'Checks if a character is alphanumeric',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to check' }
-        ],
-        returnValue: 'Non-zero if alphanumeric, 0 otherwise',
-        example: 'if (isalnum(\'a\') || isalnum(\'5\')) { /* alphanumeric */ }',
-        notes: 'True for letters and digits',
-        relatedFunctions: ['isalpha', 'isdigit', 'isspace']
-    },
-    isspace: {
-        name: 'isspace',
-        header: 'ctype.h',
-        prototype: 'int isspace(int c);',
-        description: 'Checks if a character is whitespace',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to check' }
-        ],
-        returnValue: 'Non-zero if whitespace, 0 otherwise',
-        example: 'if (isspace(\' \')) { /* is space */ }',
-        notes: 'Includes space, tab, newline, carriage return',
-        relatedFunctions: ['isdigit', 'isalpha', 'toupper']
-    },
-    toupper: {
-        name: 'toupper',
-        header: 'ctype.h',
-        prototype: 'int toupper(int c);',
-        description: 'Converts a character to uppercase',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to convert' }
-        ],
-        returnValue: 'Uppercase equivalent, or c unchanged',
-        example: 'char up = (char)toupper(\'a\');  // returns \'A\'',
-        notes: 'Non-alphabetic characters unchanged',
-        relatedFunctions: ['tolower', 'isalpha', 'isupper']
-    },
-    tolower: {
-        name: 'tolower',
-        header: 'ctype.h',
-        prototype: 'int tolower(int c);',
-        description: 'Converts a character to lowercase',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to convert' }
-        ],
-        returnValue: 'Lowercase equivalent, or c unchanged',
-        example: 'char low = (char)tolower(\'A\');  // returns \'a\'',
-        notes: 'Non-alphabetic characters unchanged',
-        relatedFunctions: ['toupper', 'isalpha', 'islower']
-    },
-    memcpy: {
-        name: 'memcpy',
-        header: 'string.h',
-        prototype: 'void* memcpy(void *dest, const void *src, size_t n);',
-        description: 'Copies n bytes from source to destination',
-        parameters: [
-            { name: 'dest', type: 'void*', description: 'Destination pointer' },
-            { name: 'src', type: 'const void*', description: 'Source pointer' },
-            { name: 'n', type: 'size_t', description: 'Number of bytes to copy' }
-        ],
-        returnValue: 'Pointer to dest',
-        example: 'memcpy(dst, src, 100);',
-        notes: 'Does not check for overlap. Use memmove() if overlap possible.',
-        relatedFunctions: ['memmove', 'memset', 'strcpy']
-    },
-    memset: {
-        name: 'memset',
-        header: 'string.h',
-        prototype: 'void* memset(void *s, int c, size_t n);',
-        description: 'Sets n bytes of memory to a value',
-        parameters: [
-            { name: 's', type: 'void*', description: 'Pointer to memory' },
-            { name: 'c', type: 'int', description: 'Value to set (typically 0)' },
-            { name: 'n', type: 'size_t', description: 'Number of bytes to set' }
-        ],
-        returnValue: 'Pointer to s',
-        example: 'memset(buffer, 0, 100);',
-        notes: 'Commonly used to initialize memory to 0',
-        relatedFunctions: ['memcpy', 'memmove', 'calloc']
-    },
-    time: {
-        name: 'time',
-        header: 'time.h',
-        prototype: 'time_t time(time_t *tloc);',
-        description: 'Gets the current calendar time',
-        parameters: [
-            { name: 'tloc', type: 'time_t*', description: 'Pointer to store time, or NULL' }
-        ],
-        returnValue: 'Seconds since epoch (Jan 1, 1970)',
-        example: 'time_t t = time(NULL);',
-        notes: 'Returns -1 on error',
-        relatedFunctions: ['clock', 'difftime', 'ctime']
-    },
-    rand: {
-        name: 'rand',
-        header: 'stdlib.h',
-        prototype: 'int rand(void);',
-        description: 'Generates a pseudo-random number',
-        parameters: [],
-        returnValue: 'Random integer between 0 and RAND_MAX',
-        example: 'int r = rand() % 100;',
-        notes: 'Call srand() first to seed. Results are predictable without seeding.',
-        relatedFunctions: ['srand', 'random', 'time']
-    },
-    srand: {
-        name: 'srand',
-        header: 'stdlib.h',
-        prototype: 'void srand(unsigned int seed);',
-        description: 'Seeds the random number generator',
-        parameters: [
-            { name: 'seed', type: 'unsigned int', description: 'Seed value' }
-        ],
-        returnValue: 'void',
-        example: 'srand(time(NULL));',
-        notes: 'Call once before using rand()',
-        relatedFunctions: ['rand', 'time', 'random']
-    },
-    exit: {
-        name: 'exit',
-        header: 'stdlib.h',
-        prototype: 'void exit(int status);',
-        description: 'Terminates the program',
-        parameters: [
-            { name: 'status', type: 'int', description: 'Exit status code (0 for success)' }
-        ],
-        returnValue: 'Does not return',
-        example: 'exit(0);',
-        notes: 'Flushes and closes all streams before terminating',
-        relatedFunctions: ['abort', 'return', 'main']
-    },
-    getchar: {
-        name: 'getchar',
-        header: 'stdio.h',
-        prototype: 'int getchar(void);',
-        description: 'Reads a single character from stdin',
-        parameters: [],
-        returnValue: 'Character as int, or EOF on error',
-        example: 'int c = getchar();',
-        notes: 'Returns EOF at end of input',
-        relatedFunctions: ['putchar', 'scanf', 'fgetc']
-    },
-    putchar: {
-        name: 'putchar',
-        header: 'stdio.h',
-        prototype: 'int putchar(int c);',
-        description: 'Writes a single character to stdout',
-        parameters: [
-            { name: 'c', type: 'int', description: 'Character to output' }
-        ],
-        returnValue: 'Character written, or EOF on error',
-        example: 'putchar(\'A\');',
-        notes: 'Equivalent to printf("%c", c)',
-        relatedFunctions: ['getchar', 'printf', 'fputc']
-    },
-    perror: {
-        name: 'perror',
-        header: 'stdio.h',
-        prototype: 'void perror(const char *s);',
-        description: 'Prints error message based on errno',
-        parameters: [
-            { name: 's', type: 'const char*', description: 'Prefix message to print' }
-        ],
-        returnValue: 'void',
-        example: 'if (file == NULL) perror("fopen");',
-        notes: 'Appends system error message to custom prefix',
-        relatedFunctions: ['strerror', 'printf', 'fprintf']
-    }
-};
 
 // ============================================================================
 // LIBRARY REFERENCE VIEW PROVIDER (Sidebar Panel)
@@ -713,6 +55,8 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'c-helper.libraryReference';
     private _view?: vscode.WebviewView;
     private _context: vscode.ExtensionContext;
+    // Entry or rule requested before the view was first shown
+    private _pendingMessage?: object;
 
     constructor(context: vscode.ExtensionContext) {
         this._context = context;
@@ -741,11 +85,72 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                     console.error('Error handling webview message:', error);
                 }
             });
+
+            if (this._pendingMessage) {
+                this._postMessage(this._pendingMessage);
+                this._pendingMessage = undefined;
+            }
         } catch (error) {
             console.error('Error resolving webview view:', error);
         }
     }
 
+    /**
+     * Focuses the view and shows a single function's entry
+     */
+    public async showEntry(name: string) {
+        const entry = getLibraryEntry(name);
+        if (entry) {
+            await this._show({ command: 'showEntry', query: name, results: [entry] });
+        }
+    }
+
+    /**
+     * Focuses the view and shows why a safety rule reports code, with the entry of the
+     * function it is about
+     */
+    public async showRule(id: string) {
+        const rule = getSafetyRule(id);
+        if (rule) {
+            // Shown whatever the reference standard: gets is documented here though C11 removed it
+            const library = getLibraryDatabase();
+            const entry = rule.reference && Object.prototype.hasOwnProperty.call(library, rule.reference) ? library[rule.reference] : undefined;
+            await this._show({ command: 'showRule', rule, results: entry ? [entry] : [] });
+        }
+    }
+
+    private async _show(message: object) {
+        if (this._view) {
+            this._postMessage(message);
+        } else {
+            this._pendingMessage = message;
+        }
+        await vscode.commands.executeCommand('c-helper.libraryReference.focus');
+    }
+
+    private _postMessage(message: object) {
+        this._view?.webview.postMessage(message).then(() => {}, (e: any) => console.error('Error posting message:', e));
+    }
+
+    /**
+     * Lists the installed man pages matching a search that the reference has no entry
+     * for. When the reference found nothing and a page has the exact name, it is opened.
+     */
+    private async _postManPages(query: string, openExactMatch: boolean) {
+        const known = new Set(getLibraryEntries().map(entry => entry.name));
+        const pages = searchManIndex(await getManIndex(), query, known);
+
+        await this._view?.webview.postMessage({ command: 'manPageResults', query, pages });
+        if (openExactMatch && pages.length > 0 && pages[0].name === query.trim()) {
+            await this._postManPage(pages[0].name, pages[0].section);
+        }
+    }
+
+    private async _postManPage(name: string, section: string) {
+        const text = await getManPage(name, section);
+        await this._view?.webview.postMessage({ command: 'manPage', name, section, text });
+    }
+
     private _handleWebviewMessage(message: any) {
         try {
             if (!message || typeof message !== 'object') {
@@ -758,7 +163,7 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                 const searchTerm = query.toLowerCase().trim();
                 
                 // Search by function name or header file
-                const results = Object.values(LIBRARY_DATABASE).filter((func: any) => {
+                const results = getLibraryEntries().filter((func: any) => {
                     if (!func) return false;
                     
                     // Search by function name
@@ -782,6 +187,12 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                     command: 'searchResults',
                     results: results
                 }).then(() => {}, (e: any) => console.error('Error posting message:', e));
+
+                if (isManPageFallbackEnabled()) {
+                    this._postManPages(query, results.length === 0).catch(error => console.error('Error searching man pages:', error));
+                }
+            } else if (command === 'openManPage' && typeof message.name === 'string' && typeof message.section === 'string') {
+                this._postManPage(message.name, message.section).catch(error => console.error('Error reading man page:', error));
             }
         } catch (error) {
             console.error('Error in message handler:', error);
@@ -966,6 +377,31 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                     font-weight: 500;
                 }
 
+                .man-item {
+                    padding: 6px 8px;
+                    border-radius: 3px;
+                    cursor: pointer;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .man-item:hover {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .man-item .function-name {
+                    display: inline;
+                    font-size: 12px;
+                    margin-right: 6px;
+                }
+
+                .man-page {
+                    font-family: var(--vscode-editor-font-family, 'Courier New', monospace);
+                    font-size: 11px;
+                    white-space: pre-wrap;
+                    margin: 0;
+                }
+
                 .no-results {
                     text-align: center;
                     padding: 20px 12px;
@@ -999,6 +435,8 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                 <div id="results" class="results">
                     <div class="no-results">Search by function name or header file (e.g., stdio.h, ctype.h)</div>
                 </div>
+
+                <div id="manResults" class="results"></div>
             </div>
 
             <script>
@@ -1006,6 +444,8 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                 const searchInput = document.getElementById('searchInput');
                 const searchBtn = document.getElementById('searchBtn');
                 const resultsDiv = document.getElementById('results');
+                const manResultsDiv = document.getElementById('manResults');
+                let lastQuery = '';
 
                 searchBtn.addEventListener('click', () => {
                     try {
@@ -1030,6 +470,7 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                             resultsDiv.innerHTML = '<div class="no-results">Enter a function name...</div>';
                             return;
                         }
+                        lastQuery = query;
                         vscode.postMessage({
                             command: 'search',
                             query: query
@@ -1043,13 +484,79 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                 window.addEventListener('message', event => {
                     try {
                         if (event.data && event.data.command === 'searchResults') {
+                            manResultsDiv.innerHTML = '';
+                            displayResults(event.data.results || []);
+                        } else if (event.data && event.data.command === 'showEntry') {
+                            searchInput.value = event.data.query || '';
+                            lastQuery = searchInput.value;
+                            manResultsDiv.innerHTML = '';
                             displayResults(event.data.results || []);
+                        } else if (event.data && event.data.command === 'showRule') {
+                            const results = event.data.results || [];
+                            manResultsDiv.innerHTML = '';
+                            if (results.length > 0) {
+                                displayResults(results);
+                            } else {
+                                resultsDiv.innerHTML = '';
+                            }
+                            resultsDiv.insertAdjacentHTML('afterbegin', renderRule(event.data.rule));
+                        } else if (event.data && event.data.command === 'manPageResults') {
+                            // Ignore answers to an earlier search
+                            if (event.data.query === lastQuery) {
+                                displayManPages(event.data.pages || []);
+                            }
+                        } else if (event.data && event.data.command === 'manPage') {
+                            displayManPage(event.data.name, event.data.section, event.data.text);
                         }
                     } catch (error) {
                         console.error('Message handler error:', error);
                     }
                 });
 
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                }
+
+                manResultsDiv.addEventListener('click', e => {
+                    const item = e.target.closest('.man-item');
+                    if (item) {
+                        vscode.postMessage({ command: 'openManPage', name: item.dataset.name, section: item.dataset.section });
+                    }
+                });
+
+                function renderRule(rule) {
+                    return \`
+                        <div class="function-card">
+                            <div class="function-name">\${escapeHtml(rule.title)}</div>
+                            <div class="function-header">Rule: \${escapeHtml(rule.id)} · \${escapeHtml(rule.severity)}</div>
+                            <div class="function-description">\${escapeHtml(rule.rationale)}</div>
+                        </div>
+                    \`;
+                }
+
+                function displayManPages(pages) {
+                    if (pages.length === 0) {
+                        manResultsDiv.innerHTML = '';
+                        return;
+                    }
+                    manResultsDiv.innerHTML = '<div class="section-title">📖 Man pages</div>' + pages.map(page => \`
+                        <div class="man-item" data-name="\${escapeHtml(page.name)}" data-section="\${escapeHtml(page.section)}">
+                            <span class="function-name">\${escapeHtml(page.name)}(\${escapeHtml(page.section)})</span>\${escapeHtml(page.description)}
+                        </div>
+                    \`).join('');
+                }
+
+                function displayManPage(name, section, text) {
+                    resultsDiv.innerHTML = text
+                        ? \`
+                            <div class="function-card">
+                                <div class="function-name">\${escapeHtml(name)}(\${escapeHtml(section)})</div>
+                                <pre class="man-page">\${escapeHtml(text)}</pre>
+                            </div>
+                        \`
+                        : \`<div class="no-results">No man page for \${escapeHtml(name)}(\${escapeHtml(section)}).</div>\`;
+                }
+
                 function displayResults(results) {
                     try {
                         if (!results || results.length === 0) {
@@ -1063,12 +570,12 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                                 
                                 return \`
                                     <div class="function-card">
-                                        <div class="function-name">\${func.name || 'Unknown'}()</div>
-                                        <div class="function-header">Header: &lt;\${func.header || 'stdio.h'}&gt;</div>
+                                        <div class="function-name">\${escapeHtml(func.name || 'Unknown')}\${!func.kind || func.kind === 'function' ? '()' : ''}</div>
+                                        <div class="function-header">Header: \${func.quoted ? '&quot;' + escapeHtml(func.header) + '&quot;' : '&lt;' + escapeHtml(func.header || 'stdio.h') + '&gt;'}</div>
                                         
-                                        <div class="function-prototype">\${func.prototype || ''}</div>
+                                        <div class="function-prototype">\${escapeHtml(func.prototype || '')}</div>
 
-                                        <div class="function-description">\${func.description || ''}</div>
+                                        <div class="function-description">\${escapeHtml(func.description || '')}</div>
 
                                         \${func.parameters && func.parameters.length > 0 ? \`
                                             <div class="section">
@@ -1078,7 +585,7 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                                                         if (!p) return '';
                                                         return \`
                                                             <div class="parameter-item">
-                                                                <span class="parameter-name">\${p.name || 'param'}</span>: \${p.description || ''}
+                                                                <span class="parameter-name">\${escapeHtml(p.name || 'param')}</span>: \${escapeHtml(p.description || '')}
                                                             </div>
                                                         \`;
                                                     }).join('')}
@@ -1086,20 +593,24 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                                             </div>
                                         \` : ''}
 
-                                        <div class="section">
-                                            <div class="section-title">↩️ Returns</div>
-                                            <div class="return-value">\${func.returnValue || ''}</div>
-                                        </div>
+                                        \${func.returnValue ? \`
+                                            <div class="section">
+                                                <div class="section-title">↩️ Returns</div>
+                                                <div class="return-value">\${escapeHtml(func.returnValue)}</div>
+                                            </div>
+                                        \` : ''}
 
-                                        <div class="section">
-                                            <div class="section-title">💻 Example</div>
-                                            <div class="example">\${func.example || ''}</div>
-                                        </div>
+                                        \${func.example ? \`
+                                            <div class="section">
+                                                <div class="section-title">💻 Example</div>
+                                                <div class="example">\${escapeHtml(func.example)}</div>
+                                            </div>
+                                        \` : ''}
 
                                         \${func.notes ? \`
                                             <div class="section">
                                                 <div class="section-title">⚠️ Notes</div>
-                                                <div class="notes">\${func.notes}</div>
+                                                <div class="notes">\${escapeHtml(func.notes)}</div>
                                             </div>
                                         \` : ''}
 
@@ -1107,7 +618,7 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
                                             <div class="section">
                                                 <div class="section-title">🔗 Related</div>
                                                 <div class="related-functions">
-                                                    \${func.relatedFunctions.map(f => \`<span>\${f || ''}</span>\`).join('')}
+                                                    \${func.relatedFunctions.map(f => \`<span>\${escapeHtml(f || '')}</span>\`).join('')}
                                                 </div>
                                             </div>
                                         \` : ''}
@@ -1132,9 +643,30 @@ class LibraryReferenceViewProvider implements vscode.WebviewViewProvider {
 export function activate(context: vscode.ExtensionContext) {
     console.log('C Helper Extension activated');
 
-    // Initialize diagnostic collection for warnings and errors
-    diagnosticCollection = vscode.languages.createDiagnosticCollection('c-helper');
-    context.subscriptions.push(diagnosticCollection);
+    // Compiler errors and warnings live in their own collection
+    registerBuild(context);
+
+    // Settings are read once and refreshed when they change
+    registerConfig(context);
+
+    // Library reference data behind completion, hover, header insertion and the sidebar
+    registerLibraryDatabase(context);
+    registerManPages(context);
+
+    // Build profiles (debug, release, ...) with their status bar picker
+    registerProjectConfig(context);
+    registerBuildProfiles(context);
+    registerBuildOutputs(context);
+    registerBuildSystems(context);
+    registerRunConfigurations(context);
+    registerTestCases(context, filePath => buildForFile(filePath));
+    registerDebugLaunch(context, (filePath, profile) => buildForFile(filePath, getConfig().buildMode, profile));
+    registerMemoryCheck(context, (filePath, profile) => buildForFile(filePath, getConfig().buildMode, profile));
+    registerHeaderPairing(context);
+    registerLibraryCompletion(context);
+    registerLibraryHover(context);
+    registerSafetyDiagnostics(context);
+    registerSafetyFixes(context);
 
     // Register event handlers (all automatic)
     registerFileCreationHandler(context);
@@ -1174,6 +706,20 @@ export function activate(context: vscode.ExtensionContext) {
                 console.error('Error opening reference:', e);
             });
         }),
+        vscode.commands.registerCommand(SHOW_REFERENCE_ENTRY_COMMAND, async (name: string) => {
+            try {
+                await referenceViewProvider.showEntry(name);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error opening reference entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }),
+        vscode.commands.registerCommand(SHOW_RULE_COMMAND, async (id: string) => {
+            try {
+                await referenceViewProvider.showRule(id);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error opening rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }),
         vscode.commands.registerCommand('c-helper.searchReference', async () => {
             const query = await vscode.window.showInputBox({ 
                 placeHolder: 'Enter function name to search...' 
@@ -1187,10 +733,6 @@ export function activate(context: vscode.ExtensionContext) {
 
 export function deactivate() {
     try {
-        if (diagnosticCollection) {
-            diagnosticCollection.clear();
-            diagnosticCollection.dispose();
-        }
         if (prototypeCheckTimer) {
             clearTimeout(prototypeCheckTimer);
             prototypeCheckTimer = undefined;
@@ -1262,7 +804,7 @@ function registerCursorPositionHandler(context: vscode.ExtensionContext) {
                     // Add semicolon to the previous line if needed
                     if (lastCursorLine >= 0 && lastCursorLine < editor.document.lineCount) {
                         console.log(`Cursor moved from line ${lastCursorLine + 1} to line ${currentLine + 1}`);
-                        addSemicolonIfNeeded(editor.document, lastCursorLine);
+                        addSemicolonsIfNeeded(editor.document, [lastCursorLine]);
                     }
                 }
                 
@@ -1282,12 +824,14 @@ function registerDocumentChangeHandler(context: vscode.ExtensionContext) {
             }
             
             try {
-                // Handle semicolon insertion on newline
+                // Handle semicolon insertion when Enter is pressed; pasted text is left alone
+                const enterLines = event.contentChanges
+                    .filter(change => /^\r?\n[ \t]*$/.test(change.text))
+                    .map(change => change.range.start.line);
+                if (enterLines.length > 0) {
+                    setTimeout(() => addSemicolonsIfNeeded(event.document, enterLines), 10);
+                }
                 for (const change of event.contentChanges) {
-                    if (change.text.includes('\n')) {
-                        const lineNum = change.range.start.line;
-                        setTimeout(() => addSemicolonIfNeeded(event.document, lineNum), 10);
-                    }
                     // Auto-add headers when functions are typed
                     if (change.text.match(/\w+\s*\(/)) {
                         autoAddRequiredHeaders(event.document);
@@ -1313,10 +857,12 @@ function registerDocumentSaveHandler(context: vscode.ExtensionContext) {
         vscode.workspace.onDidSaveTextDocument(document => {
             if (document.languageId === 'c') {
                 try {
-                    runDiagnostics(document);
                     autoGeneratePrototypes(document).catch(error => {
                         console.error('Error in auto-generate prototypes on save:', error);
                     });
+                    syncPairedHeader(document).catch(error => {
+                        console.error('Error syncing the paired header on save:', error);
+                    });
                     autoAddRequiredHeaders(document).catch(error => {
                         console.error('Error in auto-add headers on save:', error);
                     });
@@ -1332,6 +878,7 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('c-helper.compile', compileCurrentFile),
         vscode.commands.registerCommand('c-helper.compileAndRun', compileAndRunCurrentFile),
+        vscode.commands.registerCommand('c-helper.buildProject', buildCurrentProject),
         vscode.commands.registerCommand('c-helper.insertMain', insertMainFunction),
         vscode.commands.registerCommand('c-helper.generateDoc', generateFunctionDoc)
     );
@@ -1388,8 +935,8 @@ int main() {
 // SEMICOLON AUTO-INSERTION
 // ============================================================================
 
-async function addSemicolonIfNeeded(document: vscode.TextDocument, lineNum: number) {
-    if (isProcessingChange || lineNum < 0 || lineNum >= document.lineCount) {
+async function addSemicolonsIfNeeded(document: vscode.TextDocument, lineNums: number[]) {
+    if (!getConfig().autoSemicolon || isProcessingChange) {
         return;
     }
     
@@ -1399,25 +946,27 @@ async function addSemicolonIfNeeded(document: vscode.TextDocument, lineNum: numb
     }
     
     try {
-        const line = document.lineAt(lineNum);
-        const text = line.text.trimEnd();
+        const insertions = findMissingSemicolons(document.getText(), lineNums, getConfig().semicolonRules);
+        if (insertions.length === 0) {
+            return;
+        }
         
-        // Check if this line should have a semicolon added
-        if (shouldAddSemicolon(text)) {
-            isProcessingChange = true;
-            
-            // Debug logging
-            console.log(`Adding semicolon to line ${lineNum + 1}: "${text}"`);
-            
-            await editor.edit(editBuilder => {
-                editBuilder.insert(line.range.end, ';');
-            }, { 
-                undoStopBefore: false, 
-                undoStopAfter: false 
-            });
-            
-            setTimeout(() => { isProcessingChange = false; }, 50);
+        isProcessingChange = true;
+        for (const insertion of insertions) {
+            console.log(`Adding semicolon to line ${insertion.line + 1} (${insertion.rule})`);
         }
+        
+        // Its own undo step, so a single undo removes exactly the inserted semicolons
+        await editor.edit(editBuilder => {
+            for (const insertion of insertions) {
+                editBuilder.insert(new vscode.Position(insertion.line, insertion.column), ';');
+            }
+        }, { 
+            undoStopBefore: true, 
+            undoStopAfter: true 
+        });
+        
+        setTimeout(() => { isProcessingChange = false; }, 50);
     } catch (error) {
         console.error('Error adding semicolon:', error);
         isProcessingChange = false;
@@ -1425,66 +974,42 @@ async function addSemicolonIfNeeded(document: vscode.TextDocument, lineNum: numb
 }
 
 async function autoAddRequiredHeaders(document: vscode.TextDocument) {
+    if (!getConfig().autoHeaders) {
+        return;
+    }
+
     try {
         const editor = vscode.window.activeTextEditor;
         if (!editor || editor.document !== document) {
             return;
         }
 
-        const documentText = document.getText();
-        const lines = documentText.split('\n');
-        
-        // Get all currently included headers
-        const includedHeaders = new Set<string>();
-        for (const line of lines) {
-            const match = line.match(/#include\s*[<"](.+?)[>"]/);
-            if (match) {
-                includedHeaders.add(match[1]);
-            }
-        }
-
-        // Find all function calls in the document (skip comments)
-        const requiredHeaders = new Set<string>();
-        const functionPattern = /\b([a-zA-Z_]\w*)\s*\(/g;
+        const text = document.getText();
+        const unit = parseC(text);
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            // Skip comment lines
-            const commentIndex = line.indexOf('//');
-            const checkLine = commentIndex !== -1 ? line.substring(0, commentIndex) : line;
-            
-            let match;
-            const regex = new RegExp(functionPattern);
-            while ((match = regex.exec(checkLine)) !== null) {
-                const functionName = match[1];
-                const header = FUNCTION_TO_HEADER[functionName];
-                
-                if (header && !includedHeaders.has(header)) {
-                    requiredHeaders.add(header);
-                }
-            }
-        }
+        // Headers already available, directly or through the file's own headers
+        const filePath = document.isUntitled ? undefined : document.uri.fsPath;
+        const includeDirs = filePath ? getProfileIncludeDirs(getActiveBuildProfile(filePath), getProjectRoot(filePath)) : [];
+        const included = getIncludedContext(unit, filePath, includeDirs);
 
-        // Add missing headers
-        if (requiredHeaders.size === 0) {
+        const headersToAdd = findMissingHeaders(unit, getFunctionToHeader(), included);
+        if (headersToAdd.length === 0) {
             return;
         }
 
         isProcessingChange = true;
 
-        // Find insertion point (after last #include or at top)
-        let insertionLine = 0;
-        for (let i = 0; i < lines.length; i++) {
-            if (lines[i].trim().startsWith('#include')) {
-                insertionLine = i + 1;
-            }
+        const insertionLine = findIncludeInsertionLine(text);
+        let headerText = headersToAdd.map(formatInclude).join('\n') + '\n';
+        // A file comment on the last line has no line break to insert after
+        if (insertionLine >= document.lineCount) {
+            headerText = '\n' + headerText;
         }
 
-        const headersToAdd = Array.from(requiredHeaders).sort();
-        const headerText = headersToAdd.map(h => `#include <${h}>`).join('\n') + '\n';
-
         await editor.edit(editBuilder => {
-            const insertPos = new vscode.Position(insertionLine, 0);
+            const insertPos = insertionLine >= document.lineCount
+                ? document.lineAt(document.lineCount - 1).range.end
+                : new vscode.Position(insertionLine, 0);
             editBuilder.insert(insertPos, headerText);
         }).then(() => {
             isProcessingChange = false;
@@ -1498,70 +1023,12 @@ async function autoAddRequiredHeaders(document: vscode.TextDocument) {
     }
 }
 
-function shouldAddSemicolon(text: string): boolean {
-    try {
-        const trimmed = text.trim();
-        
-        // Empty line or already has semicolon
-        if (!trimmed || trimmed.endsWith(';')) {
-            return false;
-        }
-        
-        // Don't add to lines ending with opening brace or colon
-        if (/[{:\[]$/.test(trimmed)) {
-            return false;
-        }
-        
-        // Don't add to lines that are just closing braces
-        if (/^[}]$/.test(trimmed)) {
-            return false;
-        }
-        
-        // Preprocessor directives
-        if (/^#/.test(trimmed)) {
-            return false;
-        }
-        
-        // Comments
-        if (/^\/\/|^\/\*|\*\/$|^\*/.test(trimmed)) {
-            return false;
-        }
-        
-        // Don't add to control structure lines that end with ) and nothing else
-        if (/^\s*(if|else if|else|while|for|do|switch)\s*\(.*\)\s*$/.test(trimmed)) {
-            return false;
-        }
-        
-        // Don't add to function definitions (no body on same line)
-        if (/^\s*(int|void|char|float|double|long|short|unsigned|signed|static|const|auto|register)\s+[\w\s\*]+\([^)]*\)\s*$/.test(trimmed)) {
-            return false;
-        }
-        
-        // Don't add to struct/union/enum/typedef definitions
-        if (/^\s*(struct|union|enum|typedef)\b/.test(trimmed)) {
-            return false;
-        }
-        
-        // Don't add to labels (case/default)
-        if (/^\s*(case\s+.+|default)\s*:\s*$/.test(trimmed)) {
-            return false;
-        }
-        
-        // ADD SEMICOLON TO ANYTHING ELSE THAT LOOKS LIKE A STATEMENT
-        // This is more aggressive - if it's not explicitly excluded, add semicolon
-        return true;
-    } catch (error) {
-        console.error('Error in shouldAddSemicolon:', error);
-        return false;
-    }
-}
-
 // ============================================================================
 // AUTOMATIC PROTOTYPE GENERATION
 // ============================================================================
 
 async function autoGeneratePrototypes(document: vscode.TextDocument) {
-    if (isProcessingChange) {
+    if (isProcessingChange || path.extname(document.fileName) === '.h') {
         return;
     }
     
@@ -1572,71 +1039,34 @@ async function autoGeneratePrototypes(document: vscode.TextDocument) {
     
     try {
         const text = document.getText();
-        const lines = text.split('\n');
-
-        // Find the last #include directive
-        let lastIncludeLine = -1;
-        for (let i = 0; i < lines.length; i++) {
-            if (lines[i].trim().startsWith('#include')) {
-                lastIncludeLine = i;
+        const unit = parseC(text);
+
+        // Functions declared by the file's own headers need no prototype here
+        const declaredElsewhere = new Set<string>();
+        if (!document.isUntitled) {
+            const filePath = document.uri.fsPath;
+            const includeDirs = getProfileIncludeDirs(getActiveBuildProfile(filePath), getProjectRoot(filePath));
+            for (const headerFile of findQuotedHeaderFiles(unit, filePath, includeDirs)) {
+                parseC(fs.readFileSync(headerFile, 'utf8')).functions.forEach(func => declaredElsewhere.add(func.name));
             }
-        }
-
-        if (lastIncludeLine === -1) {
-            return;
-        }
-
-        // Find the main function
-        let mainLine = -1;
-        for (let i = lastIncludeLine + 1; i < lines.length; i++) {
-            if (/^\s*(int|void)\s+main\s*\(/.test(lines[i])) {
-                mainLine = i;
-                break;
+            // Public functions go to the paired header when it is managed
+            if (isPairedHeaderManaged(document, unit)) {
+                unit.functions.filter(func => !func.specifiers.includes('static')).forEach(func => declaredElsewhere.add(func.name));
             }
         }
 
-        if (mainLine === -1) {
-            return;
-        }
-
-        // Find all user-defined functions after main
-        const functionPattern = /^\s*(int|void|char|float|double|long|short|unsigned|signed)\s+([a-zA-Z_]\w*)\s*\(([^)]*)\)\s*\{/;
-        const foundFunctions: Array<{ name: string; prototype: string }> = [];
+        const key = document.uri.toString();
+        const { edits, managedNames } = computePrototypeEdits(text, unit, managedPrototypes.get(key) || new Set(), declaredElsewhere);
+        managedPrototypes.set(key, managedNames);
 
-        for (let i = mainLine + 1; i < lines.length; i++) {
-            const match = lines[i].match(functionPattern);
-            if (match) {
-                const returnType = match[1];
-                const functionName = match[2];
-                const parameters = match[3].trim();
-                
-                if (functionName !== 'main') {
-                    foundFunctions.push({
-                        name: functionName,
-                        prototype: `${returnType} ${functionName}(${parameters});`
-                    });
-                }
-            }
-        }
-
-        if (foundFunctions.length === 0) {
-            return;
-        }
-
-        // Check which prototypes are missing
-        const prototypeArea = lines.slice(lastIncludeLine + 1, mainLine).join('\n');
-        const missingPrototypes = foundFunctions.filter(func => {
-            const pattern = new RegExp(`\\b${func.name}\\s*\\([^)]*\\)\\s*;`);
-            return !pattern.test(prototypeArea);
-        });
-
-        if (missingPrototypes.length > 0) {
+        if (edits.length > 0) {
             isProcessingChange = true;
             
             await editor.edit(editBuilder => {
-                const insertPosition = new vscode.Position(lastIncludeLine + 1, 0);
-                const prototypesText = '\n' + missingPrototypes.map(f => f.prototype).join('\n') + '\n';
-                editBuilder.insert(insertPosition, prototypesText);
+                for (const edit of edits) {
+                    const range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end));
+                    editBuilder.replace(range, edit.text);
+                }
             });
             
             setTimeout(() => { isProcessingChange = false; }, 200);
@@ -1647,127 +1077,6 @@ async function autoGeneratePrototypes(document: vscode.TextDocument) {
     }
 }
 
-// ============================================================================
-// DIAGNOSTICS (WARNINGS AND SUGGESTIONS)
-// ============================================================================
-
-function runDiagnostics(document: vscode.TextDocument) {
-    if (!diagnosticCollection) {
-        console.warn('Diagnostic collection not initialized');
-        return;
-    }
-    
-    try {
-        const diagnostics: vscode.Diagnostic[] = [];
-        const text = document.getText();
-        const lines = text.split('\n');
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-
-            // Check for unsafe functions
-            checkUnsafeFunctions(line, i, diagnostics);
-            
-            // Check for assignment in conditional
-            checkAssignmentInConditional(line, i, diagnostics);
-            
-            // Check for memory allocation without free
-            checkMemoryAllocation(line, i, diagnostics);
-            
-            // Check for fopen without NULL check
-            checkFopenWithoutNullCheck(lines, line, i, diagnostics);
-        }
-
-        diagnosticCollection.set(document.uri, diagnostics);
-    } catch (error) {
-        console.error('Error running diagnostics:', error);
-    }
-}
-
-function checkUnsafeFunctions(line: string, lineNumber: number, diagnostics: vscode.Diagnostic[]) {
-    // Skip comments and strings
-    const trimmed = line.trim();
-    if (trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*')) {
-        return;
-    }
-    
-    for (const [unsafeFunc, safeFunc] of Object.entries(UNSAFE_FUNCTIONS)) {
-        if (line.includes(unsafeFunc + '(')) {
-            // Make sure it's not in a comment
-            const commentIndex = line.indexOf('//');
-            const funcIndex = line.indexOf(unsafeFunc);
-            if (commentIndex !== -1 && funcIndex > commentIndex) {
-                continue; // Skip if in comment
-            }
-            
-            const range = new vscode.Range(lineNumber, funcIndex, lineNumber, funcIndex + unsafeFunc.length);
-            diagnostics.push(new vscode.Diagnostic(
-                range,
-                `Unsafe function '${unsafeFunc}'. Consider using '${safeFunc}' instead.`,
-                vscode.DiagnosticSeverity.Warning
-            ));
-        }
-    }
-}
-
-function checkAssignmentInConditional(line: string, lineNumber: number, diagnostics: vscode.Diagnostic[]) {
-    // Skip comments
-    const commentIndex = line.indexOf('//');
-    const checkLine = commentIndex !== -1 ? line.substring(0, commentIndex) : line;
-    
-    if (/if\s*\([^)]*[^=!<>]=(?!=)[^)]*\)/.test(checkLine)) {
-        const index = checkLine.indexOf('if');
-        const range = new vscode.Range(lineNumber, index, lineNumber, checkLine.length);
-        diagnostics.push(new vscode.Diagnostic(
-            range,
-            'Possible assignment instead of comparison in conditional statement',
-            vscode.DiagnosticSeverity.Warning
-        ));
-    }
-}
-
-function checkMemoryAllocation(line: string, lineNumber: number, diagnostics: vscode.Diagnostic[]) {
-    // Skip comments
-    const commentIndex = line.indexOf('//');
-    const checkLine = commentIndex !== -1 ? line.substring(0, commentIndex) : line;
-    
-    if (/\b(malloc|calloc|realloc)\s*\(/.test(checkLine)) {
-        const match = checkLine.match(/\b(malloc|calloc|realloc)/);
-        if (match) {
-            const index = checkLine.indexOf(match[0]);
-            const range = new vscode.Range(lineNumber, index, lineNumber, checkLine.length);
-            diagnostics.push(new vscode.Diagnostic(
-                range,
-                'Remember to free allocated memory to prevent memory leaks',
-                vscode.DiagnosticSeverity.Information
-            ));
-        }
-    }
-}
-
-function checkFopenWithoutNullCheck(lines: string[], line: string, lineNumber: number, diagnostics: vscode.Diagnostic[]) {
-    // Skip comments
-    const commentIndex = line.indexOf('//');
-    const checkLine = commentIndex !== -1 ? line.substring(0, commentIndex) : line;
-    
-    if (checkLine.includes('fopen(')) {
-        const nextLines = lines.slice(lineNumber + 1, Math.min(lineNumber + 5, lines.length)).join('\n');
-        // Check for NULL check or error handling
-        const hasNullCheck = /\bNULL\b/.test(nextLines) || /\b!=\s*NULL|==\s*NULL\b/.test(nextLines);
-        const hasErrorHandling = /\bif\s*\(/.test(nextLines) || /perror/.test(nextLines);
-        
-        if (!hasNullCheck && !hasErrorHandling) {
-            const index = checkLine.indexOf('fopen');
-            const range = new vscode.Range(lineNumber, index, lineNumber, checkLine.length);
-            diagnostics.push(new vscode.Diagnostic(
-                range,
-                'Consider checking if fopen() returned NULL before using the file pointer',
-                vscode.DiagnosticSeverity.Information
-            ));
-        }
-    }
-}
-
 // ============================================================================
 // COMPILATION COMMANDS
 // ============================================================================
@@ -1795,42 +1104,157 @@ function compileCurrentFile() {
     }
 }
 
-function executeCompile(editor: vscode.TextEditor) {
+async function executeCompile(editor: vscode.TextEditor, mode: BuildMode = getConfig().buildMode) {
     try {
         const filePath = editor.document.uri.fsPath;
         const fileName = path.basename(filePath, '.c');
-        const fileDir = path.dirname(filePath);
-        const outputPath = path.join(fileDir, `${fileName}.exe`);
 
         // Validate paths exist
-        if (!filePath || !fileDir) {
+        if (!filePath) {
             vscode.window.showErrorMessage('Invalid file path');
             return;
         }
 
-        // Reuse existing terminal if available, otherwise create a new one
-        if (!cCompilerTerminal || cCompilerTerminal.exitStatus !== undefined) {
-            cCompilerTerminal = vscode.window.createTerminal('C Compiler');
-        }
-        cCompilerTerminal.show();
-        
-        // Platform-specific compilation command
-        const isWindows = process.platform === 'win32';
-        let compileCmd: string;
-        
-        if (isWindows) {
-            compileCmd = `clang "${filePath}" -o "${outputPath}" 2>nul || gcc "${filePath}" -o "${outputPath}"`;
-        } else {
-            compileCmd = `clang "${filePath}" -o "${outputPath}" 2>/dev/null || gcc "${filePath}" -o "${outputPath}"`;
+        vscode.window.setStatusBarMessage(mode === 'project' ? 'Building project...' : `Compiling ${fileName}.c...`, 2000);
+        const result = await buildForFile(filePath, mode);
+        if (result.success) {
+            vscode.window.showInformationMessage(result.summary);
         }
-        
-        cCompilerTerminal.sendText(compileCmd);
-        vscode.window.showInformationMessage(`Compiling ${fileName}.c → ${fileName}.exe`);
     } catch (error) {
         vscode.window.showErrorMessage(`Compilation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 }
 
+interface BuildOutcome {
+    success: boolean;
+    outputPath: string;
+    /** One-line description of what was built, shown on success */
+    summary: string;
+}
+
+/**
+ * Builds the given file on its own, or the whole project containing it in project mode
+ * @param profile Profile to build with instead of the active one
+ */
+async function buildForFile(filePath: string, mode: BuildMode = getConfig().buildMode, profile?: BuildProfile): Promise<BuildOutcome> {
+    const buildSystem = getBuildSystem(filePath);
+    if (buildSystem) {
+        return buildWithDetectedBuildSystem(buildSystem, filePath, profile);
+    }
+
+    if (mode === 'project') {
+        return buildProjectForFile(filePath, profile);
+    }
+
+    const result = await buildSingleFile(filePath, profile);
+    return {
+        success: result.success,
+        outputPath: result.outputPath,
+        summary: `Compiled ${path.basename(filePath)} → ${path.basename(result.outputPath)} (${result.profile})`
+    };
+}
+
+async function buildProjectForFile(filePath: string, profile?: BuildProfile): Promise<BuildOutcome> {
+    try {
+        const result = await buildProject(filePath, profile);
+        const compiled = result.files.filter(file => file.status === 'compiled').length;
+        const failed = result.files.filter(file => file.status === 'failed');
+
+        if (!result.success) {
+            const summary = failed.length > 0
+                ? `${failed.map(file => path.basename(file.source)).join(', ')} did not compile`
+                : 'linking failed';
+            showBuildFailure(`Build of ${path.basename(result.outputPath)} failed: ${summary}`);
+        }
+
+        return {
+            success: result.success,
+            outputPath: result.outputPath,
+            summary: `Built ${path.basename(result.outputPath)}: ${compiled} compiled, ${result.files.length - compiled} up to date`
+        };
+    } catch (error) {
+        vscode.window.showErrorMessage(`Project build error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return { success: false, outputPath: '', summary: '' };
+    }
+}
+
+async function buildWithDetectedBuildSystem(buildSystem: BuildSystem, filePath: string, profile?: BuildProfile): Promise<BuildOutcome> {
+    try {
+        const result = await buildWithBuildSystem(buildSystem, filePath, profile);
+        const targetName = result.target || 'default target';
+
+        if (!result.success) {
+            const errorCount = result.messages.filter(m => m.severity === 'error').length;
+            showBuildFailure(`${buildSystem.kind} ${targetName} failed${errorCount > 0 ? `: ${errorCount} error(s)` : ''}`);
+        }
+
+        return {
+            success: result.success,
+            outputPath: result.executable || '',
+            summary: `Built ${targetName} with ${buildSystem.kind}`
+        };
+    } catch (error) {
+        vscode.window.showErrorMessage(`Build error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return { success: false, outputPath: '', summary: '' };
+    }
+}
+
+function showBuildFailure(message: string) {
+    vscode.window.showErrorMessage(message, 'Show Output').then(choice => {
+        if (choice === 'Show Output') {
+            getBuildOutputChannel().show(true);
+        }
+    });
+}
+
+interface SingleFileBuildResult extends CompileResult {
+    outputPath: string;
+    /** Name of the build profile used */
+    profile: string;
+}
+
+/**
+ * Compiles a single source file with the given or active build profile.
+ * Errors and warnings are published to the Problems panel.
+ */
+async function buildSingleFile(filePath: string, profile: BuildProfile = getActiveBuildProfile(filePath)): Promise<SingleFileBuildResult> {
+    const compilerPath = getProfileCompiler(profile);
+    const projectRoot = getProjectRoot(filePath);
+    const outputPath = getExecutablePath(profile, path.basename(filePath, '.c'), projectRoot, path.dirname(filePath));
+
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    const args = getCompilerArgs(profile, [filePath], outputPath, projectRoot);
+    const result = { ...await compile(compilerPath, args, path.dirname(filePath)), outputPath, profile: profile.name };
+    if (result.success) {
+        recordBuildOutput(outputPath);
+    }
+
+    if (result.spawnError) {
+        vscode.window.showErrorMessage(`Could not run the C compiler '${compilerPath}'. Install it or set "c-helper.compilerPath".`);
+    } else if (!result.success) {
+        const errorCount = result.messages.filter(m => m.severity === 'error').length;
+        const summary = errorCount > 0 ? `${errorCount} error(s)` : 'see output for details';
+        showBuildFailure(`Compilation of ${path.basename(filePath)} failed: ${summary}`);
+    }
+
+    return result;
+}
+
+function buildCurrentProject() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'c') {
+        vscode.window.showErrorMessage('No C file is currently open');
+        return;
+    }
+
+    // Save every file of the project, not only the active one
+    Promise.resolve(vscode.workspace.saveAll(false)).then(() => {
+        executeCompile(editor, 'project');
+    }).catch(error => {
+        vscode.window.showErrorMessage(`Failed to save files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+}
+
 function compileAndRunCurrentFile() {
     try {
         const editor = vscode.window.activeTextEditor;
@@ -1854,38 +1278,27 @@ function compileAndRunCurrentFile() {
     }
 }
 
-function executeCompileAndRun(editor: vscode.TextEditor) {
+async function executeCompileAndRun(editor: vscode.TextEditor) {
     try {
         const filePath = editor.document.uri.fsPath;
-        const fileName = path.basename(filePath, '.c');
-        const fileDir = path.dirname(filePath);
-        const outputPath = path.join(fileDir, `${fileName}.exe`);
 
         // Validate paths exist
-        if (!filePath || !fileDir) {
+        if (!filePath) {
             vscode.window.showErrorMessage('Invalid file path');
             return;
         }
 
-        // Reuse existing terminal if available, otherwise create a new one
-        if (!cCompilerTerminal || cCompilerTerminal.exitStatus !== undefined) {
-            cCompilerTerminal = vscode.window.createTerminal('C Compiler');
+        const result = await buildForFile(filePath);
+        if (!result.success) {
+            return;
         }
-        cCompilerTerminal.show();
-        
-        // Platform-specific compilation and run command
-        const isWindows = process.platform === 'win32';
-        let compileRunCmd: string;
-        
-        if (isWindows) {
-            // Windows: use && instead of || for sequential execution
-            compileRunCmd = `clang "${filePath}" -o "${outputPath}" 2>nul || gcc "${filePath}" -o "${outputPath}" && "${outputPath}"`;
-        } else {
-            // Unix-like systems
-            compileRunCmd = `(clang "${filePath}" -o "${outputPath}" 2>/dev/null || gcc "${filePath}" -o "${outputPath}") && "${outputPath}"`;
+        if (!result.outputPath) {
+            vscode.window.showWarningMessage(`${result.summary}, but the program to run could not be determined. Select a target with "Lazy C: Select Build Target".`);
+            return;
         }
-        
-        cCompilerTerminal.sendText(compileRunCmd);
+
+        // Arguments, environment and stdin come from the selected run configuration
+        runInTerminal(result.outputPath, filePath);
     } catch (error) {
         vscode.window.showErrorMessage(`Compilation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1927,24 +1340,20 @@ function generateFunctionDoc() {
         }
 
         const position = editor.selection.active;
-        const line = editor.document.lineAt(position.line);
-        const text = line.text;
-
-        const functionMatch = text.match(/(\w+)\s+(\w+)\s*\(([^)]*)\)/);
-        if (!functionMatch) {
+        const func = findFunctionAtLine(parseC(editor.document.getText()), position.line);
+        if (!func) {
             vscode.window.showErrorMessage('Place cursor on a function declaration to generate documentation');
             return;
         }
 
-        const [, returnType, functionName, params] = functionMatch;
-        const parameterList = params.split(',').map(p => p.trim()).filter(p => p);
+        const returnType = func.returnType.split(' ').filter(word => !func.specifiers.includes(word)).join(' ');
 
         let documentation = '/**\n';
-        documentation += ` * @brief Brief description of ${functionName}\n`;
+        documentation += ` * @brief Brief description of ${func.name}\n`;
         documentation += ' *\n';
         
-        for (const param of parameterList) {
-            const paramName = param.split(/\s+/).pop() || '';
+        for (const param of func.parameters) {
+            const paramName = param.name || param.text;
             documentation += ` * @param ${paramName} Description of ${paramName}\n`;
         }
         
@@ -1955,7 +1364,7 @@ function generateFunctionDoc() {
         documentation += ' */\n';
 
         const editPromise = editor.edit(editBuilder => {
-            editBuilder.insert(new vscode.Position(position.line, 0), documentation);
+            editBuilder.insert(new vscode.Position(func.line, 0), documentation);
         });
         
         if (editPromise && typeof editPromise.then === 'function') {
@@ -1972,6 +1381,13 @@ function generateFunctionDoc() {
     }
 }
 
+/**
+ * Returns the function whose declaration or body covers the line
+ */
+function findFunctionAtLine(unit: CTranslationUnit, line: number): CFunction | undefined {
+    return unit.functions.find(func => func.line <= line && line <= (func.bodyEndLine ?? func.declaratorEndLine));
+}
+
 // ============================================================================
 // C LIBRARY REFERENCE PANEL
 // ============================================================================
@@ -2026,7 +1442,7 @@ function handleSearchMessage(message: any) {
                 return;
             }
             
-            const results = Object.values(LIBRARY_DATABASE).filter((func: any) => {
+            const results = getLibraryEntries().filter((func: any) => {
                 if (!func || typeof func !== 'object') {
                     return false;
                 }
@@ -2314,6 +1730,10 @@ function getSearchPanelHTML(): string {
                     }
                 });
 
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                }
+
                 function displayResults(results) {
                     try {
                         if (!results || results.length === 0) {
@@ -2327,12 +1747,12 @@ function getSearchPanelHTML(): string {
                                 
                                 return \`
                                     <div class="function-card">
-                                        <div class="function-name">\${func.name || 'Unknown'}()</div>
-                                        <div class="function-header">Header: &lt;\${func.header || 'unknown.h'}&gt;</div>
+                                        <div class="function-name">\${escapeHtml(func.name || 'Unknown')}()</div>
+                                        <div class="function-header">Header: &lt;\${escapeHtml(func.header || 'unknown.h')}&gt;</div>
                                         
-                                        <div class="function-prototype">\${func.prototype || ''}</div>
+                                        <div class="function-prototype">\${escapeHtml(func.prototype || '')}</div>
 
-                                        <div class="function-description">\${func.description || ''}</div>
+                                        <div class="function-description">\${escapeHtml(func.description || '')}</div>
 
                                         \${func.parameters && func.parameters.length > 0 ? \`
                                             <div class="section">
@@ -2342,7 +1762,7 @@ function getSearchPanelHTML(): string {
                                                         if (!p) return '';
                                                         return \`
                                                             <div class="parameter-item">
-                                                                <span class="parameter-name">\${p.name || 'param'}</span> (\${p.type || 'unknown'}): \${p.description || ''}
+                                                                <span class="parameter-name">\${escapeHtml(p.name || 'param')}</span> (\${escapeHtml(p.type || 'unknown')}): \${escapeHtml(p.description || '')}
                                                             </div>
                                                         \`;
                                                     }).join('')}
@@ -2352,18 +1772,18 @@ function getSearchPanelHTML(): string {
 
                                         <div class="section">
                                             <div class="section-title">↩️ Return Value</div>
-                                            <div class="return-value">\${func.returnValue || ''}</div>
+                                            <div class="return-value">\${escapeHtml(func.returnValue || '')}</div>
                                         </div>
 
                                         <div class="section">
                                             <div class="section-title">💻 Example</div>
-                                            <div class="example">\${func.example || ''}</div>
+                                            <div class="example">\${escapeHtml(func.example || '')}</div>
                                         </div>
 
                                         \${func.notes ? \`
                                             <div class="section">
                                                 <div class="section-title">⚠️ Notes</div>
-                                                <div class="notes">\${func.notes}</div>
+                                                <div class="notes">\${escapeHtml(func.notes)}</div>
                                             </div>
                                         \` : ''}
 
@@ -2371,7 +1791,7 @@ function getSearchPanelHTML(): string {
                                             <div class="section">
                                                 <div class="section-title">🔗 Related Functions</div>
                                                 <div class="related-functions">
-                                                    \${func.relatedFunctions.map(f => \`<span>\${f || ''}</span>\`).join('')}
+                                                    \${func.relatedFunctions.map(f => \`<span>\${escapeHtml(f || '')}</span>\`).join('')}
                                                 </div>
                                             </div>
                                         \` : ''}
@@ -2394,7 +1814,7 @@ function getSearchPanelHTML(): string {
 }
 
 async function searchReference(query: string, context?: vscode.ExtensionContext) {
-    const results = Object.values(LIBRARY_DATABASE).filter((func: any) =>
+    const results = getLibraryEntries().filter((func: any) =>
         func.name.toLowerCase().includes(query.toLowerCase())
     );
 
@@ -0,0 +1,132 @@
+/**
+ * Header inference
+ * Works out which standard headers a C file is missing from the library functions it
+ * calls, and where a new #include belongs in the file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { tokenize, getDirectiveName, Token } from './cLexer';
+import { parseC, CTranslationUnit } from './cParser';
+import { collectDependencies } from './projectBuild';
+
+/** What a file already has available: included headers and names it declares itself */
+export interface IncludedContext {
+    /** Header names included directly or through the file's own quoted headers */
+    headers: Set<string>;
+    /** Functions, macros, typedefs and variables declared in the file or its quoted headers */
+    declaredNames: Set<string>;
+}
+
+function addDeclarations(unit: CTranslationUnit, context: IncludedContext) {
+    unit.includes.forEach(include => context.headers.add(include.header));
+    unit.functions.forEach(func => context.declaredNames.add(func.name));
+    unit.macros.forEach(macro => context.declaredNames.add(macro.name));
+    unit.typedefs.forEach(name => context.declaredNames.add(name));
+    unit.variables.forEach(name => context.declaredNames.add(name));
+}
+
+/**
+ * Resolves the quoted includes of a file to header files on disk, next to the file first
+ * and then in the include dirs, together with the quoted headers they include in turn
+ */
+export function findQuotedHeaderFiles(unit: CTranslationUnit, filePath: string, includeDirs: string[]): string[] {
+    const headerFiles = new Set<string>();
+    for (const include of unit.includes.filter(include => !include.system)) {
+        const candidates = [path.dirname(filePath), ...includeDirs].map(dir => path.resolve(dir, include.header));
+        const resolved = candidates.find(candidate => fs.existsSync(candidate));
+        if (resolved && !headerFiles.has(resolved)) {
+            headerFiles.add(resolved);
+            collectDependencies(resolved, includeDirs).forEach(dependency => headerFiles.add(dependency));
+        }
+    }
+    return Array.from(headerFiles);
+}
+
+/**
+ * Collects the headers and declarations available to a file, including those of its own
+ * quoted headers, so a "common.h" that includes <stdio.h> counts
+ * @param filePath Path of the file, or undefined for unsaved files
+ */
+export function getIncludedContext(unit: CTranslationUnit, filePath: string | undefined, includeDirs: string[]): IncludedContext {
+    const context: IncludedContext = { headers: new Set(), declaredNames: new Set() };
+    addDeclarations(unit, context);
+    if (!filePath) {
+        return context;
+    }
+
+    for (const headerFile of findQuotedHeaderFiles(unit, filePath, includeDirs)) {
+        try {
+            addDeclarations(parseC(fs.readFileSync(headerFile, 'utf8')), context);
+        } catch {
+            // An unreadable header simply contributes nothing
+        }
+    }
+    return context;
+}
+
+/**
+ * Returns the standard headers needed by calls in the file that are not included yet.
+ * Calls in comments and strings do not count, and neither do names the file or its
+ * own headers declare, such as a local function called "log".
+ */
+export function findMissingHeaders(unit: CTranslationUnit, functionToHeader: { [name: string]: string }, context: IncludedContext): string[] {
+    const missing = new Set<string>();
+    for (const call of unit.calls) {
+        if (!Object.prototype.hasOwnProperty.call(functionToHeader, call.name) || context.declaredNames.has(call.name)) {
+            continue;
+        }
+        const header = functionToHeader[call.name];
+        if (!context.headers.has(header)) {
+            missing.add(header);
+        }
+    }
+    return Array.from(missing).sort();
+}
+
+function isDirective(token: Token | undefined, name: string): boolean {
+    return !!token && token.kind === 'preprocessor' && getDirectiveName(token) === name;
+}
+
+/**
+ * Returns the 0-based line a new #include goes on: after the last #include, otherwise
+ * inside an include guard or after "#pragma once", otherwise after a leading file comment
+ */
+export function findIncludeInsertionLine(text: string): number {
+    const tokens = tokenize(text);
+
+    const includes = tokens.filter(token => isDirective(token, 'include'));
+    if (includes.length > 0) {
+        return includes[includes.length - 1].endLine + 1;
+    }
+
+    let index = 0;
+    let line = 0;
+    // A comment block at the top is a file comment when a blank line or a directive follows it;
+    // a comment directly above a declaration documents that declaration
+    while (tokens[index]?.kind === 'comment') {
+        index++;
+    }
+    if (index > 0) {
+        const commentEnd = tokens[index - 1].endLine;
+        const next = tokens[index];
+        if (!next || next.kind === 'preprocessor' || next.line > commentEnd + 1) {
+            line = commentEnd + 1;
+        } else {
+            index = 0;
+        }
+    }
+
+    const code = tokens.filter((token, tokenIndex) => tokenIndex >= index && token.kind !== 'comment');
+    if (isDirective(code[0], 'pragma') && /^#\s*pragma\s+once\b/.test(code[0].text)) {
+        return code[0].endLine + 1;
+    }
+    if (isDirective(code[0], 'ifndef') && isDirective(code[1], 'define')) {
+        const guard = code[0].text.replace(/^#\s*ifndef\s+/, '').trim();
+        const defined = code[1].text.replace(/^#\s*define\s+/, '').trim();
+        if (guard && guard === defined) {
+            return code[1].endLine + 1;
+        }
+    }
+    return line;
+}
@@ -0,0 +1,340 @@
+/**
+ * Header/source pairing
+ * Creates "foo.h" from "foo.c", keeps the managed prototype block of the header in step
+ * with the definitions in the source, and switches between the two
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tokenize } from './cLexer';
+import { parseC, CTranslationUnit, CTypeDeclaration } from './cParser';
+import { getConfig, HeaderGuardStyle } from './config';
+import { getProjectRoot } from './projectConfig';
+import { getActiveBuildProfile, getProfileIncludeDirs } from './buildProfiles';
+import { findIncludeInsertionLine, findQuotedHeaderFiles } from './headerInference';
+import {
+    TextEdit, HEADER_BLOCK_BEGIN, HEADER_BLOCK_END, computeHeaderBlockEdit, getPairedHeaderName, getPublicPrototypes,
+    toLineRange, lineOffset
+} from './prototypes';
+
+/** A quoted include of the source with the names its header (and what it includes) declares */
+export interface QuotedHeaderDeclarations {
+    header: string;
+    declaredNames: Set<string>;
+}
+
+export interface GeneratedHeader {
+    headerText: string;
+    /** Edits to the source: moved declarations removed, the new #include added */
+    sourceEdits: TextEdit[];
+}
+
+// Standard headers a generated header needs for the types its declarations mention
+const TYPE_HEADERS: { [type: string]: string } = {
+    size_t: 'stddef.h', ptrdiff_t: 'stddef.h', FILE: 'stdio.h', bool: 'stdbool.h',
+    time_t: 'time.h', clock_t: 'time.h', va_list: 'stdarg.h'
+};
+const STDINT_TYPE_PATTERN = /^u?int(?:_least|_fast)?(?:8|16|32|64|ptr|max)_t$/;
+
+export function registerHeaderPairing(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c-helper.createHeader', createHeader),
+        vscode.commands.registerCommand('c-helper.switchHeaderSource', switchHeaderSource)
+    );
+}
+
+/**
+ * Returns the include guard macro of a header, e.g. "MY_LIST_H" for "my-list.h"
+ */
+export function getGuardName(headerName: string): string {
+    const name = headerName.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Returns the type declarations a header has to carry for the public prototypes: those
+ * the prototypes mention, and the types and macros those refer to in turn
+ */
+function findPublicTypes(unit: CTranslationUnit, prototypes: string[]): CTypeDeclaration[] {
+    const referenced = new Set<string>();
+    prototypes.forEach(prototype => tokenize(prototype)
+        .filter(token => token.kind === 'identifier')
+        .forEach(token => referenced.add(token.text)));
+
+    const selected = new Set<CTypeDeclaration>();
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const type of unit.types) {
+            if (!selected.has(type) && type.names.some(name => referenced.has(name))) {
+                selected.add(type);
+                type.references.forEach(name => referenced.add(name));
+                changed = true;
+            }
+        }
+    }
+    return unit.types.filter(type => selected.has(type));
+}
+
+/**
+ * Reads what the quoted includes of a source declare, so the generated header can include
+ * the project headers its declarations use. Headers that cannot be found declare nothing.
+ */
+export function readQuotedHeaderDeclarations(unit: CTranslationUnit, sourcePath: string, includeDirs: string[]): QuotedHeaderDeclarations[] {
+    return unit.includes.filter(include => !include.system).map(include => {
+        const declaredNames = new Set<string>();
+        for (const headerFile of findQuotedHeaderFiles({ ...unit, includes: [include] }, sourcePath, includeDirs)) {
+            try {
+                const header = parseC(fs.readFileSync(headerFile, 'utf8'));
+                header.functions.forEach(func => declaredNames.add(func.name));
+                header.macros.forEach(macro => declaredNames.add(macro.name));
+                header.typedefs.forEach(name => declaredNames.add(name));
+                header.types.forEach(type => type.names.forEach(name => declaredNames.add(name)));
+            } catch {
+                // An unreadable header simply contributes nothing
+            }
+        }
+        return { header: include.header, declaredNames };
+    });
+}
+
+/**
+ * Builds the header of a source file: a guard, the standard headers its types need and
+ * the project headers declaring the other names it uses, the public types (moved out of
+ * the source, with the macros they use) and a managed block with the prototypes of all
+ * non-static functions
+ * @param quotedHeaders What the source's quoted includes declare
+ */
+export function generateHeader(
+    sourceText: string,
+    unit: CTranslationUnit,
+    headerName: string,
+    style: HeaderGuardStyle,
+    quotedHeaders: QuotedHeaderDeclarations[] = []
+): GeneratedHeader {
+    const prototypes = getPublicPrototypes(unit);
+    const types = findPublicTypes(unit, prototypes);
+    const typeReferences = new Set(types.flatMap(type => type.references));
+    const macros = unit.macros.filter(macro => typeReferences.has(macro.name));
+
+    const mentioned = new Set<string>();
+    [...prototypes, ...types.map(type => sourceText.substring(type.start, type.end))].forEach(text => tokenize(text)
+        .filter(token => token.kind === 'identifier')
+        .forEach(token => mentioned.add(token.text)));
+    const systemHeaders = Array.from(new Set(Array.from(mentioned)
+        .map(name => TYPE_HEADERS[name] || (STDINT_TYPE_PATTERN.test(name) ? 'stdint.h' : ''))
+        .filter(header => header)))
+        .sort();
+    // Names the header declares itself need no include
+    const ownNames = new Set([...types.flatMap(type => type.names), ...macros.map(macro => macro.name)]);
+    const projectHeaders = quotedHeaders
+        .filter(quoted => path.basename(quoted.header) !== headerName
+            && Array.from(quoted.declaredNames).some(name => mentioned.has(name) && !ownNames.has(name)))
+        .map(quoted => quoted.header);
+
+    const sections = [
+        [...systemHeaders.map(header => `#include <${header}>`), ...projectHeaders.map(header => `#include "${header}"`)].join('\n'),
+        macros.map(macro => sourceText.substring(macro.start, macro.end)).join('\n'),
+        types.map(type => sourceText.substring(type.start, type.end)).join('\n\n'),
+        [HEADER_BLOCK_BEGIN, ...prototypes, HEADER_BLOCK_END].join('\n')
+    ].filter(section => section);
+
+    const guard = getGuardName(headerName);
+    const headerText = style === 'pragmaOnce'
+        ? ['#pragma once', ...sections].join('\n\n') + '\n'
+        : [`#ifndef ${guard}\n#define ${guard}`, ...sections, `#endif /* ${guard} */`].join('\n\n') + '\n';
+
+    // The moved declarations and the public prototypes now come from the header
+    const publicNames = new Set(unit.functions.filter(func => func.isDefinition && !func.specifiers.includes('static')).map(func => func.name));
+    const removed = [
+        ...macros,
+        ...types,
+        ...unit.functions.filter(func => !func.isDefinition && publicNames.has(func.name))
+    ];
+    const sourceEdits: TextEdit[] = removed.map(declaration => {
+        const [start, lineEnd] = toLineRange(sourceText, declaration.start, declaration.end);
+        let end = lineEnd;
+        // Take a following blank line along when one precedes, so no double gap is left behind
+        const followingBlank = sourceText.substring(end).match(/^[ \t]*\r?\n/);
+        if (followingBlank && (start === 0 || /\n[ \t]*\r?\n$/.test(sourceText.substring(0, start)))) {
+            end += followingBlank[0].length;
+        }
+        return { start, end, text: '' };
+    });
+
+    const includeText = `#include "${headerName}"\n`;
+    const includeOffset = lineOffset(sourceText, findIncludeInsertionLine(sourceText));
+    // An edit that starts where the include goes takes the include along, so edits never touch
+    const touching = sourceEdits.find(edit => edit.start === includeOffset);
+    if (touching) {
+        touching.text = includeText;
+    } else {
+        const separator = includeOffset === sourceText.length && sourceText.length > 0 && !sourceText.endsWith('\n') ? '\n' : '';
+        sourceEdits.push({ start: includeOffset, end: includeOffset, text: separator + includeText });
+    }
+
+    return { headerText, sourceEdits: sourceEdits.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Returns the header next to a source file that the source includes, e.g. "list.h" for a
+ * "list.c" with #include "list.h"; undefined when either is missing
+ */
+export function findPairedHeader(sourcePath: string, unit: CTranslationUnit): string | undefined {
+    const headerName = getPairedHeaderName(sourcePath);
+    const headerPath = path.join(path.dirname(sourcePath), headerName);
+    const isIncluded = unit.includes.some(include => !include.system && path.basename(include.header) === headerName);
+    return isIncluded && fs.existsSync(headerPath) ? headerPath : undefined;
+}
+
+function hasManagedBlock(headerPath: string): boolean {
+    try {
+        return fs.readFileSync(headerPath, 'utf8').includes(HEADER_BLOCK_BEGIN);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * True when the prototypes of public functions in the document belong in its paired
+ * header: the setting is on, or the header already has a managed block
+ */
+export function isPairedHeaderManaged(document: vscode.TextDocument, unit: CTranslationUnit): boolean {
+    if (document.isUntitled || path.extname(document.fileName) !== '.c') {
+        return false;
+    }
+    const headerPath = findPairedHeader(document.uri.fsPath, unit);
+    return !!headerPath && (getConfig().prototypeHeader || hasManagedBlock(headerPath));
+}
+
+/**
+ * Rewrites the prototype block of the paired header from the source's public functions.
+ * A header that had no unsaved changes is saved again afterwards.
+ * @param force Add the block even when the header is not managed yet
+ */
+export async function syncPairedHeader(document: vscode.TextDocument, force = false) {
+    const unit = parseC(document.getText());
+    if (!force && !isPairedHeaderManaged(document, unit)) {
+        return;
+    }
+    const headerPath = findPairedHeader(document.uri.fsPath, unit);
+    if (!headerPath) {
+        return;
+    }
+
+    const headerDocument = await vscode.workspace.openTextDocument(headerPath);
+    const edit = computeHeaderBlockEdit(headerDocument.getText(), getPublicPrototypes(unit));
+    if (!edit) {
+        return;
+    }
+
+    const wasDirty = headerDocument.isDirty;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(
+        headerDocument.uri,
+        new vscode.Range(headerDocument.positionAt(edit.start), headerDocument.positionAt(edit.end)),
+        edit.text
+    );
+    if (await vscode.workspace.applyEdit(workspaceEdit) && !wasDirty) {
+        await headerDocument.save();
+    }
+}
+
+async function createHeader() {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || path.extname(editor.document.fileName) !== '.c') {
+            vscode.window.showErrorMessage('Open a .c file to create its header');
+            return;
+        }
+        const document = editor.document;
+        if (document.isUntitled) {
+            vscode.window.showErrorMessage('Save the file before creating its header');
+            return;
+        }
+
+        const sourcePath = document.uri.fsPath;
+        const headerName = getPairedHeaderName(sourcePath);
+        const headerPath = path.join(path.dirname(sourcePath), headerName);
+        const text = document.getText();
+        const unit = parseC(text);
+
+        if (fs.existsSync(headerPath)) {
+            // Keep the existing header; include it and bring its prototypes up to date
+            if (!unit.includes.some(include => !include.system && path.basename(include.header) === headerName)) {
+                const line = findIncludeInsertionLine(text);
+                await editor.edit(editBuilder => editBuilder.insert(new vscode.Position(line, 0), `#include "${headerName}"\n`));
+            }
+            await syncPairedHeader(document, true);
+            vscode.window.showInformationMessage(`${headerName} already exists; its prototypes were updated`);
+        } else {
+            const includeDirs = getProfileIncludeDirs(getActiveBuildProfile(sourcePath), getProjectRoot(sourcePath));
+            const quotedHeaders = readQuotedHeaderDeclarations(unit, sourcePath, includeDirs);
+            const { headerText, sourceEdits } = generateHeader(text, unit, headerName, getConfig().headerGuardStyle, quotedHeaders);
+            fs.writeFileSync(headerPath, headerText);
+            await editor.edit(editBuilder => {
+                for (const edit of sourceEdits) {
+                    editBuilder.replace(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text);
+                }
+            });
+        }
+
+        const headerDocument = await vscode.workspace.openTextDocument(headerPath);
+        await vscode.window.showTextDocument(headerDocument, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error creating header: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Finds the other half of a header/source pair: next to the file first, then anywhere in
+ * the workspace (for layouts with separate include/ and src/ folders)
+ */
+async function findCounterpart(filePath: string): Promise<string | undefined> {
+    const extension = path.extname(filePath) === '.c' ? '.h' : '.c';
+    const name = path.basename(filePath, path.extname(filePath)) + extension;
+    const sibling = path.join(path.dirname(filePath), name);
+    if (fs.existsSync(sibling)) {
+        return sibling;
+    }
+
+    const matches = await vscode.workspace.findFiles(`**/${name}`, '**/{node_modules,.git,build}/**', 20);
+    if (matches.length <= 1) {
+        return matches[0]?.fsPath;
+    }
+    const picked = await vscode.window.showQuickPick(
+        matches.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+        { placeHolder: `Several files are named ${name}` }
+    );
+    return picked?.uri.fsPath;
+}
+
+async function switchHeaderSource() {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        const extension = editor ? path.extname(editor.document.fileName) : '';
+        if (!editor || (extension !== '.c' && extension !== '.h')) {
+            vscode.window.showErrorMessage('Switch Header/Source works on .c and .h files');
+            return;
+        }
+
+        const counterpart = await findCounterpart(editor.document.uri.fsPath);
+        if (counterpart) {
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(counterpart));
+            return;
+        }
+
+        if (extension === '.c') {
+            const headerName = getPairedHeaderName(editor.document.fileName);
+            const choice = await vscode.window.showInformationMessage(`There is no ${headerName} yet`, 'Create Header');
+            if (choice === 'Create Header') {
+                await createHeader();
+            }
+        } else {
+            vscode.window.showInformationMessage(`No source file found for ${path.basename(editor.document.fileName)}`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error switching header/source: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
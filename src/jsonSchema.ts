@@ -0,0 +1,106 @@
+/**
+ * JSON schema validation
+ * Checks data files shipped with or written for the extension against the JSON schemas in
+ * "schemas/". Supports the subset of draft-07 those schemas use: type, enum, pattern,
+ * minLength, required, properties, additionalProperties, items, minItems and local $ref.
+ */
+
+export interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    enum?: unknown[];
+    pattern?: string;
+    minLength?: number;
+    required?: string[];
+    properties?: { [name: string]: JsonSchema };
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    definitions?: { [name: string]: JsonSchema };
+    [keyword: string]: unknown;
+}
+
+function typeOf(value: unknown): string {
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (value === null) {
+        return 'null';
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return 'integer';
+    }
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+    const match = /^#\/definitions\/(.+)$/.exec(ref);
+    return match ? root.definitions?.[match[1]] : undefined;
+}
+
+/**
+ * Validates a value against a schema and returns one message per problem, each starting
+ * with the path of the offending value (e.g. "functions[3].header"). Empty when valid.
+ * @param root Schema that "#/definitions/..." references resolve against
+ */
+export function validateJson(value: unknown, schema: JsonSchema, root: JsonSchema = schema, location = ''): string[] {
+    if (schema.$ref) {
+        const resolved = resolveRef(schema.$ref, root);
+        return resolved ? validateJson(value, resolved, root, location) : [`${location || '(root)'}: unknown reference ${schema.$ref}`];
+    }
+
+    const at = location || '(root)';
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+        }
+    }
+
+    const errors: string[] = [];
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${at}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${at}: must not be empty`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${at}: does not match ${schema.pattern}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${at}: needs at least ${schema.minItems} item(s)`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, root, `${location}[${index}]`)));
+        }
+    } else if (typeOf(value) === 'object') {
+        const object = value as { [name: string]: unknown };
+        for (const name of schema.required ?? []) {
+            if (!(name in object)) {
+                errors.push(`${at}: missing property "${name}"`);
+            }
+        }
+        for (const [name, propertyValue] of Object.entries(object)) {
+            const propertyLocation = location ? `${location}.${name}` : name;
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                errors.push(...validateJson(propertyValue, propertySchema, root, propertyLocation));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${at}: unknown property "${name}"`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJson(propertyValue, schema.additionalProperties, root, propertyLocation));
+            }
+        }
+    }
+    return errors;
+}
@@ -0,0 +1,244 @@
+/**
+ * Library completion
+ * Completes standard library functions from the reference with their parameters as
+ * snippet placeholders, adding the header they need, and shows the signature of the
+ * call being typed with the current parameter highlighted
+ */
+
+import * as vscode from 'vscode';
+import { tokenize, Token } from './cLexer';
+import { parseC, CFunction } from './cParser';
+import { getConfig } from './config';
+import { getProjectRoot } from './projectConfig';
+import { getActiveBuildProfile, getProfileIncludeDirs } from './buildProfiles';
+import { getIncludedContext, findIncludeInsertionLine, IncludedContext } from './headerInference';
+import { getLibraryEntry, getLibraryEntries, formatInclude, LibraryFunction, LibraryEntryKind } from './libraryDatabase';
+
+/** The call around the cursor */
+export interface ActiveCall {
+    name: string;
+    /** 0-based index of the argument the cursor is in */
+    activeParameter: number;
+}
+
+export interface SignatureLabel {
+    label: string;
+    /** Offsets of each parameter within the label */
+    parameters: { name?: string; start: number; end: number }[];
+    variadic: boolean;
+}
+
+const COMPLETION_KINDS: { [kind in LibraryEntryKind]: vscode.CompletionItemKind } = {
+    function: vscode.CompletionItemKind.Function,
+    macro: vscode.CompletionItemKind.Constant,
+    type: vscode.CompletionItemKind.Struct,
+    variable: vscode.CompletionItemKind.Variable
+};
+
+export function registerLibraryCompletion(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider({ language: 'c' }, { provideCompletionItems }),
+        vscode.languages.registerSignatureHelpProvider({ language: 'c' }, { provideSignatureHelp }, '(', ',')
+    );
+}
+
+function parsePrototype(func: LibraryFunction): CFunction | undefined {
+    return parseC(func.prototype).functions[0];
+}
+
+/**
+ * Returns the snippet a completion inserts, e.g. "memcpy(${1:dest}, ${2:src}, ${3:n})".
+ * Variadic arguments get no placeholder; the cursor ends up after the fixed ones. Names
+ * that are not called, such as EOF or size_t, are inserted as they are.
+ */
+export function toCompletionSnippet(func: LibraryFunction): string {
+    const prototype = parsePrototype(func);
+    if (!prototype) {
+        return func.name;
+    }
+    const parameters = prototype.parameters.filter(parameter => parameter.text !== '...');
+    const placeholders = parameters.map((parameter, index) => `\${${index + 1}:${parameter.name ?? parameter.text}}`);
+    return `${func.name}(${placeholders.join(', ')})$0`;
+}
+
+/**
+ * Returns the signature shown while typing a call, with the range of each parameter
+ */
+export function getSignatureLabel(func: LibraryFunction): SignatureLabel | undefined {
+    const prototype = parsePrototype(func);
+    if (!prototype) {
+        return undefined;
+    }
+    const label = prototype.signature;
+    const parameters: SignatureLabel['parameters'] = [];
+    let searchFrom = label.indexOf('(') + 1;
+    for (const parameter of prototype.parameters) {
+        const start = label.indexOf(parameter.text, searchFrom);
+        parameters.push({ name: parameter.name, start, end: start + parameter.text.length });
+        searchFrom = start + parameter.text.length;
+    }
+    return { label, parameters, variadic: prototype.parameters.some(parameter => parameter.text === '...') };
+}
+
+/** True when the end of the text lies in a comment, string, character literal or directive */
+function endsInsideLiteral(tokens: Token[], text: string): boolean {
+    const last = tokens[tokens.length - 1];
+    if (!last || last.end < text.length) {
+        return false;
+    }
+    switch (last.kind) {
+        case 'comment':
+            return last.text.startsWith('//') || !last.text.endsWith('*/') || last.text.length < 4;
+        case 'string':
+            return !/^[^"]*"(?:[^\\"]|\\[\s\S])*"$/.test(last.text);
+        case 'char':
+            return !/^[^']*'(?:[^\\']|\\[\s\S])*'$/.test(last.text);
+        case 'preprocessor':
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Finds the innermost unfinished call before an offset and the argument being typed
+ * in it. Nothing is returned inside comments, strings and directives.
+ */
+export function findActiveCall(text: string, offset: number): ActiveCall | undefined {
+    const prefix = text.substring(0, offset);
+    const tokens = tokenize(prefix);
+    if (endsInsideLiteral(tokens, prefix)) {
+        return undefined;
+    }
+    const code = tokens.filter(token => token.kind !== 'comment');
+
+    let depth = 0;
+    let commas = 0;
+    for (let i = code.length - 1; i >= 0; i--) {
+        const token = code[i];
+        if (token.kind !== 'punctuator') {
+            continue;
+        }
+        if (token.text === ')' || token.text === ']') {
+            depth++;
+        } else if (token.text === '[' || token.text === '{' || token.text === ';' || token.text === '}') {
+            if (depth === 0) {
+                // The cursor is in an index, a block or a new statement, not in an argument list
+                return undefined;
+            }
+            if (token.text === '[') {
+                depth--;
+            }
+        } else if (token.text === '(') {
+            if (depth > 0) {
+                depth--;
+                continue;
+            }
+            const name = code[i - 1];
+            if (name?.kind !== 'identifier') {
+                // A grouping or cast parenthesis; the call, if any, is further out
+                commas = 0;
+                continue;
+            }
+            return { name: name.text, activeParameter: commas };
+        } else if (token.text === ',' && depth === 0) {
+            commas++;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether completion offers a reference entry: names the file or its own headers declare
+ * are left out, unless they come from the entry's header, as with the functions of a
+ * team header described by a workspace reference file
+ */
+export function isCompletionOffered(func: LibraryFunction, included: IncludedContext): boolean {
+    return !included.declaredNames.has(func.name) || included.headers.has(func.header);
+}
+
+/** True when the position is in code, where a function name can be typed */
+function isInCode(document: vscode.TextDocument, position: vscode.Position): boolean {
+    const prefix = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+    return !endsInsideLiteral(tokenize(prefix), prefix);
+}
+
+function getMissingHeaderEdit(document: vscode.TextDocument, header: string, included: Set<string>): vscode.TextEdit[] {
+    if (included.has(header)) {
+        return [];
+    }
+    const line = findIncludeInsertionLine(document.getText());
+    if (line >= document.lineCount) {
+        return [vscode.TextEdit.insert(document.lineAt(document.lineCount - 1).range.end, `\n${formatInclude(header)}\n`)];
+    }
+    return [vscode.TextEdit.insert(new vscode.Position(line, 0), `${formatInclude(header)}\n`)];
+}
+
+function provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    try {
+        if (!isInCode(document, position)) {
+            return undefined;
+        }
+
+        const unit = parseC(document.getText());
+        const filePath = document.isUntitled ? undefined : document.uri.fsPath;
+        const includeDirs = filePath ? getProfileIncludeDirs(getActiveBuildProfile(filePath), getProjectRoot(filePath)) : [];
+        const included = getIncludedContext(unit, filePath, includeDirs);
+
+        return getLibraryEntries()
+            .filter(func => isCompletionOffered(func, included))
+            .map(func => {
+                const item = new vscode.CompletionItem(func.name, COMPLETION_KINDS[func.kind]);
+                const snippet = toCompletionSnippet(func);
+                item.detail = func.prototype;
+                item.documentation = new vscode.MarkdownString(`${func.description}\n\n\`${formatInclude(func.header)}\``);
+                item.insertText = new vscode.SnippetString(snippet);
+                if (getConfig().autoHeaders) {
+                    item.additionalTextEdits = getMissingHeaderEdit(document, func.header, included.headers);
+                }
+                if (snippet !== func.name) {
+                    item.command = { title: 'Trigger Parameter Hints', command: 'editor.action.triggerParameterHints' };
+                }
+                return item;
+            });
+    } catch (error) {
+        console.error('Error providing completions:', error);
+        return undefined;
+    }
+}
+
+function provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position): vscode.SignatureHelp | undefined {
+    try {
+        const call = findActiveCall(document.getText(), document.offsetAt(position));
+        const func = call && getLibraryEntry(call.name);
+        if (!func) {
+            return undefined;
+        }
+        const signature = getSignatureLabel(func);
+        if (!signature) {
+            return undefined;
+        }
+
+        const information = new vscode.SignatureInformation(signature.label, new vscode.MarkdownString(func.description));
+        information.parameters = signature.parameters.map(parameter => {
+            const documented = func.parameters.find(candidate => candidate.name === parameter.name);
+            return new vscode.ParameterInformation([parameter.start, parameter.end], documented?.description);
+        });
+
+        // Extra arguments of printf and friends stay on the "..." parameter
+        const last = information.parameters.length - 1;
+        const activeParameter = signature.variadic ? Math.min(call.activeParameter, last) : call.activeParameter;
+        if (!signature.variadic && activeParameter > last) {
+            return undefined;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [information];
+        help.activeSignature = 0;
+        help.activeParameter = activeParameter;
+        return help;
+    } catch (error) {
+        console.error('Error providing signature help:', error);
+        return undefined;
+    }
+}
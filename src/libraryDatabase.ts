@@ -0,0 +1,228 @@
+/**
+ * Standard library reference
+ * Documentation of the C standard library and POSIX names the extension knows about, and
+ * the header each one needs. The entries live in "data/c-library.json", are loaded at
+ * activation and checked against "schemas/library.schema.json". Workspaces can add their
+ * own entries in ".lazyc/reference/*.json" files with the same schema.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig, CStandard, C_STANDARDS } from './config';
+import { validateJson, JsonSchema } from './jsonSchema';
+
+export type LibraryStandard = CStandard | 'POSIX';
+export type LibraryEntryKind = 'function' | 'macro' | 'type' | 'variable';
+
+export const LIBRARY_DATA_FILE = path.join('data', 'c-library.json');
+export const LIBRARY_SCHEMA_FILE = path.join('schemas', 'library.schema.json');
+/** Directory of a workspace folder holding its own reference files */
+export const WORKSPACE_REFERENCE_DIRECTORY = path.join('.lazyc', 'reference');
+
+export interface LibraryParameter {
+    name: string;
+    type: string;
+    description: string;
+}
+
+export interface LibraryFunction {
+    name: string;
+    kind: LibraryEntryKind;
+    header: string;
+    /** Header is included with quotes, as project headers are */
+    quoted: boolean;
+    /** ISO C version that introduced the name, and/or POSIX */
+    standards: LibraryStandard[];
+    /** ISO C version that removed the name, as C11 did gets */
+    removed?: CStandard;
+    prototype: string;
+    description: string;
+    parameters: LibraryParameter[];
+    returnValue: string;
+    example: string;
+    notes: string;
+    relatedFunctions: string[];
+}
+
+export interface LibraryLoadResult {
+    entries: LibraryFunction[];
+    /** One message per invalid entry or unreadable file */
+    errors: string[];
+}
+
+// All loaded entries by name, whatever standards are enabled
+let libraryDatabase: { [name: string]: LibraryFunction } = {};
+// Headers that entries include with quotes
+let quotedHeaders = new Set<string>();
+
+/**
+ * Checks reference data against the schema and fills in the optional fields. Invalid
+ * entries are left out and reported; the valid ones are still returned.
+ * @param source File name used in error messages
+ */
+export function parseLibraryData(data: unknown, schema: JsonSchema, source: string): LibraryLoadResult {
+    const errors = validateJson(data, schema).map(error => `${source}: ${error}`);
+    const rawEntries = (data as { entries?: unknown } | null)?.entries;
+    // Problems outside the entries make the whole file unusable
+    if (!Array.isArray(rawEntries) || errors.some(error => !error.startsWith(`${source}: entries[`))) {
+        return { entries: [], errors };
+    }
+
+    const invalid = new Set(errors.map(error => Number(/entries\[(\d+)\]/.exec(error)![1])));
+    const entries = rawEntries
+        .filter((_, index) => !invalid.has(index))
+        .map((entry: Partial<LibraryFunction>) => ({
+            kind: 'function',
+            quoted: false,
+            parameters: [],
+            returnValue: '',
+            example: '',
+            notes: '',
+            relatedFunctions: [],
+            ...entry
+        }) as LibraryFunction);
+    return { entries, errors };
+}
+
+/**
+ * Reads and validates a reference data file
+ */
+export function readLibraryFile(dataPath: string, schemaPath: string): LibraryLoadResult {
+    const source = path.basename(dataPath);
+    try {
+        const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as JsonSchema;
+        return parseLibraryData(JSON.parse(fs.readFileSync(dataPath, 'utf8')), schema, source);
+    } catch (error) {
+        return { entries: [], errors: [`${source}: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+}
+
+/**
+ * Lists the reference files of a workspace folder in name order
+ */
+export function findWorkspaceReferenceFiles(folderPath: string): string[] {
+    const directory = path.join(folderPath, WORKSPACE_REFERENCE_DIRECTORY);
+    try {
+        return fs.readdirSync(directory)
+            .filter(name => name.toLowerCase().endsWith('.json'))
+            .sort()
+            .map(name => path.join(directory, name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Loads the bundled reference of an extension installed at extensionPath, merges the
+ * reference files of the given workspace folders over it and makes the result the
+ * current database. A workspace entry replaces a bundled entry of the same name.
+ * Returns the problems found in the data.
+ */
+export function loadLibraryDatabase(extensionPath: string, workspaceFolders: string[] = []): string[] {
+    const schemaPath = path.join(extensionPath, LIBRARY_SCHEMA_FILE);
+    const bundled = readLibraryFile(path.join(extensionPath, LIBRARY_DATA_FILE), schemaPath);
+    const errors = [...bundled.errors];
+    const database: { [name: string]: LibraryFunction } = {};
+    const add = (entries: LibraryFunction[], source: string, defined: Set<string>) => {
+        for (const entry of entries) {
+            if (defined.has(entry.name)) {
+                errors.push(`${source}: duplicate entry "${entry.name}"`);
+                continue;
+            }
+            defined.add(entry.name);
+            database[entry.name] = entry;
+        }
+    };
+
+    add(bundled.entries, path.basename(LIBRARY_DATA_FILE), new Set());
+    // Workspace names are checked against each other only, so they can override bundled ones
+    const workspaceNames = new Set<string>();
+    for (const file of workspaceFolders.flatMap(findWorkspaceReferenceFiles)) {
+        const { entries, errors: fileErrors } = readLibraryFile(file, schemaPath);
+        errors.push(...fileErrors);
+        add(entries, path.basename(file), workspaceNames);
+    }
+
+    libraryDatabase = database;
+    quotedHeaders = new Set(Object.values(database).filter(entry => entry.quoted).map(entry => entry.header));
+    return errors;
+}
+
+function reloadLibraryDatabase(extensionPath: string) {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    const errors = loadLibraryDatabase(extensionPath, folders);
+    if (errors.length > 0) {
+        console.error(`Invalid library reference data:\n${errors.join('\n')}`);
+        vscode.window.showWarningMessage(`Lazy C: ${errors.length} problem(s) in the library reference data, e.g. ${errors[0]}; see the developer console`);
+    }
+}
+
+export function registerLibraryDatabase(context: vscode.ExtensionContext) {
+    reloadLibraryDatabase(context.extensionPath);
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/.lazyc/reference/*.json');
+    const reload = () => reloadLibraryDatabase(context.extensionPath);
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(reload),
+        watcher.onDidChange(reload),
+        watcher.onDidDelete(reload),
+        vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    );
+}
+
+/**
+ * Returns every loaded entry by name, regardless of the enabled standards
+ */
+export function getLibraryDatabase(): { [name: string]: LibraryFunction } {
+    return libraryDatabase;
+}
+
+/**
+ * True when an entry belongs to the C version selected (or an older one, unless the
+ * selected version removed it) or to POSIX while POSIX is enabled
+ */
+export function isStandardEnabled(standards: LibraryStandard[], cStandard: CStandard, posix: boolean, removed?: CStandard): boolean {
+    const newest = C_STANDARDS.indexOf(cStandard);
+    const isRemoved = removed !== undefined && C_STANDARDS.indexOf(removed) <= newest;
+    return standards.some(standard => standard === 'POSIX'
+        ? posix
+        : C_STANDARDS.indexOf(standard) <= newest && !isRemoved);
+}
+
+function isEnabled(entry: LibraryFunction): boolean {
+    const { referenceStandard, referencePosix } = getConfig();
+    return isStandardEnabled(entry.standards, referenceStandard, referencePosix, entry.removed);
+}
+
+/**
+ * Returns the entry of a name when its standard is enabled in the settings
+ */
+export function getLibraryEntry(name: string): LibraryFunction | undefined {
+    const entry = Object.prototype.hasOwnProperty.call(libraryDatabase, name) ? libraryDatabase[name] : undefined;
+    return entry && isEnabled(entry) ? entry : undefined;
+}
+
+/**
+ * Returns the entries of the standards enabled in the settings
+ */
+export function getLibraryEntries(): LibraryFunction[] {
+    return Object.values(libraryDatabase).filter(isEnabled);
+}
+
+/**
+ * Returns the #include line for a header, quoted when reference entries say so
+ */
+export function formatInclude(header: string): string {
+    return quotedHeaders.has(header) ? `#include "${header}"` : `#include <${header}>`;
+}
+
+/**
+ * Maps the names of the enabled standards to the header declaring them
+ */
+export function getFunctionToHeader(): { [name: string]: string } {
+    const functionToHeader: { [name: string]: string } = {};
+    getLibraryEntries().forEach(entry => functionToHeader[entry.name] = entry.header);
+    return functionToHeader;
+}
@@ -0,0 +1,82 @@
+/**
+ * Library hover
+ * Shows the reference entry of a standard library function when hovering its name,
+ * with links to related functions and to the entry in the sidebar reference
+ */
+
+import * as vscode from 'vscode';
+import { tokenize } from './cLexer';
+import { parseC } from './cParser';
+import { getLibraryEntry, formatInclude, LibraryFunction } from './libraryDatabase';
+
+export const SHOW_REFERENCE_ENTRY_COMMAND = 'c-helper.showReferenceEntry';
+
+export function registerLibraryHover(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider({ language: 'c' }, { provideHover })
+    );
+}
+
+function referenceLink(name: string): string {
+    return `command:${SHOW_REFERENCE_ENTRY_COMMAND}?${encodeURIComponent(JSON.stringify([name]))}`;
+}
+
+/**
+ * Renders a reference entry as Markdown. Related functions that have an entry of their
+ * own link to it; the others are shown as plain names.
+ */
+export function renderLibraryHover(func: LibraryFunction, hasEntry: (name: string) => boolean): string {
+    const sections = [
+        '```c\n' + func.prototype + '\n```',
+        `${func.description}\n\n\`${formatInclude(func.header)}\``
+    ];
+
+    if (func.parameters.length > 0) {
+        sections.push('**Parameters**\n\n' + func.parameters
+            .map(parameter => `- \`${parameter.name}\` (\`${parameter.type}\`): ${parameter.description}`)
+            .join('\n'));
+    }
+    if (func.returnValue) {
+        sections.push(`**Returns** ${func.returnValue}`);
+    }
+    if (func.notes) {
+        sections.push(`**Notes** ${func.notes}`);
+    }
+    if (func.example) {
+        sections.push('**Example**\n\n```c\n' + func.example + '\n```');
+    }
+    if (func.relatedFunctions.length > 0) {
+        const related = func.relatedFunctions.map(name => hasEntry(name)
+            ? `[${name}](${referenceLink(name)})`
+            : `\`${name}\``);
+        sections.push(`**Related** ${related.join(' · ')}`);
+    }
+    sections.push(`[Open in Lazy C reference](${referenceLink(func.name)})`);
+
+    return sections.join('\n\n');
+}
+
+function provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    try {
+        const text = document.getText();
+        const offset = document.offsetAt(position);
+        const token = tokenize(text).find(candidate => candidate.start <= offset && offset < candidate.end);
+        const entry = token?.kind === 'identifier' ? getLibraryEntry(token.text) : undefined;
+        if (!token || !entry) {
+            return undefined;
+        }
+
+        // A function, macro or variable of the file's own that shadows the library name
+        const unit = parseC(text);
+        if (unit.functions.some(func => func.name === token.text) || unit.macros.some(macro => macro.name === token.text) || unit.variables.includes(token.text)) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString(renderLibraryHover(entry, name => !!getLibraryEntry(name)));
+        markdown.isTrusted = { enabledCommands: [SHOW_REFERENCE_ENTRY_COMMAND] };
+        return new vscode.Hover(markdown, new vscode.Range(document.positionAt(token.start), document.positionAt(token.end)));
+    } catch (error) {
+        console.error('Error providing hover:', error);
+        return undefined;
+    }
+}
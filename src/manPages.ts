@@ -0,0 +1,195 @@
+/**
+ * Man page fallback
+ * Looks up functions the library reference doesn't cover in the man pages installed on
+ * the machine (sections 2 and 3). The page index and every page shown are cached in the
+ * extension's global storage so "man" only runs once per page.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { runProcess } from './build';
+import { getConfig } from './config';
+
+export interface ManPageSummary {
+    name: string;
+    /** Section as printed by man, e.g. "3" or "3p" */
+    section: string;
+    /** One-line description from the NAME section */
+    description: string;
+}
+
+interface ManIndexCache {
+    created: number;
+    pages: ManPageSummary[];
+}
+
+const MAN_SECTIONS = '2,3';
+const INDEX_FILE = 'man-index.json';
+const PAGES_DIRECTORY = 'man-pages';
+/** The index is rebuilt after a week so newly installed pages show up */
+const INDEX_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const MAX_SEARCH_RESULTS = 30;
+const PAGE_NAME_PATTERN = /^[\w.:+-]+$/;
+const SECTION_PATTERN = /^[23][a-z]*$/;
+
+let storagePath: string | undefined;
+let indexRequest: Promise<ManPageSummary[]> | undefined;
+
+export function registerManPages(context: vscode.ExtensionContext) {
+    storagePath = context.globalStorageUri.fsPath;
+}
+
+/**
+ * True when man pages are enabled in the settings and the platform has them
+ */
+export function isManPageFallbackEnabled(): boolean {
+    return process.platform !== 'win32' && getConfig().manPageFallback;
+}
+
+/**
+ * Parses the output of "man -k" (apropos), e.g. "printf (3) - formatted output conversion".
+ * Lines naming several pages ("getc, fgetc (3) - ...") give one summary per name; pages
+ * outside sections 2 and 3 are left out.
+ */
+export function parseManIndex(output: string): ManPageSummary[] {
+    const pages: ManPageSummary[] = [];
+    const seen = new Set<string>();
+    for (const line of output.split(/\r?\n/)) {
+        const match = /^(.+?)\s*\(([^)]+)\)\s+-+\s+(.*)$/.exec(line.trim());
+        if (!match || !SECTION_PATTERN.test(match[2])) {
+            continue;
+        }
+        for (const name of match[1].split(',').map(part => part.trim())) {
+            const key = `${name}(${match[2]})`;
+            if (PAGE_NAME_PATTERN.test(name) && !seen.has(key)) {
+                seen.add(key);
+                pages.push({ name, section: match[2], description: match[3].trim() });
+            }
+        }
+    }
+    return pages;
+}
+
+/**
+ * Removes the overstrike bold/underline sequences and ANSI colors man may leave in its
+ * output even with a plain pager
+ */
+export function cleanManOutput(text: string): string {
+    return text
+        .replace(/\x1b\[[0-9;]*m/g, '')
+        .replace(/.\x08/g, '')
+        .split(/\r?\n/)
+        .map(line => line.trimEnd())
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Finds the pages whose name or description contains the query. Names starting with the
+ * query come first, then other name matches, then description matches.
+ * @param excluded Names already answered by the library reference
+ */
+export function searchManIndex(pages: ManPageSummary[], query: string, excluded: Set<string>): ManPageSummary[] {
+    const term = query.toLowerCase().trim();
+    if (!term) {
+        return [];
+    }
+
+    const rank = (page: ManPageSummary): number => {
+        const name = page.name.toLowerCase();
+        if (name === term) return 0;
+        if (name.startsWith(term)) return 1;
+        if (name.includes(term)) return 2;
+        return page.description.toLowerCase().includes(term) ? 3 : -1;
+    };
+    const seen = new Set<string>();
+    return pages
+        .map(page => ({ page, rank: rank(page) }))
+        .filter(({ page, rank }) => rank >= 0 && !excluded.has(page.name))
+        .sort((a, b) => a.rank - b.rank || a.page.name.localeCompare(b.page.name))
+        .map(({ page }) => page)
+        // Sections like "3" and "3p" document the same name; keep the first one
+        .filter(page => !seen.has(page.name) && !!seen.add(page.name))
+        .slice(0, MAX_SEARCH_RESULTS);
+}
+
+function readCache<T>(file: string): T | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+function writeCache(file: string, content: string) {
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content, 'utf8');
+    } catch (error) {
+        console.error('Error caching man page data:', error);
+    }
+}
+
+async function buildManIndex(): Promise<ManPageSummary[]> {
+    const indexFile = storagePath ? path.join(storagePath, INDEX_FILE) : undefined;
+    const cached = indexFile ? readCache<ManIndexCache>(indexFile) : undefined;
+    if (cached && Array.isArray(cached.pages) && Date.now() - cached.created < INDEX_MAX_AGE) {
+        return cached.pages;
+    }
+
+    const result = await runProcess('man', ['-k', '-s', MAN_SECTIONS, '.'], os.homedir());
+    if (result.spawnError || result.exitCode !== 0) {
+        return [];
+    }
+    const pages = parseManIndex(result.stdout);
+    if (indexFile) {
+        writeCache(indexFile, JSON.stringify({ created: Date.now(), pages } as ManIndexCache));
+    }
+    return pages;
+}
+
+/**
+ * Returns the man pages installed in sections 2 and 3; empty when man is not available
+ */
+export function getManIndex(): Promise<ManPageSummary[]> {
+    if (!isManPageFallbackEnabled()) {
+        return Promise.resolve([]);
+    }
+    if (!indexRequest) {
+        indexRequest = buildManIndex().catch(error => {
+            console.error('Error reading the man page index:', error);
+            indexRequest = undefined;
+            return [];
+        });
+    }
+    return indexRequest;
+}
+
+/**
+ * Returns the text of a man page, or undefined when it isn't installed
+ */
+export async function getManPage(name: string, section: string): Promise<string | undefined> {
+    if (!isManPageFallbackEnabled() || !PAGE_NAME_PATTERN.test(name) || !SECTION_PATTERN.test(section)) {
+        return undefined;
+    }
+
+    const pageFile = storagePath ? path.join(storagePath, PAGES_DIRECTORY, `${name}.${section}.txt`) : undefined;
+    if (pageFile && fs.existsSync(pageFile)) {
+        return fs.readFileSync(pageFile, 'utf8');
+    }
+
+    const result = await runProcess('man', ['-P', 'cat', section, name], os.homedir(), {
+        env: { MANWIDTH: '80', MAN_KEEP_FORMATTING: '', GROFF_NO_SGR: '1' }
+    });
+    if (result.spawnError || result.exitCode !== 0) {
+        return undefined;
+    }
+    // troff warnings go to stderr and must not end up in the page or its cache
+    const text = cleanManOutput(result.stdout);
+    if (pageFile) {
+        writeCache(pageFile, text);
+    }
+    return text;
+}
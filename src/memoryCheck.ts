@@ -0,0 +1,161 @@
+/**
+ * Memory checking
+ * "Run with Sanitizers" and "Run with Valgrind": build the program for checking, run it
+ * once with the selected run configuration and publish the reports as diagnostics
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runProcess, quoteArgument } from './build';
+import { BuildProfile, getActiveBuildProfile } from './buildProfiles';
+import { getBuildSystem } from './buildSystems';
+import { getProjectRoot } from './projectConfig';
+import { resolveRunConfiguration } from './runConfigurations';
+import { toDebugProfile } from './debugLaunch';
+import { MemoryReport, parseSanitizerOutput, parseValgrindOutput, toMemoryDiagnostics } from './memoryReports';
+
+export type MemoryCheckMode = 'sanitizers' | 'valgrind';
+
+/** Builds a C file (or its project) with the given profile and returns the program */
+export type MemoryCheckBuilder = (sourcePath: string, profile: BuildProfile) => Promise<{ success: boolean; outputPath: string }>;
+
+const SANITIZER_FLAGS = ['-fsanitize=address,undefined', '-fno-omit-frame-pointer'];
+const VALGRIND_ARGS = ['--leak-check=full', '--track-origins=yes', '--fullpath-after='];
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let memoryDiagnosticCollection: vscode.DiagnosticCollection | undefined;
+let memoryOutputChannel: vscode.OutputChannel | undefined;
+
+export function registerMemoryCheck(context: vscode.ExtensionContext, build: MemoryCheckBuilder) {
+    memoryDiagnosticCollection = vscode.languages.createDiagnosticCollection('c-helper-memory');
+    memoryOutputChannel = vscode.window.createOutputChannel('Lazy C Memory Check');
+    context.subscriptions.push(
+        memoryDiagnosticCollection,
+        memoryOutputChannel,
+        vscode.commands.registerCommand('c-helper.runWithSanitizers', () => runMemoryCheck('sanitizers', build)),
+        vscode.commands.registerCommand('c-helper.runWithValgrind', () => runMemoryCheck('valgrind', build))
+    );
+}
+
+/**
+ * Returns the profile for sanitizer runs: debug info without optimization, plus
+ * AddressSanitizer and UndefinedBehaviorSanitizer
+ */
+export function toSanitizerProfile(profile: BuildProfile): BuildProfile {
+    const flags = (toDebugProfile(profile).flags || []).filter(flag => !flag.startsWith('-fsanitize') && flag !== '-fno-omit-frame-pointer');
+    // The built-in "sanitize" profile only changes its optimization level
+    const name = profile.name.endsWith('sanitize') ? profile.name : `${profile.name}-sanitize`;
+    return { ...profile, name, flags: [...flags, ...SANITIZER_FLAGS] };
+}
+
+/**
+ * Returns the profile for Valgrind runs: debug info without optimization and without
+ * sanitizers, which do not work under Valgrind
+ */
+export function toValgrindProfile(profile: BuildProfile): BuildProfile {
+    const debugProfile = toDebugProfile(profile);
+    const flags = (debugProfile.flags || []).filter(flag => !flag.startsWith('-fsanitize'));
+    return { ...debugProfile, name: `${profile.name}-valgrind`, flags };
+}
+
+function isInsideDirectory(file: string, directory: string): boolean {
+    const relative = path.relative(directory, file);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function publishMemoryDiagnostics(reports: MemoryReport[], projectRoot: string) {
+    if (!memoryDiagnosticCollection) {
+        return;
+    }
+
+    memoryDiagnosticCollection.clear();
+    const isUserFile = (file: string) => isInsideDirectory(file, projectRoot) && fs.existsSync(file);
+    for (const [file, diagnostics] of toMemoryDiagnostics(reports, isUserFile)) {
+        memoryDiagnosticCollection.set(vscode.Uri.file(file), diagnostics);
+    }
+}
+
+async function runMemoryCheck(mode: MemoryCheckMode, build: MemoryCheckBuilder) {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'c') {
+            vscode.window.showErrorMessage('No C file is currently open');
+            return;
+        }
+        if (mode === 'valgrind' && process.platform === 'win32') {
+            vscode.window.showErrorMessage('Valgrind is not available on Windows. Use "Lazy C: Run with Sanitizers" instead.');
+            return;
+        }
+
+        const filePath = editor.document.uri.fsPath;
+        // make and cmake build with the project's own flags, so the program would not be instrumented
+        const buildSystem = mode === 'sanitizers' ? getBuildSystem(filePath) : undefined;
+        if (buildSystem) {
+            vscode.window.showErrorMessage(`Run with Sanitizers cannot add its flags to ${buildSystem.kind} builds. Add ${SANITIZER_FLAGS.join(' ')} to the project's compile and link flags and run the program, use "Lazy C: Run with Valgrind", or set "c-helper.buildSystem" to "compiler".`);
+            return;
+        }
+        if (editor.document.isDirty && !await editor.document.save()) {
+            return;
+        }
+
+        const activeProfile = getActiveBuildProfile(filePath);
+        const result = await build(filePath, mode === 'sanitizers' ? toSanitizerProfile(activeProfile) : toValgrindProfile(activeProfile));
+        if (!result.success) {
+            return;
+        }
+        if (!result.outputPath) {
+            vscode.window.showWarningMessage('The program to check could not be determined. Select a target with "Lazy C: Select Build Target".');
+            return;
+        }
+
+        const run = resolveRunConfiguration(filePath);
+        const tool = mode === 'sanitizers' ? 'sanitizers' : 'Valgrind';
+        const [command, args] = mode === 'sanitizers'
+            ? [result.outputPath, run.args]
+            : ['valgrind', [...VALGRIND_ARGS, result.outputPath, ...run.args]];
+        // Sanitizers only print stacks for undefined behavior when asked to
+        const env = mode === 'sanitizers' ? { UBSAN_OPTIONS: process.env.UBSAN_OPTIONS || 'print_stacktrace=1', ...run.env } : run.env;
+
+        const channel = memoryOutputChannel as vscode.OutputChannel;
+        channel.clear();
+        channel.show(true);
+        channel.appendLine(`> ${[command, ...args].map(quoteArgument).join(' ')}${run.stdinFile ? ` < ${quoteArgument(run.stdinFile)}` : ''}`);
+        if (!run.stdinFile) {
+            channel.appendLine('(No stdin file in the run configuration: the program reads end of file from standard input.)');
+        }
+
+        const processResult = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Running ${path.basename(result.outputPath)} with ${tool}`, cancellable: true },
+            (_progress, token) => runProcess(command, args, run.cwd, { env, stdinFile: run.stdinFile, onOutput: text => channel.append(text), token })
+        );
+        if (processResult.spawnError) {
+            vscode.window.showErrorMessage(mode === 'valgrind'
+                ? 'Could not run valgrind. Install it, or use "Lazy C: Run with Sanitizers".'
+                : `Could not start ${path.basename(result.outputPath)}: ${processResult.spawnError.message}`);
+            return;
+        }
+        channel.appendLine(`\nProgram exited with code ${processResult.exitCode}.`);
+
+        // Compilers record paths relative to the directory they ran in
+        const cwd = path.dirname(filePath);
+        const reports = mode === 'sanitizers'
+            ? parseSanitizerOutput(processResult.output, cwd)
+            : parseValgrindOutput(processResult.output, cwd);
+        publishMemoryDiagnostics(reports, getProjectRoot(filePath));
+
+        if (reports.length === 0) {
+            vscode.window.showInformationMessage(`No memory problems found by ${tool}`);
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(`${tool} found ${reports.length} memory problem(s)`, 'Show Problems');
+        if (choice === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Memory check error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
@@ -0,0 +1,282 @@
+/**
+ * Memory report parsing
+ * Turns AddressSanitizer, LeakSanitizer, UndefinedBehaviorSanitizer and Valgrind
+ * reports into structured reports and VS Code diagnostics with their stack frames
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface StackFrame {
+    function: string;
+    /** Absolute path of the source file, when the frame has debug info */
+    file?: string;
+    /** 1-based line number */
+    line?: number;
+    /** 1-based column, when reported */
+    column?: number;
+}
+
+/** A titled stack that belongs to a report, e.g. "freed by thread T0 here" */
+export interface FrameSection {
+    title: string;
+    frames: StackFrame[];
+}
+
+export interface MemoryReport {
+    /** Tool that found the problem, used as the diagnostic source */
+    tool: string;
+    kind: 'error' | 'leak';
+    message: string;
+    /** Short problem name, e.g. heap-buffer-overflow */
+    code?: string;
+    /** Location printed with the message itself (UndefinedBehaviorSanitizer) */
+    location?: StackFrame;
+    /** Stack of the faulting access or, for leaks, of the allocation */
+    frames: StackFrame[];
+    sections: FrameSection[];
+}
+
+// ==5784==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x603000000054 at pc ...
+const SANITIZER_ERROR_PATTERN = /^==\d+==ERROR: (\w+Sanitizer): (.+)$/;
+// Direct leak of 7 byte(s) in 1 object(s) allocated from:
+const SANITIZER_LEAK_PATTERN = /^((?:Direct|Indirect) leak of .+?) allocated from:$/;
+// ub.c:6:9: runtime error: signed integer overflow: ...
+const UBSAN_PATTERN = /^(.+?):(\d+):(\d+): runtime error: (.+)$/;
+//     #1 0x55736a93e1e2 in copy /work/leak.c:5:12  |  #2 0x7f... in __libc_start_main (/lib/libc.so.6+0x27304)
+const SANITIZER_FRAME_PATTERN = /^\s+#\d+ 0x[0-9a-f]+ (?:in (\S+))?\s*(.*)$/;
+// WRITE of size 4 at 0x603000000054 thread T0
+const SANITIZER_ACCESS_PATTERN = /^((?:READ|WRITE) of size \d+)/;
+// freed by thread T0 here:
+const SANITIZER_SECTION_PATTERN = /^(.+ here):$/;
+const SOURCE_LOCATION_PATTERN = /^(.+?):(\d+)(?::(\d+))?$/;
+
+// ==4242== at 0x109176: main (/work/leak.c:12)  |  by 0x48407B4: malloc (in /usr/lib/vgpreload.so)
+const VALGRIND_PREFIX_PATTERN = /^==\d+== ?(.*)$/;
+const VALGRIND_FRAME_PATTERN = /^\s+(?:at|by) 0x[0-9A-Fa-f]+: (.+?) \((?:in .+|(.+):(\d+))\)$/;
+const VALGRIND_LEAK_PATTERN = /^(.+ are (?:definitely|indirectly|possibly) lost)/;
+
+function parseSourceLocation(functionName: string, text: string, cwd: string): StackFrame {
+    const match = text.trim().match(SOURCE_LOCATION_PATTERN);
+    if (!match || text.trim().startsWith('(')) {
+        return { function: functionName };
+    }
+    return {
+        function: functionName,
+        file: path.resolve(cwd, match[1]),
+        line: parseInt(match[2], 10),
+        column: match[3] ? parseInt(match[3], 10) : undefined
+    };
+}
+
+/**
+ * Parses the output of a program built with -fsanitize=address,undefined
+ * @param cwd Directory relative paths in the report are resolved against
+ */
+export function parseSanitizerOutput(output: string, cwd: string): MemoryReport[] {
+    const reports: MemoryReport[] = [];
+    let tool = 'AddressSanitizer';
+    let current: MemoryReport | undefined;
+    // Frames go to the report's own stack until a section header such as "freed by ... here:"
+    let frames: StackFrame[] | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+        const errorMatch = line.match(SANITIZER_ERROR_PATTERN);
+        if (errorMatch) {
+            tool = errorMatch[1];
+            current = undefined;
+            frames = undefined;
+            if (tool !== 'LeakSanitizer') {
+                const description = errorMatch[2].replace(/ on (?:unknown )?address .*$/, '');
+                current = { tool, kind: 'error', message: description, code: description.split(' ')[0], frames: [], sections: [] };
+                reports.push(current);
+                frames = current.frames;
+            }
+            continue;
+        }
+
+        const leakMatch = line.match(SANITIZER_LEAK_PATTERN);
+        if (leakMatch) {
+            current = { tool: 'LeakSanitizer', kind: 'leak', message: leakMatch[1], code: 'memory-leak', frames: [], sections: [] };
+            reports.push(current);
+            frames = current.frames;
+            continue;
+        }
+
+        const ubsanMatch = line.match(UBSAN_PATTERN);
+        if (ubsanMatch) {
+            current = {
+                tool: 'UndefinedBehaviorSanitizer',
+                kind: 'error',
+                message: ubsanMatch[4],
+                code: 'undefined-behavior',
+                location: {
+                    function: '',
+                    file: path.resolve(cwd, ubsanMatch[1]),
+                    line: parseInt(ubsanMatch[2], 10),
+                    column: parseInt(ubsanMatch[3], 10)
+                },
+                frames: [],
+                sections: []
+            };
+            reports.push(current);
+            frames = current.frames;
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+
+        const frameMatch = line.match(SANITIZER_FRAME_PATTERN);
+        if (frameMatch && frames) {
+            frames.push(parseSourceLocation(frameMatch[1] || '??', frameMatch[2], cwd));
+            continue;
+        }
+
+        const accessMatch = line.match(SANITIZER_ACCESS_PATTERN);
+        if (accessMatch && current.frames.length === 0) {
+            current.message = `${current.message}: ${accessMatch[1]}`;
+            continue;
+        }
+
+        const sectionMatch = line.match(SANITIZER_SECTION_PATTERN);
+        if (sectionMatch) {
+            const section = { title: sectionMatch[1], frames: [] };
+            current.sections.push(section);
+            frames = section.frames;
+            continue;
+        }
+
+        if (line.startsWith('SUMMARY:') || /^==\d+==/.test(line)) {
+            current = undefined;
+            frames = undefined;
+        }
+    }
+
+    return reports;
+}
+
+/**
+ * Parses Valgrind memcheck output; run it with --fullpath-after= so frames carry full paths
+ * @param cwd Directory relative paths in the report are resolved against
+ */
+export function parseValgrindOutput(output: string, cwd: string): MemoryReport[] {
+    const reports: MemoryReport[] = [];
+    let current: MemoryReport | undefined;
+    let frames: StackFrame[] | undefined;
+
+    const finish = () => {
+        // Blocks without a stack are banners and summaries
+        if (current && current.frames.length > 0) {
+            reports.push(current);
+        }
+        current = undefined;
+        frames = undefined;
+    };
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const prefixMatch = rawLine.match(VALGRIND_PREFIX_PATTERN);
+        if (!prefixMatch) {
+            continue;
+        }
+        const line = prefixMatch[1];
+
+        if (line.trim() === '') {
+            finish();
+            continue;
+        }
+
+        const frameMatch = line.match(VALGRIND_FRAME_PATTERN);
+        if (frameMatch) {
+            const [, functionName, file, lineNumber] = frameMatch;
+            frames?.push(file
+                ? { function: functionName, file: path.resolve(cwd, file), line: parseInt(lineNumber, 10) }
+                : { function: functionName });
+            continue;
+        }
+
+        if (!line.startsWith(' ')) {
+            // A new block: "Invalid write of size 4", "7 bytes in 1 blocks are definitely lost ..."
+            finish();
+            const leakMatch = line.match(VALGRIND_LEAK_PATTERN);
+            current = {
+                tool: 'Valgrind',
+                kind: leakMatch ? 'leak' : 'error',
+                message: leakMatch ? leakMatch[1] : line.trim(),
+                frames: [],
+                sections: []
+            };
+            frames = current.frames;
+        } else if (current && /^ \S/.test(line)) {
+            // " Address 0x4a8b054 is 0 bytes after a block of size 20 alloc'd" and the stack below it
+            const section = { title: line.trim(), frames: [] };
+            current.sections.push(section);
+            frames = section.frames;
+        }
+    }
+    finish();
+
+    return reports;
+}
+
+function toRange(frame: StackFrame): vscode.Range {
+    const line = Math.max((frame.line || 1) - 1, 0);
+    const column = Math.max((frame.column || 1) - 1, 0);
+    // An empty range is widened to the word at that position by the editor
+    return new vscode.Range(line, column, line, column);
+}
+
+function describeFrame(frame: StackFrame, index: number): string {
+    return `#${index} ${frame.function || '??'}`;
+}
+
+/**
+ * Converts reports into diagnostics grouped by file path. Errors point at the faulting
+ * line and leaks at the line that allocated the memory, both at the innermost frame in
+ * the user's own code; the stacks become related information.
+ * @param isUserFile Tells the user's sources apart from system and runtime files
+ */
+export function toMemoryDiagnostics(reports: MemoryReport[], isUserFile: (file: string) => boolean): Map<string, vscode.Diagnostic[]> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    const isUserFrame = (frame: StackFrame) => !!frame.file && !!frame.line && isUserFile(frame.file);
+
+    for (const report of reports) {
+        const location = report.location && isUserFrame(report.location)
+            ? report.location
+            : report.frames.find(isUserFrame) || report.sections.flatMap(section => section.frames).find(isUserFrame);
+        if (!location || !location.file) {
+            continue;
+        }
+
+        const severity = report.kind === 'leak' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
+        const message = report.kind === 'leak' ? `${report.message}, allocated here and never freed` : report.message;
+        const diagnostic = new vscode.Diagnostic(toRange(location), message, severity);
+        diagnostic.source = report.tool;
+        if (report.code) {
+            diagnostic.code = report.code;
+        }
+
+        const related: vscode.DiagnosticRelatedInformation[] = [];
+        const addFrames = (frames: StackFrame[], title?: string) => frames.forEach((frame, index) => {
+            const isLocation = frame.file === location.file && frame.line === location.line;
+            if (isUserFrame(frame) && !isLocation) {
+                related.push(new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(vscode.Uri.file(frame.file as string), toRange(frame)),
+                    title ? `${title}: ${describeFrame(frame, index)}` : describeFrame(frame, index)
+                ));
+            }
+        });
+        addFrames(report.frames);
+        report.sections.forEach(section => addFrames(section.frames, section.title));
+        if (related.length > 0) {
+            diagnostic.relatedInformation = related;
+        }
+
+        const diagnostics = byFile.get(location.file) || [];
+        diagnostics.push(diagnostic);
+        byFile.set(location.file, diagnostics);
+    }
+
+    return byFile;
+}
@@ -0,0 +1,313 @@
+/**
+ * Multi-file project builds
+ * Compiles every translation unit of a project to an object file, then links them.
+ * Objects are only rebuilt when their source, an included header or the flags changed,
+ * and the program is only relinked when an object, the link flags or the sources changed.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runCompiler, publishBuildDiagnostics, getBuildOutputChannel } from './build';
+import { CompilerMessage } from './compilerOutput';
+import { getExecutablePath, recordBuildOutput } from './buildOutputs';
+import { getProjectConfig, getProjectRoot } from './projectConfig';
+import {
+    BuildProfile, getActiveBuildProfile, getProfileCompiler, getProfileCompileFlags,
+    getProfileLinkFlags, getProfileIncludeDirs
+} from './buildProfiles';
+
+export type FileBuildStatus = 'compiled' | 'up-to-date' | 'failed';
+
+export interface FileBuildResult {
+    source: string;
+    object: string;
+    status: FileBuildStatus;
+    errors: number;
+    warnings: number;
+}
+
+export interface ProjectBuildResult {
+    success: boolean;
+    /** Linked executable */
+    outputPath: string;
+    files: FileBuildResult[];
+    /** True when the executable was (re)linked by this build */
+    linked: boolean;
+}
+
+interface ProjectSources {
+    /** Directory object paths are made relative to */
+    baseDir: string;
+    name: string;
+    sources: string[];
+}
+
+/**
+ * Records the flags each object was compiled with and the last link command, so flag
+ * changes trigger a rebuild and new link flags or a removed source a relink
+ */
+const BUILD_STATE_FILE = 'lazyc-build-state.json';
+
+interface BuildState {
+    /** Compile command key of each object */
+    objects: { [object: string]: string };
+    link?: string;
+}
+
+// #include "header.h" - system headers in <> are not tracked
+const QUOTED_INCLUDE_PATTERN = /^\s*#\s*include\s*"([^"]+)"/gm;
+
+// ============================================================================
+// DEPENDENCY TRACKING
+// ============================================================================
+
+/**
+ * Returns the quoted #include names of a source text, in order
+ */
+export function findQuotedIncludes(text: string): string[] {
+    const includes: string[] = [];
+    let match;
+    const regex = new RegExp(QUOTED_INCLUDE_PATTERN);
+    while ((match = regex.exec(text)) !== null) {
+        includes.push(match[1]);
+    }
+    return includes;
+}
+
+/**
+ * Collects all headers a file includes, directly or through other headers.
+ * Includes are looked up next to the including file first, then in the include dirs;
+ * headers that cannot be found (e.g. generated ones) are skipped.
+ */
+export function collectDependencies(filePath: string, includeDirs: string[]): string[] {
+    const dependencies = new Set<string>();
+    const pending = [filePath];
+
+    while (pending.length > 0) {
+        const current = pending.pop() as string;
+        let text: string;
+        try {
+            text = fs.readFileSync(current, 'utf8');
+        } catch {
+            continue;
+        }
+
+        for (const include of findQuotedIncludes(text)) {
+            const candidates = [path.dirname(current), ...includeDirs].map(dir => path.resolve(dir, include));
+            const resolved = candidates.find(candidate => fs.existsSync(candidate));
+            if (resolved && !dependencies.has(resolved) && resolved !== filePath) {
+                dependencies.add(resolved);
+                pending.push(resolved);
+            }
+        }
+    }
+
+    return Array.from(dependencies).sort();
+}
+
+function getModifiedTime(filePath: string): number | undefined {
+    try {
+        return fs.statSync(filePath).mtimeMs;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns true when the target is missing or older than any of its inputs
+ */
+export function isOutOfDate(target: string, inputs: string[]): boolean {
+    const targetTime = getModifiedTime(target);
+    if (targetTime === undefined) {
+        return true;
+    }
+    return inputs.some(input => {
+        const inputTime = getModifiedTime(input);
+        return inputTime === undefined || inputTime > targetTime;
+    });
+}
+
+// ============================================================================
+// SOURCE DISCOVERY
+// ============================================================================
+
+/**
+ * Finds the translation units of the project containing the given file:
+ * the "project.sources" patterns of .lazyc.json, or every .c file in the file's folder
+ */
+export async function findProjectSources(filePath: string): Promise<ProjectSources> {
+    const project = getProjectConfig(filePath).project;
+
+    if (project && Array.isArray(project.sources) && project.sources.length > 0) {
+        const root = getProjectRoot(filePath);
+        const sources = new Set<string>();
+        for (const pattern of project.sources) {
+            const files = await vscode.workspace.findFiles(new vscode.RelativePattern(root, pattern));
+            files.map(uri => uri.fsPath).filter(file => file.endsWith('.c')).forEach(file => sources.add(file));
+        }
+        return { baseDir: root, name: project.output || path.basename(root), sources: Array.from(sources).sort() };
+    }
+
+    const folder = path.dirname(filePath);
+    const sources = fs.readdirSync(folder)
+        .filter(entry => entry.endsWith('.c'))
+        .map(entry => path.join(folder, entry))
+        .sort();
+    return { baseDir: folder, name: project?.output || path.basename(folder), sources };
+}
+
+function getObjectPath(source: string, baseDir: string, objectDir: string): string {
+    const relative = path.relative(baseDir, source).split(path.sep).map(part => part === '..' ? '__' : part);
+    return path.join(objectDir, ...relative).replace(/\.c$/, '.o');
+}
+
+/**
+ * Returns what identifies a link: the compiler, the link flags and the objects, in any order
+ */
+export function getLinkKey(compiler: string, objects: string[], linkFlags: string[]): string {
+    return JSON.stringify([compiler, [...objects].sort(), linkFlags]);
+}
+
+function readBuildState(objectDir: string): BuildState {
+    try {
+        const state = JSON.parse(fs.readFileSync(path.join(objectDir, BUILD_STATE_FILE), 'utf8'));
+        // State files of older versions only held the objects, and get rebuilt
+        return state && typeof state.objects === 'object' ? state : { objects: {} };
+    } catch {
+        return { objects: {} };
+    }
+}
+
+function writeBuildState(objectDir: string, state: BuildState) {
+    try {
+        fs.writeFileSync(path.join(objectDir, BUILD_STATE_FILE), JSON.stringify(state, null, 2));
+    } catch (error) {
+        console.error('Error writing build state:', error);
+    }
+}
+
+function countMessages(messages: CompilerMessage[], severity: 'error' | 'warning'): number {
+    return messages.filter(message => message.severity === severity).length;
+}
+
+// ============================================================================
+// PROJECT BUILD
+// ============================================================================
+
+/**
+ * Builds the project containing the given file with the active build profile.
+ * Per-file results go to the build output channel, errors and warnings of all
+ * translation units to the Problems panel.
+ */
+export async function buildProject(filePath: string, profile: BuildProfile = getActiveBuildProfile(filePath)): Promise<ProjectBuildResult> {
+    const { baseDir, name, sources } = await findProjectSources(filePath);
+    const outputPath = getExecutablePath(profile, name, getProjectRoot(filePath), baseDir);
+    const outputDir = path.dirname(outputPath);
+
+    if (sources.length === 0) {
+        throw new Error(`No .c files found for project '${name}'`);
+    }
+
+    return buildSources(profile, baseDir, sources, outputDir, outputPath);
+}
+
+async function buildSources(
+    profile: BuildProfile,
+    baseDir: string,
+    sources: string[],
+    outputDir: string,
+    outputPath: string
+): Promise<ProjectBuildResult> {
+    const channel = getBuildOutputChannel();
+    const projectRoot = getProjectRoot(sources[0]);
+    const compiler = getProfileCompiler(profile);
+    const compileFlags = getProfileCompileFlags(profile, projectRoot);
+    const includeDirs = getProfileIncludeDirs(profile, projectRoot);
+    const objectDir = path.join(outputDir, 'obj', profile.name);
+    const flagsKey = [compiler, ...compileFlags].join(' ');
+
+    fs.mkdirSync(objectDir, { recursive: true });
+    recordBuildOutput(objectDir);
+    channel.appendLine(`Building ${path.basename(outputPath)} (${profile.name}, ${sources.length} file(s))`);
+
+    const previousState = readBuildState(objectDir);
+    const state: BuildState = { objects: {} };
+    const messages: CompilerMessage[] = [];
+    const files: FileBuildResult[] = [];
+
+    for (const source of sources) {
+        const object = getObjectPath(source, baseDir, objectDir);
+        const inputs = [source, ...collectDependencies(source, includeDirs)];
+
+        if (previousState.objects[object] === flagsKey && !isOutOfDate(object, inputs)) {
+            state.objects[object] = flagsKey;
+            files.push({ source, object, status: 'up-to-date', errors: 0, warnings: 0 });
+            continue;
+        }
+
+        fs.mkdirSync(path.dirname(object), { recursive: true });
+        const result = await runCompiler(compiler, [...compileFlags, '-c', source, '-o', object], path.dirname(source));
+        messages.push(...result.messages);
+
+        if (result.spawnError) {
+            publishBuildDiagnostics(messages, path.basename(compiler));
+            throw new Error(`Could not run the C compiler '${compiler}'. Install it or set "c-helper.compilerPath".`);
+        }
+        if (result.success) {
+            state.objects[object] = flagsKey;
+        }
+        files.push({
+            source,
+            object,
+            status: result.success ? 'compiled' : 'failed',
+            errors: countMessages(result.messages, 'error'),
+            warnings: countMessages(result.messages, 'warning')
+        });
+    }
+
+    let linked = false;
+    let success = files.every(file => file.status !== 'failed');
+    const objects = files.map(file => file.object);
+    const linkFlags = getProfileLinkFlags(profile);
+    const linkKey = getLinkKey(compiler, objects, linkFlags);
+
+    if (success && (files.some(file => file.status === 'compiled') || previousState.link !== linkKey || isOutOfDate(outputPath, objects))) {
+        const result = await runCompiler(compiler, [...objects, '-o', outputPath, ...linkFlags], path.dirname(outputPath));
+        messages.push(...result.messages);
+        linked = result.success;
+        success = result.success;
+        if (linked) {
+            recordBuildOutput(outputPath);
+        }
+    }
+    if (success) {
+        state.link = linkKey;
+    }
+    writeBuildState(objectDir, state);
+
+    publishBuildDiagnostics(messages, path.basename(compiler));
+    reportResults(files, outputPath, success, linked);
+
+    return { success, outputPath, files, linked };
+}
+
+function reportResults(files: FileBuildResult[], outputPath: string, success: boolean, linked: boolean) {
+    const channel = getBuildOutputChannel();
+
+    for (const file of files) {
+        const counts = file.errors || file.warnings ? ` (${file.errors} error(s), ${file.warnings} warning(s))` : '';
+        const symbol = file.status === 'failed' ? '✗' : '✓';
+        channel.appendLine(`${symbol} ${path.basename(file.source)}: ${file.status}${counts}`);
+    }
+
+    const compiled = files.filter(file => file.status === 'compiled').length;
+    const failed = files.filter(file => file.status === 'failed').length;
+    if (success) {
+        channel.appendLine(`Build succeeded: ${compiled} compiled, ${files.length - compiled} up to date${linked ? `, linked ${path.basename(outputPath)}` : ''}.`);
+    } else if (failed > 0) {
+        channel.appendLine(`Build failed: ${failed} of ${files.length} file(s) did not compile.`);
+    } else {
+        channel.appendLine(`Build failed: linking ${path.basename(outputPath)} did not succeed.`);
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * Project configuration file (.lazyc.json)
+ * Optional file at the root of a workspace folder holding project-specific settings
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BuildProfile } from './buildProfiles';
+import type { RunConfiguration } from './runConfigurations';
+import type { RuleSetting } from './safetyRules';
+import { validateJson, JsonSchema } from './jsonSchema';
+
+export const PROJECT_CONFIG_FILE = '.lazyc.json';
+export const PROJECT_SCHEMA_FILE = path.join('schemas', 'lazyc.schema.json');
+
+export interface ProjectSettings {
+    /** Source files or glob patterns, relative to the workspace folder */
+    sources?: string[];
+    /** Name of the linked executable, without extension */
+    output?: string;
+}
+
+export interface ProjectConfig {
+    /** Build profiles by name, merged over the built-in and settings profiles */
+    profiles?: { [name: string]: Partial<BuildProfile> };
+    /** Sources and output of the multi-file project build */
+    project?: ProjectSettings;
+    /** Arguments, environment and stdin used by "Compile and Run" */
+    runConfigurations?: RunConfiguration[];
+    /** Severity of safety rules by ID, or "off" */
+    rules?: { [ruleId: string]: RuleSetting };
+}
+
+// Parsed files by workspace folder path; cleared by the file watcher
+const projectConfigCache = new Map<string, ProjectConfig>();
+let projectSchema: JsonSchema | undefined;
+const projectConfigChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires after a .lazyc.json file was created, changed or deleted
+ */
+export const onDidChangeProjectConfig = projectConfigChangeEmitter.event;
+
+/**
+ * Returns the directory a file's relative project paths are resolved against:
+ * its workspace folder, or the file's own directory outside a workspace
+ */
+export function getProjectRoot(filePath: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    return folder ? folder.uri.fsPath : path.dirname(filePath);
+}
+
+/**
+ * Checks a parsed .lazyc.json against the schema. Invalid profiles, run configurations
+ * and other settings are left out and reported, so builds never use flags of the wrong type.
+ */
+export function parseProjectConfig(data: unknown, schema: JsonSchema): { config: ProjectConfig; errors: string[] } {
+    const errors = validateJson(data, schema);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { config: {}, errors };
+    }
+
+    const config: ProjectConfig = { ...(data as ProjectConfig) };
+    const profiles = config.profiles && typeof config.profiles === 'object' ? { ...config.profiles } : undefined;
+    const runConfigurations = Array.isArray(config.runConfigurations) ? [...config.runConfigurations] : undefined;
+    const invalidRuns = new Set<number>();
+
+    for (const error of errors) {
+        const location = error.substring(0, error.indexOf(': '));
+        const profile = profiles && Object.keys(profiles).find(name => location === `profiles.${name}` || location.startsWith(`profiles.${name}.`) || location.startsWith(`profiles.${name}[`));
+        const run = /^runConfigurations\[(\d+)\]/.exec(location);
+        if (profile !== undefined) {
+            delete profiles![profile];
+        } else if (run && runConfigurations) {
+            invalidRuns.add(Number(run[1]));
+        } else {
+            // "(root): unknown property" and the like leave the setting alone
+            const key = /^[^.[]+/.exec(location)?.[0];
+            if (key && key !== '(root)') {
+                delete (config as { [key: string]: unknown })[key];
+            }
+        }
+    }
+
+    if (profiles && config.profiles) {
+        config.profiles = profiles;
+    }
+    if (runConfigurations && config.runConfigurations) {
+        config.runConfigurations = runConfigurations.filter((_, index) => !invalidRuns.has(index));
+    }
+    return { config, errors };
+}
+
+/**
+ * Reads the .lazyc.json of the project containing the given file.
+ * A missing or unreadable file yields an empty configuration; invalid parts are left out.
+ */
+export function getProjectConfig(filePath: string): ProjectConfig {
+    const root = getProjectRoot(filePath);
+    const cached = projectConfigCache.get(root);
+    if (cached) {
+        return cached;
+    }
+
+    let config: ProjectConfig = {};
+    const configPath = path.join(root, PROJECT_CONFIG_FILE);
+    try {
+        if (fs.existsSync(configPath)) {
+            const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+            const result = projectSchema ? parseProjectConfig(parsed, projectSchema) : { config: parsed, errors: [] };
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                config = result.config;
+            } else {
+                console.warn(`${configPath} does not contain a JSON object`);
+            }
+            if (result.errors.length > 0) {
+                console.error(`Invalid ${configPath}:\n${result.errors.join('\n')}`);
+                vscode.window.showWarningMessage(`Lazy C: ${result.errors.length} problem(s) in ${PROJECT_CONFIG_FILE}, e.g. ${result.errors[0]}; the invalid parts are ignored`);
+            }
+        }
+    } catch (error) {
+        vscode.window.showWarningMessage(`Could not read ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    projectConfigCache.set(root, config);
+    return config;
+}
+
+export function registerProjectConfig(context: vscode.ExtensionContext) {
+    try {
+        projectSchema = JSON.parse(fs.readFileSync(path.join(context.extensionPath, PROJECT_SCHEMA_FILE), 'utf8'));
+    } catch (error) {
+        console.error('Error reading the project configuration schema:', error);
+    }
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+    const invalidate = () => {
+        projectConfigCache.clear();
+        projectConfigChangeEmitter.fire();
+    };
+
+    context.subscriptions.push(
+        watcher,
+        projectConfigChangeEmitter,
+        watcher.onDidCreate(invalidate),
+        watcher.onDidChange(invalidate),
+        watcher.onDidDelete(invalidate)
+    );
+}
@@ -0,0 +1,201 @@
+/**
+ * Prototype generation
+ * Keeps the prototypes of a C file in step with its function definitions: adds missing
+ * ones, rewrites those whose signature changed and removes those it generated for
+ * functions that no longer exist. Optionally maintains a block of prototypes in the
+ * matching header file.
+ */
+
+import * as path from 'path';
+import { tokenize, getDirectiveName } from './cLexer';
+import { CFunction, CTranslationUnit } from './cParser';
+import { findIncludeInsertionLine } from './headerInference';
+
+/** Replaces text[start, end) with text */
+export interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface PrototypeSyncResult {
+    edits: TextEdit[];
+    /** Names of the prototypes the extension now maintains in the file */
+    managedNames: Set<string>;
+}
+
+export const HEADER_BLOCK_BEGIN = '/* lazyc:begin prototypes */';
+export const HEADER_BLOCK_END = '/* lazyc:end prototypes */';
+
+/**
+ * Returns what makes two declarations of a function compatible: return type, static
+ * and parameter types, ignoring parameter names and spacing
+ */
+export function getPrototypeKey(func: CFunction): string {
+    const returnType = func.returnType.split(' ').filter(word => word !== 'extern' && word !== 'inline').join(' ');
+    const parameters = func.parameters.map(parameter => {
+        const type = parameter.name
+            ? parameter.text.replace(new RegExp(`\\b${parameter.name.replace(/\$/g, '\\$')}\\b`), '')
+            : parameter.text;
+        return type.replace(/\s+/g, '');
+    });
+    return `${returnType.replace(/\s+/g, '')}(${parameters.join(',')})`;
+}
+
+export function toPrototype(func: CFunction): string {
+    return `${func.signature};`;
+}
+
+function getDefinitions(unit: CTranslationUnit): Map<string, CFunction> {
+    const definitions = new Map<string, CFunction>();
+    for (const func of unit.functions) {
+        if (func.isDefinition && !definitions.has(func.name)) {
+            definitions.set(func.name, func);
+        }
+    }
+    return definitions;
+}
+
+/**
+ * True when a definition has to be declared earlier: it comes after main, or it is
+ * called above its definition
+ */
+function needsPrototype(func: CFunction, unit: CTranslationUnit): boolean {
+    if (func.name === 'main') {
+        return false;
+    }
+    const main = unit.functions.find(candidate => candidate.name === 'main' && candidate.isDefinition);
+    if (main && func.start > main.start) {
+        return true;
+    }
+    return unit.calls.some(call => call.name === func.name && call.token.start < func.start);
+}
+
+/** Widens a range to whole lines when nothing else shares them */
+export function toLineRange(text: string, start: number, end: number): [number, number] {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    let lineEnd = text.indexOf('\n', end);
+    lineEnd = lineEnd === -1 ? text.length : lineEnd + 1;
+    const before = text.substring(lineStart, start);
+    const after = text.substring(end, lineEnd);
+    return before.trim() === '' && after.trim() === '' ? [lineStart, lineEnd] : [start, end];
+}
+
+/** Returns the offset of the start of a 0-based line, or the end of the text */
+export function lineOffset(text: string, line: number): number {
+    let offset = 0;
+    for (let i = 0; i < line; i++) {
+        const next = text.indexOf('\n', offset);
+        if (next === -1) {
+            return text.length;
+        }
+        offset = next + 1;
+    }
+    return offset;
+}
+
+/**
+ * Computes the edits that bring the prototypes of a file up to date
+ * @param unit The parsed file
+ * @param managedNames Prototypes generated earlier; only these are removed when their function is gone
+ * @param declaredElsewhere Functions declared by included headers, which need no prototype here
+ */
+export function computePrototypeEdits(text: string, unit: CTranslationUnit, managedNames: Set<string>, declaredElsewhere: Set<string> = new Set()): PrototypeSyncResult {
+    const edits: TextEdit[] = [];
+    const managed = new Set<string>();
+    const definitions = getDefinitions(unit);
+    const prototypes = unit.functions.filter(func => !func.isDefinition);
+    const calledNames = new Set(unit.calls.map(call => call.name));
+
+    for (const prototype of prototypes) {
+        const definition = definitions.get(prototype.name);
+        if (definition) {
+            if (getPrototypeKey(prototype) !== getPrototypeKey(definition)) {
+                edits.push({ start: prototype.start, end: prototype.end, text: toPrototype(definition) });
+                managed.add(prototype.name);
+            } else if (managedNames.has(prototype.name)) {
+                managed.add(prototype.name);
+            }
+        } else if (managedNames.has(prototype.name) && !calledNames.has(prototype.name)) {
+            // Generated for a function that was renamed or deleted
+            const [start, end] = toLineRange(text, prototype.start, prototype.end);
+            edits.push({ start, end, text: '' });
+        }
+    }
+
+    const declared = new Set(prototypes.map(prototype => prototype.name));
+    const missing = Array.from(definitions.values())
+        .filter(func => !declared.has(func.name) && !declaredElsewhere.has(func.name) && needsPrototype(func, unit));
+    if (missing.length > 0) {
+        missing.forEach(func => managed.add(func.name));
+        const prototypeText = missing.map(toPrototype).join('\n') + '\n';
+        // New prototypes join the existing ones, or start a block after the includes
+        const firstDefinition = unit.functions.find(func => func.isDefinition);
+        const lastPrototype = prototypes.filter(prototype => !firstDefinition || prototype.start < firstDefinition.start).pop();
+        if (lastPrototype) {
+            const [, end] = toLineRange(text, lastPrototype.start, lastPrototype.end);
+            edits.push({ start: end, end, text: end === lastPrototype.end ? '\n' + prototypeText : prototypeText });
+        } else {
+            const line = Math.min(findIncludeInsertionLine(text), firstDefinition ? firstDefinition.line : Infinity);
+            const offset = lineOffset(text, line);
+            const needsBreak = offset === text.length && text.length > 0 && !text.endsWith('\n');
+            edits.push({ start: offset, end: offset, text: (needsBreak ? '\n' : '') + (line > 0 ? '\n' + prototypeText : prototypeText + '\n') });
+        }
+    }
+
+    return { edits: edits.sort((a, b) => a.start - b.start), managedNames: managed };
+}
+
+/**
+ * Applies non-overlapping edits to text
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+    let result = text;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+    }
+    return result;
+}
+
+/**
+ * Returns the prototypes a header publishes for a source file: its non-static definitions
+ */
+export function getPublicPrototypes(unit: CTranslationUnit): string[] {
+    return Array.from(getDefinitions(unit).values())
+        .filter(func => func.name !== 'main' && !func.specifiers.includes('static'))
+        .map(toPrototype);
+}
+
+/**
+ * Returns the matching header of a source file, e.g. "list.h" for "list.c"
+ */
+export function getPairedHeaderName(sourcePath: string): string {
+    return `${path.basename(sourcePath, path.extname(sourcePath))}.h`;
+}
+
+/**
+ * Writes the prototypes into the managed block of a header. The block goes before the
+ * #endif of an include guard, or at the end. Returns the edit, or undefined when the
+ * block is up to date.
+ */
+export function computeHeaderBlockEdit(headerText: string, prototypes: string[]): TextEdit | undefined {
+    const eol = headerText.includes('\r\n') ? '\r\n' : '\n';
+    const block = [HEADER_BLOCK_BEGIN, ...prototypes, HEADER_BLOCK_END].join(eol);
+
+    const begin = headerText.indexOf(HEADER_BLOCK_BEGIN);
+    const end = begin === -1 ? -1 : headerText.indexOf(HEADER_BLOCK_END, begin);
+    if (begin !== -1 && end !== -1) {
+        const blockEnd = end + HEADER_BLOCK_END.length;
+        return headerText.substring(begin, blockEnd) === block ? undefined : { start: begin, end: blockEnd, text: block };
+    }
+
+    // The guard's #endif is the last directive of a header that opens with #ifndef/#define
+    const directives = tokenize(headerText).filter(token => token.kind === 'preprocessor');
+    const last = directives[directives.length - 1];
+    if (directives.length >= 3 && getDirectiveName(directives[0]) === 'ifndef' && getDirectiveName(directives[1]) === 'define' && getDirectiveName(last) === 'endif') {
+        const lineStart = last.start - last.column;
+        return { start: lineStart, end: lineStart, text: block + eol + eol };
+    }
+    const separator = headerText.length === 0 || headerText.endsWith('\n') ? '' : eol;
+    return { start: headerText.length, end: headerText.length, text: `${separator}${eol}${block}${eol}` };
+}
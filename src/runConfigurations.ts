@@ -0,0 +1,221 @@
+/**
+ * Run configurations
+ * Arguments, working directory, environment and stdin redirection used by "Compile and Run",
+ * defined in .lazyc.json or the "c-helper.runConfigurations" setting
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getProjectConfig, getProjectRoot, PROJECT_CONFIG_FILE } from './projectConfig';
+
+export interface RunConfiguration {
+    name: string;
+    /** Command line arguments passed to the program */
+    args?: string[];
+    /** Working directory, relative to the workspace folder */
+    cwd?: string;
+    /** Extra environment variables */
+    env?: { [name: string]: string };
+    /** File redirected to the program's standard input, relative to the workspace folder */
+    stdin?: string;
+    /** Source file the configuration belongs to, relative to the workspace folder; all files when omitted */
+    file?: string;
+}
+
+/** A run configuration with variables expanded and paths made absolute */
+export interface ResolvedRunConfiguration {
+    args: string[];
+    cwd: string;
+    env: { [name: string]: string };
+    stdinFile?: string;
+}
+
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/** Used when no configuration was selected: no arguments, run from the workspace folder */
+const DEFAULT_RUN_CONFIGURATION: RunConfiguration = { name: 'Default' };
+const SELECTED_RUN_CONFIGURATIONS_KEY = 'c-helper.runConfigurations';
+
+// ============================================================================
+// GLOBAL STATE
+// ============================================================================
+
+let extensionContext: vscode.ExtensionContext | undefined;
+let runTerminal: vscode.Terminal | undefined;
+// Working directory and environment the terminal was created with
+let runTerminalKey: string | undefined;
+
+export function registerRunConfigurations(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c-helper.selectRunConfiguration', selectRunConfiguration),
+        vscode.window.onDidCloseTerminal(terminal => {
+            if (terminal === runTerminal) {
+                runTerminal = undefined;
+                runTerminalKey = undefined;
+            }
+        })
+    );
+}
+
+/**
+ * Returns the run configurations that apply to a source file
+ */
+export function getRunConfigurations(sourcePath: string): RunConfiguration[] {
+    const projectRoot = getProjectRoot(sourcePath);
+    const settingsConfigurations = vscode.workspace
+        .getConfiguration('c-helper', vscode.Uri.file(sourcePath))
+        .get<RunConfiguration[]>('runConfigurations', []);
+    const projectConfigurations = getProjectConfig(sourcePath).runConfigurations || [];
+
+    return [...settingsConfigurations, ...projectConfigurations].filter(configuration =>
+        configuration && typeof configuration.name === 'string' &&
+        (!configuration.file || path.resolve(projectRoot, configuration.file) === sourcePath)
+    );
+}
+
+/**
+ * Returns the configuration last selected for a source file, or the default one
+ */
+export function getSelectedRunConfiguration(sourcePath: string): RunConfiguration {
+    const selected = extensionContext?.workspaceState.get<{ [file: string]: string }>(SELECTED_RUN_CONFIGURATIONS_KEY, {})[sourcePath];
+    return getRunConfigurations(sourcePath).find(configuration => configuration.name === selected) || DEFAULT_RUN_CONFIGURATION;
+}
+
+/**
+ * Expands ${workspaceFolder}, ${fileDirname} and ${env:NAME} in a configuration value
+ */
+export function expandRunVariables(value: string, sourcePath: string, projectRoot: string): string {
+    return value
+        .replace(/\$\{workspaceFolder\}/g, projectRoot)
+        .replace(/\$\{fileDirname\}/g, path.dirname(sourcePath))
+        .replace(/\$\{env:([^}]+)\}/g, (_match, name) => process.env[name] || '');
+}
+
+/**
+ * Quotes one argument for the given shell
+ */
+export function quoteShellArgument(arg: string, shell: ShellKind): string {
+    // Backslashes are path separators on Windows but escapes in POSIX shells
+    const safe = shell === 'posix' ? /^[A-Za-z0-9_\-+=.,:/@%]+$/ : /^[A-Za-z0-9_\-+=.,:/\\@]+$/;
+    if (safe.test(arg)) {
+        return arg;
+    }
+    switch (shell) {
+        case 'powershell':
+            return `'${arg.replace(/'/g, "''")}'`;
+        case 'cmd':
+            return `"${arg.replace(/"/g, '""')}"`;
+        default:
+            return `'${arg.replace(/'/g, `'\\''`)}'`;
+    }
+}
+
+/**
+ * Builds the command line that runs a program with its arguments and stdin redirection
+ */
+export function buildRunCommandLine(executable: string, args: string[], stdinFile: string | undefined, shell: ShellKind): string {
+    const program = shell === 'posix' && !executable.includes('/') ? `./${executable}` : executable;
+    const quoted = [program, ...args].map(arg => quoteShellArgument(arg, shell));
+
+    if (shell === 'powershell') {
+        // PowerShell has no "<" redirection; pipe the file instead
+        const command = `& ${quoted.join(' ')}`;
+        return stdinFile ? `Get-Content -Raw ${quoteShellArgument(stdinFile, shell)} | ${command}` : command;
+    }
+
+    const command = quoted.join(' ');
+    return stdinFile ? `${command} < ${quoteShellArgument(stdinFile, shell)}` : command;
+}
+
+function getShellKind(): ShellKind {
+    const shell = (vscode.env.shell || '').toLowerCase();
+    if (/(powershell|pwsh)/.test(shell)) {
+        return 'powershell';
+    }
+    if (shell.endsWith('cmd.exe')) {
+        return 'cmd';
+    }
+    return process.platform === 'win32' && !shell ? 'powershell' : 'posix';
+}
+
+/**
+ * Resolves the run configuration selected for a source file; the working directory
+ * defaults to the workspace folder
+ */
+export function resolveRunConfiguration(sourcePath: string): ResolvedRunConfiguration {
+    const configuration = getSelectedRunConfiguration(sourcePath);
+    const projectRoot = getProjectRoot(sourcePath);
+    const expand = (value: string) => expandRunVariables(value, sourcePath, projectRoot);
+
+    const env: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries(configuration.env || {})) {
+        env[name] = expand(String(value));
+    }
+    return {
+        args: (configuration.args || []).map(arg => expand(String(arg))),
+        cwd: configuration.cwd ? path.resolve(projectRoot, expand(configuration.cwd)) : projectRoot,
+        env,
+        stdinFile: configuration.stdin ? path.resolve(projectRoot, expand(configuration.stdin)) : undefined
+    };
+}
+
+/**
+ * Runs a built program in the "C Program" terminal with the run configuration selected
+ * for its source file
+ */
+export function runInTerminal(executable: string, sourcePath: string) {
+    const { args, cwd, env, stdinFile } = resolveRunConfiguration(sourcePath);
+
+    // The working directory and environment are fixed when a terminal is created
+    const key = JSON.stringify({ cwd, env });
+    if (!runTerminal || runTerminal.exitStatus !== undefined || runTerminalKey !== key) {
+        runTerminal?.dispose();
+        runTerminal = vscode.window.createTerminal({ name: 'C Program', cwd, env });
+        runTerminalKey = key;
+    }
+
+    runTerminal.show();
+    runTerminal.sendText(buildRunCommandLine(executable, args, stdinFile, getShellKind()));
+}
+
+async function selectRunConfiguration() {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'c') {
+            vscode.window.showErrorMessage('No C file is currently open');
+            return;
+        }
+
+        const sourcePath = editor.document.uri.fsPath;
+        const configurations = getRunConfigurations(sourcePath);
+        if (configurations.length === 0) {
+            const choice = await vscode.window.showInformationMessage(
+                `No run configurations found. Add them to "runConfigurations" in ${PROJECT_CONFIG_FILE} or the "c-helper.runConfigurations" setting.`,
+                'Open Settings'
+            );
+            if (choice === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'c-helper.runConfigurations');
+            }
+            return;
+        }
+
+        const active = getSelectedRunConfiguration(sourcePath);
+        const items = [DEFAULT_RUN_CONFIGURATION, ...configurations].map(configuration => ({
+            label: configuration.name,
+            description: configuration.name === active.name ? '(active)' : undefined,
+            detail: [
+                ...(configuration.args || []),
+                configuration.stdin ? `< ${configuration.stdin}` : ''
+            ].join(' ').trim() || undefined
+        }));
+
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: `Select how ${path.basename(sourcePath)} is run` });
+        if (choice && extensionContext) {
+            const selections = extensionContext.workspaceState.get<{ [file: string]: string }>(SELECTED_RUN_CONFIGURATIONS_KEY, {});
+            await extensionContext.workspaceState.update(SELECTED_RUN_CONFIGURATIONS_KEY, { ...selections, [sourcePath]: choice.label });
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to select run configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
@@ -0,0 +1,221 @@
+/**
+ * Live safety diagnostics
+ * Reports the violations of the safety rules for every open C file, when it is opened
+ * and shortly after each change. Functions whose text did not change keep their cached
+ * findings, so typing in a large file only re-analyzes the function being edited.
+ * "Analyze Workspace" checks every .c and .h file at once and can export the result.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getConfig, onDidChangeConfig } from './config';
+import { getProjectConfig, onDidChangeProjectConfig } from './projectConfig';
+import { findSafetyIssues, findSafetyIssuesIncrementally, getSafetyRule, resolveRuleSeverity, DIAGNOSTIC_SOURCE, SHOW_RULE_COMMAND, RuleSeverity, SafetyAnalysisCache, SafetyFinding, SafetyRule } from './safetyRules';
+import { toHtmlReport, toJsonReport, toSarifReport, FileReport, ReportFormat, ReportIssue, SafetyReport } from './safetyReport';
+
+/** Milliseconds without typing before a changed document is analyzed */
+const ANALYSIS_DELAY = 300;
+
+/**
+ * Diagnostic severity of each safety rule severity
+ */
+export const RULE_SEVERITIES: { [severity in RuleSeverity]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information
+};
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+// Findings of the last analysis of each open document, by URI
+const analysisCaches = new Map<string, SafetyAnalysisCache>();
+const pendingAnalyses = new Map<string, NodeJS.Timeout>();
+
+export function registerSafetyDiagnostics(context: vscode.ExtensionContext) {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('c-helper');
+    const analyzeAll = () => vscode.workspace.textDocuments.forEach(runDiagnostics);
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        vscode.workspace.onDidOpenTextDocument(runDiagnostics),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleDiagnostics(event.document)),
+        vscode.workspace.onDidCloseTextDocument(clearDiagnostics),
+        // A new warning level or rule setting applies right away
+        onDidChangeConfig(analyzeAll),
+        onDidChangeProjectConfig(analyzeAll),
+        { dispose: () => pendingAnalyses.forEach(timer => clearTimeout(timer)) },
+        vscode.commands.registerCommand('c-helper.analyzeWorkspace', () => analyzeWorkspace(context.extension.packageJSON.version))
+    );
+    analyzeAll();
+}
+
+/**
+ * Creates the diagnostic of a rule violation; its code links to the rule's rationale
+ * in the reference view and lets quick fixes find it
+ */
+export function createDiagnostic(finding: SafetyFinding, rule: SafetyRule, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+    const range = new vscode.Range(finding.line, finding.column, finding.endLine, finding.endColumn);
+    const diagnostic = new vscode.Diagnostic(range, finding.message, severity);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = {
+        value: rule.id,
+        target: vscode.Uri.parse(`command:${SHOW_RULE_COMMAND}?${encodeURIComponent(JSON.stringify([rule.id]))}`)
+    };
+    return diagnostic;
+}
+
+/**
+ * Turns findings into diagnostics at the severities configured for the file's project
+ * @param filePath Path of the file, or undefined for unsaved files
+ */
+export function toSafetyDiagnostics(findings: SafetyFinding[], filePath: string | undefined): vscode.Diagnostic[] {
+    return resolveSafetyFindings(findings, filePath)
+        .map(issue => createDiagnostic(issue, getSafetyRule(issue.ruleId)!, RULE_SEVERITIES[issue.severity]));
+}
+
+/**
+ * Gives each finding the severity configured for the file's project, dropping the
+ * findings of rules that are off
+ */
+export function resolveSafetyFindings(findings: SafetyFinding[], filePath: string | undefined): ReportIssue[] {
+    const level = getConfig().warningLevel;
+    // Rule severities set in the project's .lazyc.json
+    const settings = filePath ? getProjectConfig(filePath).rules ?? {} : {};
+    const issues: ReportIssue[] = [];
+    for (const finding of findings) {
+        const severity = resolveRuleSeverity(getSafetyRule(finding.ruleId)!, level, settings);
+        if (severity !== undefined) {
+            issues.push({ ...finding, severity });
+        }
+    }
+    return issues;
+}
+
+function scheduleDiagnostics(document: vscode.TextDocument) {
+    if (document.languageId !== 'c') {
+        return;
+    }
+    const key = document.uri.toString();
+    clearTimeout(pendingAnalyses.get(key));
+    pendingAnalyses.set(key, setTimeout(() => {
+        pendingAnalyses.delete(key);
+        runDiagnostics(document);
+    }, ANALYSIS_DELAY));
+}
+
+/**
+ * Analyzes a document now and publishes its diagnostics
+ */
+export function runDiagnostics(document: vscode.TextDocument) {
+    if (!diagnosticCollection || document.languageId !== 'c' || document.isClosed) {
+        return;
+    }
+
+    try {
+        const key = document.uri.toString();
+        const { findings, cache } = findSafetyIssuesIncrementally(document.getText(), analysisCaches.get(key) ?? new Map());
+        analysisCaches.set(key, cache);
+        diagnosticCollection.set(document.uri, toSafetyDiagnostics(findings, document.isUntitled ? undefined : document.uri.fsPath));
+    } catch (error) {
+        console.error('Error running diagnostics:', error);
+    }
+}
+
+function clearDiagnostics(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    clearTimeout(pendingAnalyses.get(key));
+    pendingAnalyses.delete(key);
+    analysisCaches.delete(key);
+    diagnosticCollection?.delete(document.uri);
+}
+
+/**
+ * Analyzes every C source and header in the workspace, publishes the results to the
+ * Problems panel and offers to export them as a report
+ */
+async function analyzeWorkspace(toolVersion: string) {
+    if (!diagnosticCollection) {
+        return;
+    }
+    const collection = diagnosticCollection;
+
+    try {
+        const files = await vscode.workspace.findFiles('**/*.{c,h}', '**/{node_modules,.git,build}/**');
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No C files found in the workspace');
+            return;
+        }
+        files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+        const fileReports = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Analyzing workspace', cancellable: true },
+            async (progress, token) => {
+                const reports: FileReport[] = [];
+                for (const uri of files) {
+                    if (token.isCancellationRequested) {
+                        return undefined;
+                    }
+                    const relativePath = vscode.workspace.asRelativePath(uri).replace(/\\/g, '/');
+                    progress.report({ message: relativePath, increment: 100 / files.length });
+
+                    // Open documents may have unsaved changes
+                    const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString());
+                    const text = document ? document.getText() : await fs.promises.readFile(uri.fsPath, 'utf8');
+                    const issues = resolveSafetyFindings(findSafetyIssues(text), uri.fsPath);
+                    collection.set(uri, issues.map(issue => createDiagnostic(issue, getSafetyRule(issue.ruleId)!, RULE_SEVERITIES[issue.severity])));
+                    reports.push({ path: relativePath, issues });
+                }
+                return reports;
+            }
+        );
+        if (!fileReports) {
+            vscode.window.showInformationMessage('Workspace analysis cancelled');
+            return;
+        }
+
+        const report: SafetyReport = { created: new Date().toISOString(), files: fileReports };
+        const issueCount = fileReports.reduce((count, file) => count + file.issues.length, 0);
+        const choice = await vscode.window.showInformationMessage(
+            `Found ${issueCount} issue(s) in ${files.length} C file(s)`,
+            'Show Problems',
+            'Export Report...'
+        );
+        if (choice === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else if (choice === 'Export Report...') {
+            await exportReport(report, toolVersion);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error analyzing workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+const REPORT_FORMATS: { format: ReportFormat; label: string; extension: string; description: string }[] = [
+    { format: 'json', label: 'JSON', extension: 'json', description: 'Issues and counts per rule and per file' },
+    { format: 'sarif', label: 'SARIF', extension: 'sarif', description: 'For GitHub code scanning and CI tools' },
+    { format: 'html', label: 'HTML', extension: 'html', description: 'A page to read or share' }
+];
+
+async function exportReport(report: SafetyReport, toolVersion: string) {
+    const choice = await vscode.window.showQuickPick(REPORT_FORMATS, { placeHolder: 'Select the report format' });
+    if (!choice) {
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder && vscode.Uri.joinPath(folder, `lazyc-report.${choice.extension}`),
+        filters: { [choice.label]: [choice.extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const content = choice.format === 'sarif' ? toSarifReport(report, toolVersion)
+        : choice.format === 'html' ? toHtmlReport(report)
+        : toJsonReport(report);
+    fs.writeFileSync(target.fsPath, content, 'utf8');
+    const open = await vscode.window.showInformationMessage(`Report saved to ${vscode.workspace.asRelativePath(target)}`, 'Open');
+    if (open === 'Open') {
+        vscode.commands.executeCommand('vscode.open', target);
+    }
+}
@@ -0,0 +1,286 @@
+/**
+ * Safety quick fixes
+ * Code actions for the diagnostics of the unsafe-function and NULL check checks: rewrite
+ * gets, strcpy, strcat and sprintf into their bounded versions, and check the result of
+ * fopen and malloc. Buffer sizes come from the declaration of the destination array;
+ * no bounded rewrite is offered when the destination is not a char array in scope.
+ */
+
+import * as vscode from 'vscode';
+import { Token } from './cLexer';
+import { parseC, CCall, CFunction, CTranslationUnit } from './cParser';
+import { findIncludeInsertionLine } from './headerInference';
+import { TextEdit, lineOffset } from './prototypes';
+import { DIAGNOSTIC_SOURCE, IGNORE_NEXT_LINE_COMMENT, findAssignedVariable } from './safetyRules';
+
+export interface SafetyFix {
+    title: string;
+    edits: TextEdit[];
+    /** The fix applied by "Fix all" and the lightbulb shortcut */
+    isPreferred?: boolean;
+}
+
+const NULL_CHECKED_FUNCTIONS = new Set(['fopen', 'malloc', 'calloc']);
+/** Rules whose calls can be rewritten, and those a NULL check fixes */
+const UNSAFE_CALL_RULES = new Set(['unsafe-gets', 'unsafe-strcpy', 'unsafe-strcat', 'unsafe-sprintf']);
+const NULL_CHECK_RULES = new Set(['fopen-null-check', 'memory-allocation']);
+const STATEMENT_BOUNDARIES = new Set([';', '{', '}']);
+/** Words of the return types a NULL check can return -1 from */
+const SIGNED_INTEGER_WORDS = new Set(['const', 'signed', 'char', 'short', 'int', 'long', 'ssize_t', 'ptrdiff_t', 'intptr_t', 'intmax_t']);
+
+/**
+ * Returns the ID of the rule that reported a diagnostic of the extension
+ */
+export function getDiagnosticRuleId(diagnostic: vscode.Diagnostic): string | undefined {
+    if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+        return undefined;
+    }
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return code === undefined ? undefined : String(code);
+}
+
+export function registerSafetyFixes(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider({ language: 'c' }, { provideCodeActions }, {
+            providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+        })
+    );
+}
+
+function provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    try {
+        const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+        if (diagnostics.length === 0) {
+            return [];
+        }
+
+        const text = document.getText();
+        const unit = parseC(text);
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            const call = unit.calls.find(candidate => candidate.token.line === line && candidate.token.column === character);
+            const ruleId = getDiagnosticRuleId(diagnostic);
+            if (!ruleId) {
+                continue;
+            }
+
+            const fixes = !call ? []
+                : UNSAFE_CALL_RULES.has(ruleId) ? getUnsafeCallFixes(text, unit, call)
+                    : NULL_CHECK_RULES.has(ruleId) ? [getNullCheckFix(text, unit, call)].filter((fix): fix is SafetyFix => !!fix)
+                        : [];
+            fixes.push({ title: `Suppress '${ruleId}' on this line`, edits: [getSuppressionEdit(text, line, ruleId)] });
+            for (const fix of fixes) {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = fix.isPreferred;
+                action.edit = new vscode.WorkspaceEdit();
+                for (const edit of fix.edits) {
+                    action.edit.replace(document.uri, new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text);
+                }
+                actions.push(action);
+            }
+        }
+        return actions;
+    } catch (error) {
+        console.error('Error providing code actions:', error);
+        return [];
+    }
+}
+
+function tokenIndex(unit: CTranslationUnit, token: Token): number {
+    return unit.tokens.findIndex(candidate => candidate.start === token.start);
+}
+
+/**
+ * True when name is declared as a char array in a block enclosing the call (or at file
+ * scope), so "sizeof name" is its size. Array parameters are pointers and don't count.
+ */
+export function isCharArrayInScope(unit: CTranslationUnit, name: string, call: CCall): boolean {
+    const end = tokenIndex(unit, call.token);
+    const scopes: boolean[] = [false];
+    let statementStart = 0;
+    for (let i = 0; i < end; i++) {
+        const token = unit.tokens[i];
+        if (token.text === '{') {
+            scopes.push(false);
+        } else if (token.text === '}' && scopes.length > 1) {
+            scopes.pop();
+        }
+        if (STATEMENT_BOUNDARIES.has(token.text)) {
+            statementStart = i + 1;
+            continue;
+        }
+
+        if (token.text === name && unit.tokens[i + 1]?.text === '[') {
+            const declaration = unit.tokens.slice(statementStart, i);
+            const isCharDeclaration = declaration.some(candidate => candidate.text === 'char')
+                && !declaration.some(candidate => candidate.text === '=' || candidate.text === '(' || candidate.text === 'return');
+            if (isCharDeclaration) {
+                scopes[scopes.length - 1] = true;
+            }
+        }
+    }
+    return scopes.some(declared => declared);
+}
+
+function argumentText(text: string, arg: Token[]): string {
+    return arg.length > 0 ? text.substring(arg[0].start, arg[arg.length - 1].end) : '';
+}
+
+function getIndentation(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(text.substring(lineStart))![0];
+}
+
+function getIndentUnit(indentation: string): string {
+    return indentation.includes('\t') ? '\t' : '    ';
+}
+
+/** Edit adding "#include <header>" when the file doesn't include it yet */
+function getIncludeEdits(text: string, unit: CTranslationUnit, header: string): TextEdit[] {
+    if (unit.includes.some(include => include.header === header)) {
+        return [];
+    }
+    const line = findIncludeInsertionLine(text);
+    const offset = lineOffset(text, line);
+    const include = `#include <${header}>\n`;
+    return [{ start: offset, end: offset, text: offset === text.length && !text.endsWith('\n') ? '\n' + include : include }];
+}
+
+/**
+ * Returns the edit silencing a rule on a 0-based line: the rule is added to a
+ * "lazyc-ignore-next-line" comment on the line above, or a new comment is inserted
+ */
+export function getSuppressionEdit(text: string, line: number, ruleId: string): TextEdit {
+    const lineStart = lineOffset(text, line);
+    if (line > 0) {
+        const previousStart = lineOffset(text, line - 1);
+        const previous = text.substring(previousStart, lineStart).replace(/\r?\n$/, '');
+        const existing = new RegExp(`^\\s*//\\s*${IGNORE_NEXT_LINE_COMMENT}\\s+[\\w\\s,-]*?\\s*$`).exec(previous);
+        if (existing && !previous.includes(' -- ')) {
+            const end = previousStart + previous.trimEnd().length;
+            return { start: end, end, text: `, ${ruleId}` };
+        }
+    }
+    const indentation = getIndentation(text, lineStart);
+    return { start: lineStart, end: lineStart, text: `${indentation}// ${IGNORE_NEXT_LINE_COMMENT} ${ruleId}\n` };
+}
+
+/**
+ * Returns the rewrites of a call to gets, strcpy, strcat or sprintf into a bounded call
+ */
+export function getUnsafeCallFixes(text: string, unit: CTranslationUnit, call: CCall): SafetyFix[] {
+    const destination = argumentText(text, call.args[0] ?? []);
+    if (!/^[A-Za-z_]\w*$/.test(destination) || !isCharArrayInScope(unit, destination, call)) {
+        return [];
+    }
+
+    const index = tokenIndex(unit, call.token);
+    const previous = unit.tokens[index - 1];
+    const next = unit.tokens.find(token => token.start >= call.end);
+    // The call is a whole expression statement whose result is unused
+    const isStatement = next?.text === ';' && (!previous || STATEMENT_BOUNDARIES.has(previous.text) || previous.text === ')' || previous.text === 'else');
+    // ...and can be followed by another statement in the same block
+    const ownsStatement = isStatement && (!previous || STATEMENT_BOUNDARIES.has(previous.text));
+    const size = `sizeof ${destination}`;
+    const args = call.args.map(arg => argumentText(text, arg));
+    const replaceCall = (replacement: string): TextEdit => ({ start: call.token.start, end: call.end, text: replacement });
+
+    switch (call.name) {
+        case 'gets': {
+            const fgets = `fgets(${destination}, ${size}, stdin)`;
+            if (!ownsStatement) {
+                return [{ title: 'Replace gets with fgets (keeps the newline)', edits: [replaceCall(fgets)], isPreferred: true }];
+            }
+            const indentation = getIndentation(text, call.token.start);
+            const statement = `if (${fgets} != NULL) {\n${indentation}${getIndentUnit(indentation)}${destination}[strcspn(${destination}, "\\n")] = '\\0';\n${indentation}}`;
+            return [{
+                title: 'Replace gets with fgets',
+                edits: [...getIncludeEdits(text, unit, 'string.h'), { start: call.token.start, end: next!.end, text: statement }],
+                isPreferred: true
+            }];
+        }
+        case 'strcpy': {
+            if (args.length !== 2 || !isStatement) {
+                return [];
+            }
+            const fixes: SafetyFix[] = [{
+                title: 'Replace strcpy with snprintf',
+                edits: [...getIncludeEdits(text, unit, 'stdio.h'), replaceCall(`snprintf(${destination}, ${size}, "%s", ${args[1]})`)],
+                isPreferred: true
+            }];
+            if (ownsStatement) {
+                const indentation = getIndentation(text, call.token.start);
+                fixes.push({
+                    title: 'Replace strcpy with strncpy and terminate',
+                    edits: [{ start: call.token.start, end: next!.end, text: `strncpy(${destination}, ${args[1]}, ${size} - 1);\n${indentation}${destination}[${size} - 1] = '\\0';` }]
+                });
+            }
+            return fixes;
+        }
+        case 'strcat':
+            return args.length === 2
+                ? [{ title: 'Replace strcat with strncat', edits: [replaceCall(`strncat(${destination}, ${args[1]}, ${size} - strlen(${destination}) - 1)`)], isPreferred: true }]
+                : [];
+        case 'sprintf':
+            return args.length >= 2
+                ? [{ title: 'Replace sprintf with snprintf', edits: [replaceCall(`snprintf(${destination}, ${size}, ${args.slice(1).join(', ')})`)], isPreferred: true }]
+                : [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Returns the statement leaving a function on failure. Functions returning something
+ * without an error value, such as a struct, a bool or an unsigned count, exit instead.
+ */
+function getFailureStatement(func: CFunction | undefined): string {
+    const returnType = func?.returnType.split(' ').filter(word => word !== 'static' && word !== 'inline' && word !== 'extern').join(' ') ?? 'void';
+    if (func?.name === 'main') {
+        return 'return 1;';
+    }
+    if (returnType === 'void') {
+        return 'return;';
+    }
+    if (returnType.includes('*')) {
+        return 'return NULL;';
+    }
+    return returnType.split(' ').every(word => SIGNED_INTEGER_WORDS.has(word)) ? 'return -1;' : 'exit(EXIT_FAILURE);';
+}
+
+/**
+ * Returns an "if (name == NULL)" block to insert after a statement assigning the result
+ * of fopen, malloc or calloc to a variable, returning from the function on failure
+ */
+export function getNullCheckFix(text: string, unit: CTranslationUnit, call: CCall): SafetyFix | undefined {
+    if (!NULL_CHECKED_FUNCTIONS.has(call.name)) {
+        return undefined;
+    }
+
+    const variable = findAssignedVariable(unit, call);
+    const semicolon = unit.tokens.find(token => token.start >= call.end);
+    if (!variable || semicolon?.text !== ';') {
+        return undefined;
+    }
+
+    const func = unit.functions.find(candidate => candidate.isDefinition && candidate.name === call.inFunction);
+    const returnStatement = getFailureStatement(func);
+    const includeEdits = [
+        ...getIncludeEdits(text, unit, 'stdio.h'),
+        ...(returnStatement.startsWith('exit') ? getIncludeEdits(text, unit, 'stdlib.h') : [])
+    ];
+
+    const indentation = getIndentation(text, call.token.start);
+    const step = getIndentUnit(indentation);
+    const lineEnd = text.indexOf('\n', semicolon.end);
+    const rest = text.substring(semicolon.end, lineEnd === -1 ? text.length : lineEnd);
+    const check = `\n${indentation}if (${variable.text} == NULL) {\n${indentation}${step}perror("${call.name}");\n${indentation}${step}${returnStatement}\n${indentation}}`;
+    const code = rest.trim();
+    // A trailing comment stays on the statement's line; more code moves to a line after the check
+    const edit = !code || code.startsWith('//') || code.startsWith('/*')
+        ? { start: semicolon.end + rest.length, end: semicolon.end + rest.length, text: check }
+        : { start: semicolon.end, end: semicolon.end + rest.length - rest.trimStart().length, text: `${check}\n${indentation}` };
+    return { title: `Insert NULL check for '${variable.text}'`, edits: [...includeEdits, edit], isPreferred: true };
+}
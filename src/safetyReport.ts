@@ -0,0 +1,152 @@
+/**
+ * Safety report
+ * Summarizes the safety rule violations found in a workspace and writes them out as
+ * JSON, SARIF 2.1.0 (read by GitHub code scanning and most CI tools) or a standalone
+ * HTML page.
+ */
+
+import { SAFETY_RULES, RuleSeverity, SafetyFinding } from './safetyRules';
+
+export type ReportFormat = 'json' | 'sarif' | 'html';
+
+export interface ReportIssue extends SafetyFinding {
+    severity: RuleSeverity;
+}
+
+export interface FileReport {
+    /** Path relative to the workspace, with forward slashes */
+    path: string;
+    issues: ReportIssue[];
+}
+
+export interface SafetyReport {
+    /** ISO date of the analysis */
+    created: string;
+    files: FileReport[];
+}
+
+export interface ReportSummary {
+    files: number;
+    issues: number;
+    /** Issues per rule and per file, most first */
+    byRule: { ruleId: string; count: number }[];
+    byFile: { path: string; count: number }[];
+}
+
+const SARIF_LEVELS: { [severity in RuleSeverity]: string } = { error: 'error', warning: 'warning', info: 'note' };
+
+function countBy(keys: string[]): { key: string; count: number }[] {
+    const counts = new Map<string, number>();
+    keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+    return Array.from(counts, ([key, count]) => ({ key, count }))
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+export function summarizeReport(report: SafetyReport): ReportSummary {
+    const issues = report.files.flatMap(file => file.issues);
+    return {
+        files: report.files.length,
+        issues: issues.length,
+        byRule: countBy(issues.map(issue => issue.ruleId)).map(({ key, count }) => ({ ruleId: key, count })),
+        byFile: countBy(report.files.flatMap(file => file.issues.map(() => file.path))).map(({ key, count }) => ({ path: key, count }))
+    };
+}
+
+export function toJsonReport(report: SafetyReport): string {
+    return JSON.stringify({ ...report, summary: summarizeReport(report) }, null, 2);
+}
+
+/**
+ * Writes the report as a SARIF log; locations are relative to %SRCROOT%, the workspace
+ */
+export function toSarifReport(report: SafetyReport, toolVersion: string): string {
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'Lazy C',
+                    version: toolVersion,
+                    rules: SAFETY_RULES.map(rule => ({
+                        id: rule.id,
+                        shortDescription: { text: rule.title },
+                        fullDescription: { text: rule.rationale },
+                        defaultConfiguration: { level: SARIF_LEVELS[rule.severity] }
+                    }))
+                }
+            },
+            invocations: [{ executionSuccessful: true, endTimeUtc: report.created }],
+            results: report.files.flatMap(file => file.issues.map(issue => ({
+                ruleId: issue.ruleId,
+                ruleIndex: SAFETY_RULES.findIndex(rule => rule.id === issue.ruleId),
+                level: SARIF_LEVELS[issue.severity],
+                message: { text: issue.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: file.path, uriBaseId: '%SRCROOT%' },
+                        region: {
+                            startLine: issue.line + 1,
+                            startColumn: issue.column + 1,
+                            endLine: issue.endLine + 1,
+                            endColumn: issue.endColumn + 1
+                        }
+                    }
+                }]
+            })))
+        }]
+    };
+    return JSON.stringify(sarif, null, 2);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Writes the report as an HTML page with the counts per rule and per file, followed by
+ * every issue grouped by file
+ */
+export function toHtmlReport(report: SafetyReport): string {
+    const summary = summarizeReport(report);
+    const titles = new Map(SAFETY_RULES.map(rule => [rule.id, rule.title]));
+    const table = (headings: string[], rows: string[][]) => `<table>
+<tr>${headings.map(heading => `<th>${heading}</th>`).join('')}</tr>
+${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n')}
+</table>`;
+
+    const files = report.files.filter(file => file.issues.length > 0).map(file => `<h3>${escapeHtml(file.path)}</h3>
+${table(['Line', 'Severity', 'Rule', 'Message'], file.issues.map(issue => [
+        String(issue.line + 1),
+        `<span class="${issue.severity}">${issue.severity}</span>`,
+        `<code>${escapeHtml(issue.ruleId)}</code>`,
+        escapeHtml(issue.message)
+    ]))}`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Lazy C safety report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+.error { color: #c00; }
+.warning { color: #b60; }
+.info { color: #06c; }
+</style>
+</head>
+<body>
+<h1>Lazy C safety report</h1>
+<p>${summary.issues} issue(s) in ${summary.byFile.length} of ${summary.files} file(s), ${escapeHtml(report.created)}</p>
+<h2>Issues per rule</h2>
+${table(['Rule', 'Description', 'Issues'], summary.byRule.map(({ ruleId, count }) => [`<code>${escapeHtml(ruleId)}</code>`, escapeHtml(titles.get(ruleId) ?? ''), String(count)]))}
+<h2>Issues per file</h2>
+${table(['File', 'Issues'], summary.byFile.map(({ path, count }) => [escapeHtml(path), String(count)]))}
+<h2>Issues</h2>
+${files}
+</body>
+</html>
+`;
+}
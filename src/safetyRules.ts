@@ -0,0 +1,609 @@
+/**
+ * Safety rules
+ * Catalog of the checks behind the extension's warnings about unsafe C code, and the
+ * analysis that finds their violations. Every rule has a stable ID, used as the
+ * diagnostic code and to filter or suppress it, a severity and a rationale shown in the
+ * reference view. Code can silence rules with comments:
+ *   // lazyc-ignore-next-line <rule>, <rule> -- reason
+ *   /* lazyc-disable <rule> *\/ ... /* lazyc-enable *\/
+ * where leaving out the rules applies to all of them.
+ */
+
+import { Token, tokenize, maskCommentsAndStrings } from './cLexer';
+import { parseC, joinTokens, splitTopLevel, CCall, CTranslationUnit } from './cParser';
+import type { WarningLevel } from './config';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+/** Severity configured for a rule in .lazyc.json */
+export type RuleSetting = 'off' | RuleSeverity;
+
+export interface SafetyRule {
+    id: string;
+    title: string;
+    /** Severity at the default warning level */
+    severity: RuleSeverity;
+    /** Severity at the "high" warning level, when it differs */
+    highSeverity?: RuleSeverity;
+    /** Lowest "c-helper.warningLevel" at which the rule is reported */
+    level: WarningLevel;
+    /** Why the code is a problem and what to write instead */
+    rationale: string;
+    /** Library entry shown next to the rationale in the reference view */
+    reference?: string;
+}
+
+export interface SafetyFinding {
+    ruleId: string;
+    message: string;
+    /** 0-based range of the offending code */
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+/** Lines where rules are silenced by a comment */
+export interface Suppression {
+    /** Rules silenced; undefined for all rules */
+    ruleIds?: string[];
+    startLine: number;
+    endLine: number;
+}
+
+export const DIAGNOSTIC_SOURCE = 'Lazy C';
+export const IGNORE_NEXT_LINE_COMMENT = 'lazyc-ignore-next-line';
+/** Command showing a rule's rationale in the reference view; diagnostic codes link to it */
+export const SHOW_RULE_COMMAND = 'c-helper.showRule';
+
+export const SAFETY_RULES: SafetyRule[] = [
+    {
+        id: 'unsafe-gets',
+        title: 'gets cannot limit its input',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'gets writes as many characters as the user types, so any input longer than the buffer overflows it. It was removed in C11. Use fgets with the size of the buffer and strip the newline it keeps.',
+        reference: 'gets'
+    },
+    {
+        id: 'unsafe-strcpy',
+        title: 'strcpy does not check the destination size',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'strcpy copies until the end of the source, overflowing a smaller destination. Use snprintf(dest, sizeof dest, "%s", src), or strncpy and terminate the destination yourself.',
+        reference: 'strcpy'
+    },
+    {
+        id: 'unsafe-strcat',
+        title: 'strcat does not check the destination size',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'strcat appends the whole source whatever room is left in the destination. Use strncat with the space remaining, sizeof dest - strlen(dest) - 1.',
+        reference: 'strcat'
+    },
+    {
+        id: 'unsafe-sprintf',
+        title: 'sprintf does not check the buffer size',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'sprintf writes the whole formatted result, however long the arguments make it. Use snprintf with the size of the buffer; its return value tells whether the output was truncated.',
+        reference: 'sprintf'
+    },
+    {
+        id: 'unsafe-vsprintf',
+        title: 'vsprintf does not check the buffer size',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'vsprintf has the same overflow as sprintf. Use vsnprintf with the size of the buffer.',
+        reference: 'vsprintf'
+    },
+    {
+        id: 'scanf-unbounded-string',
+        title: 'scanf %s without a field width',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'A %s or %[ conversion without a width reads a word of any length into the buffer. Give the width, one less than the buffer size, e.g. %19s for char name[20].',
+        reference: 'scanf'
+    },
+    {
+        id: 'format-string',
+        title: 'Format string is not a literal',
+        severity: 'warning',
+        highSeverity: 'error',
+        level: 'low',
+        rationale: 'When the format of printf and its relatives comes from a variable, a % in the data is read as a conversion and can read or write arbitrary memory. Print data with a literal format, e.g. printf("%s", text).',
+        reference: 'printf'
+    },
+    {
+        id: 'realloc-self-assign',
+        title: 'realloc result assigned to the pointer passed in',
+        severity: 'warning',
+        level: 'medium',
+        rationale: 'When realloc fails it returns NULL and leaves the old block alone; "p = realloc(p, n)" then loses the only pointer to it. Assign the result to a temporary and replace p once it is not NULL.',
+        reference: 'realloc'
+    },
+    {
+        id: 'system-call',
+        title: 'system runs a shell command',
+        severity: 'warning',
+        level: 'medium',
+        rationale: 'system passes its argument to the shell, so any outside data in the command can run other commands. Prefer calling the functionality directly, or fork and exec with an argument list.',
+        reference: 'system'
+    },
+    {
+        id: 'insecure-temp-file',
+        title: 'Temporary file name can be raced',
+        severity: 'warning',
+        level: 'medium',
+        rationale: 'tmpnam, tempnam and mktemp return a name that another process can create before the program opens it. Use tmpfile, or mkstemp, which create and open the file in one step.',
+        reference: 'tmpnam'
+    },
+    {
+        id: 'alloca',
+        title: 'alloca cannot report failure',
+        severity: 'warning',
+        level: 'medium',
+        rationale: 'alloca takes memory from the stack and overflows it silently when the size is too large. Use malloc and free, or a fixed-size array when the size is bounded.'
+    },
+    {
+        id: 'strtok-not-reentrant',
+        title: 'strtok keeps hidden state',
+        severity: 'info',
+        highSeverity: 'warning',
+        level: 'medium',
+        rationale: 'strtok remembers its position in a static variable, so nested loops, callbacks and threads that tokenize at the same time corrupt each other. Use strtok_r, which keeps the position in a variable you pass.',
+        reference: 'strtok'
+    },
+    {
+        id: 'unchecked-conversion',
+        title: 'Number conversion without error detection',
+        severity: 'info',
+        highSeverity: 'warning',
+        level: 'medium',
+        rationale: 'atoi, atol, atoll and atof return 0 for text that is not a number and have undefined behavior when the value is out of range. Use strtol, strtoll or strtod and check errno and the end pointer.',
+        reference: 'atoi'
+    },
+    {
+        id: 'insecure-rand',
+        title: 'rand is not suitable for security',
+        severity: 'info',
+        level: 'high',
+        rationale: 'rand is a predictable generator with a small state. It is fine for games and simulations but not for passwords, tokens or keys; use the operating system\'s generator such as getrandom or /dev/urandom.',
+        reference: 'rand'
+    },
+    {
+        id: 'assignment-in-condition',
+        title: 'Assignment in a condition',
+        severity: 'warning',
+        level: 'medium',
+        rationale: 'A single = in an if or while condition assigns instead of comparing, and the condition is then the assigned value. Write == to compare, or put the assignment in extra parentheses when it is intended.'
+    },
+    {
+        id: 'fopen-null-check',
+        title: 'fopen result not checked',
+        severity: 'info',
+        highSeverity: 'warning',
+        level: 'medium',
+        rationale: 'fopen returns NULL when the file cannot be opened, and passing NULL to the other stdio functions crashes the program. Check the result and report the error with perror.',
+        reference: 'fopen'
+    },
+    {
+        id: 'memory-allocation',
+        title: 'Allocated memory must be freed',
+        severity: 'info',
+        level: 'high',
+        rationale: 'Memory from malloc, calloc and realloc stays allocated until it is passed to free. "Lazy C: Run with Sanitizers" and "Run with Valgrind" report the blocks that leak.',
+        reference: 'malloc'
+    }
+];
+
+/** Functions reported by name, with the rule and the replacement suggested */
+const FUNCTION_RULES: { [name: string]: { ruleId: string; alternative: string } } = {
+    gets: { ruleId: 'unsafe-gets', alternative: 'fgets' },
+    strcpy: { ruleId: 'unsafe-strcpy', alternative: 'strncpy' },
+    strcat: { ruleId: 'unsafe-strcat', alternative: 'strncat' },
+    sprintf: { ruleId: 'unsafe-sprintf', alternative: 'snprintf' },
+    vsprintf: { ruleId: 'unsafe-vsprintf', alternative: 'vsnprintf' },
+    system: { ruleId: 'system-call', alternative: 'fork and exec' },
+    tmpnam: { ruleId: 'insecure-temp-file', alternative: 'tmpfile' },
+    tempnam: { ruleId: 'insecure-temp-file', alternative: 'mkstemp' },
+    mktemp: { ruleId: 'insecure-temp-file', alternative: 'mkstemp' },
+    alloca: { ruleId: 'alloca', alternative: 'malloc' },
+    strtok: { ruleId: 'strtok-not-reentrant', alternative: 'strtok_r' },
+    atoi: { ruleId: 'unchecked-conversion', alternative: 'strtol' },
+    atol: { ruleId: 'unchecked-conversion', alternative: 'strtol' },
+    atoll: { ruleId: 'unchecked-conversion', alternative: 'strtoll' },
+    atof: { ruleId: 'unchecked-conversion', alternative: 'strtod' },
+    rand: { ruleId: 'insecure-rand', alternative: 'getrandom' }
+};
+
+/** Index of the format argument of the printf and scanf families */
+const PRINTF_FORMAT_ARGUMENTS: { [name: string]: number } = { printf: 0, fprintf: 1, dprintf: 1, sprintf: 1, snprintf: 2, syslog: 1 };
+const SCANF_FORMAT_ARGUMENTS: { [name: string]: number } = { scanf: 0, fscanf: 1, sscanf: 1 };
+const ALLOCATION_FUNCTIONS = new Set(['malloc', 'calloc', 'realloc']);
+const WARNING_LEVEL_ORDER: WarningLevel[] = ['low', 'medium', 'high'];
+
+export function getSafetyRule(id: string): SafetyRule | undefined {
+    return SAFETY_RULES.find(rule => rule.id === id);
+}
+
+/**
+ * Returns the severity a rule is reported with at a warning level, or undefined when
+ * the level is too low for it
+ */
+export function getRuleSeverity(rule: SafetyRule, level: WarningLevel): RuleSeverity | undefined {
+    if (WARNING_LEVEL_ORDER.indexOf(level) < WARNING_LEVEL_ORDER.indexOf(rule.level)) {
+        return undefined;
+    }
+    return level === 'high' ? rule.highSeverity ?? rule.severity : rule.severity;
+}
+
+/**
+ * Returns the severity of a rule taking the project's rule settings into account; a
+ * rule listed there is reported at that severity whatever the warning level
+ */
+export function resolveRuleSeverity(rule: SafetyRule, level: WarningLevel, settings: { [ruleId: string]: RuleSetting } = {}): RuleSeverity | undefined {
+    const setting = lookup(settings, rule.id);
+    if (setting === 'off') {
+        return undefined;
+    }
+    if (setting === 'error' || setting === 'warning' || setting === 'info') {
+        return setting;
+    }
+    return getRuleSeverity(rule, level);
+}
+
+/**
+ * Reads the suppression comments of a file. A "lazyc-disable" without a matching
+ * "lazyc-enable" lasts to the end of the file.
+ */
+export function findSuppressions(comments: Token[]): Suppression[] {
+    const suppressions: Suppression[] = [];
+    // Start lines of the open lazyc-disable regions, by rule ID or "*" for all rules
+    const disabled = new Map<string, number>();
+    const close = (key: string, endLine: number) => {
+        suppressions.push({ ruleIds: key === '*' ? undefined : [key], startLine: disabled.get(key)!, endLine });
+        disabled.delete(key);
+    };
+
+    for (const comment of comments) {
+        const content = comment.text.replace(/^\/\/|^\/\*|\*\/$/g, '').split(' -- ')[0];
+        const match = /^\s*lazyc-(ignore-next-line|disable|enable)(?=\s|$)(.*)$/s.exec(content);
+        if (!match) {
+            continue;
+        }
+
+        const ruleIds = match[2].split(/[\s,]+/).filter(id => id.length > 0);
+        if (match[1] === 'ignore-next-line') {
+            const line = comment.endLine + 1;
+            suppressions.push({ ruleIds: ruleIds.length > 0 ? ruleIds : undefined, startLine: line, endLine: line });
+        } else if (match[1] === 'disable') {
+            for (const key of ruleIds.length > 0 ? ruleIds : ['*']) {
+                if (!disabled.has(key)) {
+                    disabled.set(key, comment.line);
+                }
+            }
+        } else {
+            for (const key of ruleIds.length > 0 ? ruleIds : Array.from(disabled.keys())) {
+                if (disabled.has(key)) {
+                    close(key, comment.line);
+                }
+            }
+        }
+    }
+    for (const key of Array.from(disabled.keys())) {
+        close(key, Number.MAX_SAFE_INTEGER);
+    }
+    return suppressions;
+}
+
+/**
+ * True when a suppression covers the line a finding starts on
+ */
+export function isSuppressed(finding: SafetyFinding, suppressions: Suppression[]): boolean {
+    return suppressions.some(suppression => finding.line >= suppression.startLine && finding.line <= suppression.endLine
+        && (!suppression.ruleIds || suppression.ruleIds.includes(finding.ruleId)));
+}
+
+function lookup<T>(map: { [name: string]: T }, name: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(map, name) ? map[name] : undefined;
+}
+
+function callRange(call: CCall) {
+    const { line, column } = call.token;
+    return { line, column, endLine: line, endColumn: column + call.name.length };
+}
+
+/** Range from a call to the end of its line, ignoring trailing comments */
+function callLineRange(call: CCall, lines: string[]) {
+    const { line, column } = call.token;
+    return { line, column, endLine: line, endColumn: lines[line].trimEnd().length };
+}
+
+/**
+ * Returns the index of the "=" a call's result is assigned with, skipping a cast such as
+ * "(int *)" between the two
+ */
+function findAssignmentIndex(unit: CTranslationUnit, call: CCall): number | undefined {
+    let index = unit.tokens.findIndex(token => token.start === call.token.start) - 1;
+    if (unit.tokens[index]?.text === ')') {
+        while (index > 0 && unit.tokens[index].text !== '(') {
+            index--;
+        }
+        index--;
+    }
+    return unit.tokens[index]?.text === '=' ? index : undefined;
+}
+
+/**
+ * Returns the tokens of the expression a call's result is assigned to, such as
+ * "node->data" in "node->data = realloc(node->data, n)"
+ */
+function findAssignmentTarget(unit: CTranslationUnit, call: CCall): Token[] | undefined {
+    const end = findAssignmentIndex(unit, call);
+    if (end === undefined) {
+        return undefined;
+    }
+    let index = end;
+    let depth = 0;
+    while (index > 0) {
+        const previous = unit.tokens[index - 1];
+        if (previous.text === ']' || previous.text === ')') {
+            depth++;
+        } else if (depth > 0 && (previous.text === '[' || previous.text === '(')) {
+            depth--;
+        } else if (depth === 0 && [';', '{', '}', ',', '(', '='].includes(previous.text)) {
+            break;
+        }
+        index--;
+    }
+    const target = unit.tokens.slice(index, end);
+    return target.length > 0 ? target : undefined;
+}
+
+/**
+ * Returns the variable a call's result is assigned to, as in "FILE *fp = fopen(...)"
+ * or "p = (int *)malloc(...)"
+ */
+export function findAssignedVariable(unit: CTranslationUnit, call: CCall): Token | undefined {
+    const target = findAssignmentTarget(unit, call);
+    const variable = target?.[target.length - 1];
+    return variable?.kind === 'identifier' ? variable : undefined;
+}
+
+/** Joined contents of the string literals of an argument; undefined when it has none */
+function literalText(arg: Token[]): string | undefined {
+    const strings = arg.filter(token => token.kind === 'string');
+    return strings.length > 0 ? strings.map(token => token.text.replace(/^[^"]*"|"$/g, '')).join('') : undefined;
+}
+
+/**
+ * True when a scanf format reads a string (%s or %[...]) without a maximum field width
+ */
+export function hasUnboundedStringConversion(format: string): boolean {
+    const conversion = /%(%|\*?(\d*)(?:hh|h|ll|l|L|j|z|t)?(s|\[|[a-zA-Z]))/g;
+    let match: RegExpExecArray | null;
+    while ((match = conversion.exec(format)) !== null) {
+        const suppressed = match[1].startsWith('*');
+        if (match[1] !== '%' && !suppressed && !match[2] && (match[3] === 's' || match[3] === '[')) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function checkCall(call: CCall, unit: CTranslationUnit, lines: string[], findings: SafetyFinding[]) {
+    const add = (ruleId: string, message: string, range = callRange(call)) => findings.push({ ruleId, message, ...range });
+
+    const functionRule = lookup(FUNCTION_RULES, call.name);
+    if (functionRule) {
+        const message = functionRule.ruleId.startsWith('unsafe-')
+            ? `Unsafe function '${call.name}'. Consider using '${functionRule.alternative}' instead.`
+            : `${getSafetyRule(functionRule.ruleId)!.title}. Consider using '${functionRule.alternative}' instead of '${call.name}'.`;
+        add(functionRule.ruleId, message);
+    }
+
+    const scanfFormat = lookup(SCANF_FORMAT_ARGUMENTS, call.name);
+    if (scanfFormat !== undefined && call.args[scanfFormat]) {
+        const format = literalText(call.args[scanfFormat]);
+        if (format !== undefined && hasUnboundedStringConversion(format)) {
+            add('scanf-unbounded-string', `'${call.name}' reads a string without a field width; give the maximum length, e.g. %19s`);
+        }
+    }
+
+    // printf(text): a non-literal format with nothing to format
+    const printfFormat = lookup(PRINTF_FORMAT_ARGUMENTS, call.name);
+    const format = printfFormat !== undefined ? call.args[printfFormat] : undefined;
+    if (format && format.length > 0 && call.args.length === printfFormat! + 1 && literalText(format) === undefined
+        && !(format.length === 1 && /^[A-Z_][A-Z0-9_]*$/.test(format[0].text))) {
+        add('format-string', `Format string of '${call.name}' is not a literal; use "%s" to print the text`);
+    }
+
+    if (call.name === 'realloc' && call.args.length === 2) {
+        const target = findAssignmentTarget(unit, call);
+        if (target && joinTokens(target) === joinTokens(call.args[0])) {
+            add('realloc-self-assign', `'${joinTokens(target)}' is lost when realloc fails; assign the result to a temporary first`,
+                { line: target[0].line, column: target[0].column, endLine: call.token.line, endColumn: call.token.column + call.name.length });
+        }
+    }
+
+    if (ALLOCATION_FUNCTIONS.has(call.name)) {
+        add('memory-allocation', 'Remember to free allocated memory. "Lazy C: Run with Sanitizers" or "Run with Valgrind" report actual leaks', callLineRange(call, lines));
+    }
+
+    if (call.name === 'fopen') {
+        const lineNumber = call.token.line;
+        const nextLines = lines.slice(lineNumber + 1, Math.min(lineNumber + 5, lines.length)).join('\n');
+        // Check for NULL check or error handling
+        const hasNullCheck = /\bNULL\b/.test(nextLines) || /\b!=\s*NULL|==\s*NULL\b/.test(nextLines);
+        const hasErrorHandling = /\bif\s*\(/.test(nextLines) || /perror/.test(nextLines);
+        if (!hasNullCheck && !hasErrorHandling) {
+            add('fopen-null-check', 'Consider checking if fopen() returned NULL before using the file pointer', callLineRange(call, lines));
+        }
+    }
+}
+
+/** Findings of a code region, cached by the region's text */
+export type SafetyAnalysisCache = Map<string, SafetyFinding[]>;
+
+export interface IncrementalAnalysis {
+    findings: SafetyFinding[];
+    /** Cache to pass to the next analysis of the same file */
+    cache: SafetyAnalysisCache;
+    /** Number of regions that were not in the cache */
+    analyzedRegions: number;
+}
+
+/** A top-level construct ending in a brace block, usually a function definition */
+export interface CodeRegion {
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
+function findRuleViolations(text: string, unit: CTranslationUnit): SafetyFinding[] {
+    const findings: SafetyFinding[] = [];
+    // Code only, so checks that look at surrounding lines ignore comments and strings
+    const lines = maskCommentsAndStrings(text).split('\n');
+
+    for (const call of unit.calls) {
+        checkCall(call, unit, lines, findings);
+    }
+
+    for (const condition of unit.conditions) {
+        if (condition.keyword === 'switch') {
+            continue;
+        }
+
+        // "if ((c = next()))" asks for the assignment explicitly; only a top-level "=" is suspicious
+        const topLevel = splitTopLevel(condition.tokens, '=');
+        if (topLevel.length < 2) {
+            continue;
+        }
+
+        const start = condition.keywordToken;
+        const last = condition.tokens[condition.tokens.length - 1];
+        findings.push({
+            ruleId: 'assignment-in-condition',
+            message: 'Possible assignment instead of comparison in conditional statement',
+            line: start.line,
+            column: start.column,
+            endLine: last.endLine,
+            endColumn: last.column + last.text.length + 1
+        });
+    }
+    return findings;
+}
+
+function applySuppressions(findings: SafetyFinding[], comments: Token[]): SafetyFinding[] {
+    const suppressions = findSuppressions(comments);
+    return findings
+        .filter(finding => !isSuppressed(finding, suppressions))
+        .sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Finds the violations of every safety rule in a C file, whatever their severity,
+ * leaving out those silenced by suppression comments
+ * @param unit The parsed text, when the caller has it already
+ */
+export function findSafetyIssues(text: string, unit: CTranslationUnit = parseC(text)): SafetyFinding[] {
+    return applySuppressions(findRuleViolations(text, unit), unit.comments);
+}
+
+/**
+ * Splits a file into its top-level constructs that end in a brace block: function
+ * definitions, with the comments and directives before them, and struct or array
+ * definitions. Declarations ending in a semicolon are left out; rules only look at
+ * code inside function bodies. A block that is still open at the end of the file, as
+ * while typing "if (x) {" or with braces opened in both branches of an #ifdef, makes
+ * the rest of the file one region.
+ */
+export function splitCodeRegions(text: string): CodeRegion[] {
+    const masked = maskCommentsAndStrings(text);
+    const regions: CodeRegion[] = [];
+    let depth = 0;
+    let regionStart = -1;
+    let line = 0;
+    let lineStart = 0;
+    let startLine = 0;
+    let startColumn = 0;
+    let atLineStart = true;
+
+    for (let i = 0; i < masked.length; i++) {
+        const char = masked[i];
+        if (char === '\n') {
+            line++;
+            lineStart = i + 1;
+            atLineStart = true;
+            continue;
+        }
+        // Preprocessor directives, with their continuation lines, don't open or close blocks
+        if (atLineStart && char === '#') {
+            while (i + 1 < masked.length && (masked[i + 1] !== '\n' || masked[i] === '\\')) {
+                if (masked[++i] === '\n') {
+                    line++;
+                    lineStart = i + 1;
+                }
+            }
+            continue;
+        }
+        if (!/\s/.test(char)) {
+            atLineStart = false;
+        }
+        if (depth === 0 && regionStart < 0 && !/\s/.test(char)) {
+            regionStart = i;
+            startLine = line;
+            startColumn = i - lineStart;
+        }
+
+        if (char === '{') {
+            depth++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+            if (depth === 0) {
+                regions.push({ start: regionStart, end: i + 1, line: startLine, column: startColumn });
+                regionStart = -1;
+            }
+        } else if (char === ';' && depth === 0) {
+            regionStart = -1;
+        }
+    }
+    if (depth > 0) {
+        regions.push({ start: regionStart, end: masked.length, line: startLine, column: startColumn });
+    }
+    return regions;
+}
+
+/**
+ * Finds the same issues as findSafetyIssues, but only analyzes the regions of the file
+ * (see splitCodeRegions) whose text is not in the cache of the previous analysis, so
+ * typing in one function doesn't re-analyze the others
+ */
+export function findSafetyIssuesIncrementally(text: string, previous: SafetyAnalysisCache): IncrementalAnalysis {
+    const cache: SafetyAnalysisCache = new Map();
+    const findings: SafetyFinding[] = [];
+    let analyzedRegions = 0;
+
+    for (const region of splitCodeRegions(text)) {
+        // Columns on the first line count from the start of the line, so the key includes the indentation
+        const regionText = ' '.repeat(region.column) + text.substring(region.start, region.end);
+        let regionFindings = cache.get(regionText) ?? previous.get(regionText);
+        if (!regionFindings) {
+            regionFindings = findRuleViolations(regionText, parseC(regionText));
+            analyzedRegions++;
+        }
+        cache.set(regionText, regionFindings);
+        findings.push(...regionFindings.map(finding => ({ ...finding, line: finding.line + region.line, endLine: finding.endLine + region.line })));
+    }
+
+    // Suppression comments are rare enough to tokenize the whole file for them
+    const comments = text.includes('lazyc-') ? tokenize(text).filter(token => token.kind === 'comment') : [];
+    return { findings: applySuppressions(findings, comments), cache, analyzedRegions };
+}
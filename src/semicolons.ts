@@ -0,0 +1,281 @@
+/**
+ * Semicolon insertion
+ * Decides whether a line ends a statement that is missing its semicolon, looking at
+ * bracket nesting and the lines around it rather than at the line alone
+ */
+
+import { tokenize, Token } from './cLexer';
+import { SemicolonRule, SemicolonRules } from './config';
+
+export interface SemicolonInsertion {
+    /** 0-based line and column to insert the semicolon at */
+    line: number;
+    column: number;
+    /** The rule that asked for the semicolon */
+    rule: SemicolonRule;
+}
+
+type FrameKind = 'paren' | 'bracket' | 'block' | 'type' | 'enum' | 'initializer';
+
+interface Frame {
+    kind: FrameKind;
+    /** Index of the opening token */
+    open: number;
+    /** Statement start to restore once an aggregate or initializer closes */
+    statementStart: number;
+    /** Block of a do-while loop */
+    isDo?: boolean;
+    /** Body of a "typedef struct { ... }", which still needs its name */
+    isTypedef?: boolean;
+}
+
+// A line ending with one of these continues on the next line
+const CONTINUING_PUNCTUATORS = new Set([
+    ';', '{', ',', ':', '(', '[', '?', '.', '->', '#', '##', '=', '+', '-', '*', '/', '%', '&', '|', '^', '!', '~',
+    '<', '>', '<=', '>=', '==', '!=', '&&', '||', '<<', '>>',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>='
+]);
+// A line followed by one of these continues too; unary operators are left out because a
+// new statement can start with them ("*p = 0", "-x", "++i")
+const CONTINUATION_STARTERS = new Set([
+    '{', ')', ']', ',', '?', ':', '.', '->', '=', '==', '!=', '<', '>', '<=', '>=', '&&', '||', '/', '%', '|', '^',
+    '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>='
+]);
+const TYPE_WORDS = new Set([
+    'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', '_Bool', 'bool',
+    '_Complex', 'struct', 'union', 'enum', 'const', 'volatile', 'restrict', '_Atomic', 'static', 'extern',
+    'register', 'auto', 'inline', '_Noreturn', '_Thread_local', 'thread_local', 'constexpr', 'typedef'
+]);
+const CONTROL_KEYWORDS = new Set(['if', 'while', 'for', 'switch']);
+const JUMP_KEYWORDS = new Set(['return', 'break', 'continue', 'goto']);
+
+/**
+ * Follows bracket nesting and statement boundaries up to the end of a line
+ */
+class StatementScanner {
+    readonly stack: Frame[] = [];
+    statementStart = 0;
+    /** Frames by the index of the token that closed them */
+    readonly closed = new Map<number, Frame>();
+
+    constructor(private readonly tokens: Token[]) {}
+
+    scan(until: number) {
+        for (let i = 0; i <= until; i++) {
+            this.step(i);
+        }
+    }
+
+    private get top(): Frame | undefined {
+        return this.stack[this.stack.length - 1];
+    }
+
+    private step(i: number) {
+        const token = this.tokens[i];
+        const previous = this.tokens[i - 1];
+        const text = token.text;
+
+        if (token.kind === 'keyword' && (text === 'else' || text === 'do')) {
+            this.statementStart = i + 1;
+            return;
+        }
+        if (token.kind !== 'punctuator') {
+            return;
+        }
+
+        if (text === '(' || text === '[') {
+            this.stack.push({ kind: text === '(' ? 'paren' : 'bracket', open: i, statementStart: this.statementStart });
+        } else if (text === '{') {
+            this.stack.push({ kind: this.classifyBrace(i), open: i, statementStart: this.statementStart, isDo: previous?.text === 'do', isTypedef: this.tokens[this.statementStart]?.text === 'typedef' });
+            if (this.top?.kind === 'block' || this.top?.kind === 'type') {
+                this.statementStart = i + 1;
+            }
+        } else if (text === ')' || text === ']' || text === '}') {
+            const frame = this.stack.pop();
+            if (!frame) {
+                this.statementStart = i + 1;
+                return;
+            }
+            this.closed.set(i, frame);
+            if (frame.kind === 'block') {
+                this.statementStart = i + 1;
+            } else if (frame.kind === 'type' || frame.kind === 'enum' || frame.kind === 'initializer') {
+                this.statementStart = frame.statementStart;
+            } else if (frame.kind === 'paren' && CONTROL_KEYWORDS.has(this.tokens[frame.open - 1]?.text) && !this.isDoWhile(frame.open - 1)) {
+                // The body of "if (...)" starts a statement of its own
+                this.statementStart = i + 1;
+            }
+        } else if (text === ';' && (!this.top || this.top.kind === 'block' || this.top.kind === 'type')) {
+            this.statementStart = i + 1;
+        } else if (text === ':' && this.isLabel(i)) {
+            this.statementStart = i + 1;
+        }
+    }
+
+    private classifyBrace(index: number): FrameKind {
+        const previous = this.tokens[index - 1];
+        if (previous?.text === '=' || this.top?.kind === 'initializer' || this.top?.kind === 'paren') {
+            return 'initializer';
+        }
+        const statement = this.tokens.slice(this.statementStart, index).map(token => token.text);
+        if (previous?.text !== ')' && statement.includes('enum')) {
+            return 'enum';
+        }
+        if (previous?.text !== ')' && (statement.includes('struct') || statement.includes('union'))) {
+            return 'type';
+        }
+        return 'block';
+    }
+
+    private isLabel(index: number): boolean {
+        const statement = this.tokens.slice(this.statementStart, index);
+        return (!this.top || this.top.kind === 'block')
+            && (statement[0]?.text === 'case' || statement[0]?.text === 'default'
+                || (statement.length === 1 && statement[0].kind === 'identifier'));
+    }
+
+    /** True for the "while" of "do { ... } while (...)" */
+    isDoWhile(whileIndex: number): boolean {
+        const whileToken = this.tokens[whileIndex];
+        const before = this.tokens[whileIndex - 1];
+        return whileToken?.text === 'while' && before?.text === '}' && !!this.closed.get(whileIndex - 1)?.isDo;
+    }
+}
+
+function isDeclaration(statement: Token[]): boolean {
+    const [first, second, third] = statement;
+    if (!first) {
+        return false;
+    }
+    if (first.kind === 'keyword' && TYPE_WORDS.has(first.text)) {
+        return true;
+    }
+    // "size_t n", "FILE *file", "node_t **head"
+    return first.kind === 'identifier' && (second?.kind === 'identifier' || (second?.text === '*' && (third?.kind === 'identifier' || third?.text === '*')));
+}
+
+function classifyStatement(statement: Token[]): SemicolonRule {
+    if (statement[0] && JUMP_KEYWORDS.has(statement[0].text)) {
+        return 'jumps';
+    }
+    return isDeclaration(statement) ? 'declarations' : 'statements';
+}
+
+/**
+ * Returns the code of a line without a trailing // comment, to look for a backslash continuation
+ */
+function codeOfLine(lineText: string, lineTokens: Token[]): string {
+    const comment = lineTokens.find(token => token.kind === 'comment');
+    return comment ? lineText.substring(0, comment.column) : lineText;
+}
+
+function findForLine(tokens: Token[], codeTokens: Token[], lineText: string, lineNumber: number, rules: SemicolonRules): SemicolonInsertion | undefined {
+    const lineTokens = tokens.filter(token => token.line <= lineNumber && token.endLine >= lineNumber);
+    // Inside a block comment, a directive or a literal that started on an earlier line
+    if (lineTokens.some(token => token.line < lineNumber)) {
+        return undefined;
+    }
+    if (lineTokens.some(token => token.kind === 'preprocessor') || codeOfLine(lineText, lineTokens).trimEnd().endsWith('\\')) {
+        return undefined;
+    }
+
+    const lastIndex = codeTokens.findIndex((token, index) => token.line === lineNumber && codeTokens[index + 1]?.line !== lineNumber);
+    if (lastIndex === -1) {
+        return undefined;
+    }
+    const last = codeTokens[lastIndex];
+    const next = codeTokens[lastIndex + 1];
+
+    if (last.kind === 'punctuator' && CONTINUING_PUNCTUATORS.has(last.text)) {
+        return undefined;
+    }
+    if (last.kind === 'keyword' && (TYPE_WORDS.has(last.text) || last.text === 'else' || last.text === 'do' || last.text === 'case')) {
+        return undefined;
+    }
+    if (next && next.kind === 'punctuator' && CONTINUATION_STARTERS.has(next.text)) {
+        return undefined;
+    }
+    // Adjacent string literals are joined: "first part"
+    //                                      "second part";
+    if (last.kind === 'string' && next?.kind === 'string') {
+        return undefined;
+    }
+
+    const scanner = new StatementScanner(codeTokens);
+    scanner.scan(lastIndex);
+    const frame = scanner.stack[scanner.stack.length - 1];
+    if (frame && frame.kind !== 'block' && frame.kind !== 'type') {
+        return undefined;
+    }
+
+    const statement = codeTokens.slice(scanner.statementStart, lastIndex + 1);
+    const insertion = (rule: SemicolonRule) => rules[rule] ? { line: last.endLine, column: last.column + last.text.length, rule } : undefined;
+
+    if (last.text === '}') {
+        const closed = scanner.closed.get(lastIndex);
+        if ((closed?.kind === 'type' || closed?.kind === 'enum') && !closed.isTypedef) {
+            return insertion('typeDefinitions');
+        }
+        if (closed?.kind === 'initializer' && statement.length > 0) {
+            return insertion('declarations');
+        }
+        return undefined;
+    }
+
+    if (last.text === ')') {
+        const closed = scanner.closed.get(lastIndex);
+        const keywordIndex = closed ? closed.open - 1 : -1;
+        if (scanner.isDoWhile(keywordIndex)) {
+            return insertion('doWhile');
+        }
+        if (CONTROL_KEYWORDS.has(codeTokens[keywordIndex]?.text)) {
+            return undefined;
+        }
+        // At file scope "int add(int a)" may have its body on the next line; macros too
+        if (!frame) {
+            return undefined;
+        }
+    }
+
+    if (statement.length === 0) {
+        return undefined;
+    }
+    if (!frame) {
+        // Only declarations end with a semicolon at file scope
+        return isDeclaration(statement) && !isTagOnly(statement) ? insertion('declarations') : undefined;
+    }
+    if (isTagOnly(statement)) {
+        return undefined;
+    }
+    return insertion(classifyStatement(statement));
+}
+
+/** "struct node" on its own is usually followed by a body on the next line */
+function isTagOnly(statement: Token[]): boolean {
+    const words = statement.filter(token => token.text !== 'typedef');
+    return words.length <= 2 && ['struct', 'union', 'enum'].includes(words[0]?.text);
+}
+
+/**
+ * Finds the lines among lineNumbers that end a statement without its semicolon
+ * @param text Full document text
+ * @param lineNumbers 0-based lines to check
+ * @param rules Kinds of statements semicolons are added to
+ */
+export function findMissingSemicolons(text: string, lineNumbers: number[], rules: SemicolonRules): SemicolonInsertion[] {
+    const tokens = tokenize(text);
+    const codeTokens = tokens.filter(token => token.kind !== 'comment' && token.kind !== 'preprocessor');
+    const lines = text.split('\n');
+    const insertions: SemicolonInsertion[] = [];
+
+    for (const lineNumber of Array.from(new Set(lineNumbers)).sort((a, b) => a - b)) {
+        if (lineNumber < 0 || lineNumber >= lines.length) {
+            continue;
+        }
+        const insertion = findForLine(tokens, codeTokens, lines[lineNumber], lineNumber, rules);
+        if (insertion) {
+            insertions.push(insertion);
+        }
+    }
+    return insertions;
+}
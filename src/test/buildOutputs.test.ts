@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { expandOutputTemplate, getExecutableFileName, mirrorSourceDirectory } from '../buildOutputs';
+
+// @ts-ignore - mocha global
+suite('Build Outputs', () => {
+	// @ts-ignore - mocha global
+	test('adds .exe on Windows only', () => {
+		assert.strictEqual(getExecutableFileName('hello', 'win32'), 'hello.exe');
+		assert.strictEqual(getExecutableFileName('hello.exe', 'win32'), 'hello.exe');
+		assert.strictEqual(getExecutableFileName('hello', 'linux'), 'hello');
+		assert.strictEqual(getExecutableFileName('hello', 'darwin'), 'hello');
+	});
+
+	// @ts-ignore - mocha global
+	test('expands name and profile variables', () => {
+		assert.strictEqual(expandOutputTemplate('${name}', 'main', 'debug'), 'main');
+		assert.strictEqual(expandOutputTemplate('${name}-${profile}', 'main', 'release'), 'main-release');
+		assert.strictEqual(expandOutputTemplate('build/${profile}', 'main', 'sanitize'), 'build/sanitize');
+	});
+
+	// @ts-ignore - mocha global
+	test('mirrors the source directory under the output directory', () => {
+		const root = path.resolve('/work/project');
+		const output = path.join(root, 'build');
+
+		assert.strictEqual(mirrorSourceDirectory(output, root, path.join(root, 'a')), path.join(output, 'a'));
+		assert.strictEqual(mirrorSourceDirectory(output, root, path.join(root, 'b', 'tools')), path.join(output, 'b', 'tools'));
+		assert.strictEqual(mirrorSourceDirectory(output, root, root), output);
+		assert.strictEqual(mirrorSourceDirectory(output, root, path.resolve('/elsewhere')), output);
+	});
+});
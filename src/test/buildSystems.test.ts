@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+	detectBuildSystem, parseMakeTargets, parseMakePrerequisites, buildWithBuildSystem, readCMakeTargets
+} from '../buildSystems';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures');
+
+function isInstalled(command: string): boolean {
+	return !spawnSync(command, ['--version']).error;
+}
+
+function copyFixture(name: string): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lazyc-'));
+	fs.cpSync(path.join(FIXTURES, name), dir, { recursive: true });
+	return dir;
+}
+
+// @ts-ignore - mocha global
+suite('Build Systems', () => {
+	// @ts-ignore - mocha global
+	test('lists explicit Makefile targets', () => {
+		const makefile = fs.readFileSync(path.join(FIXTURES, 'make-project', 'Makefile'), 'utf8');
+		assert.deepStrictEqual(parseMakeTargets(makefile), ['all', 'greeter', 'clean']);
+		assert.deepStrictEqual(parseMakePrerequisites(makefile, 'all'), ['greeter']);
+	});
+
+	// @ts-ignore - mocha global
+	test('ignores variables, recipes and special targets', () => {
+		const makefile = 'CC := gcc\nX ::= y\n.PHONY: a\na b: c \\\n  d\n\techo a: b\n$(OUT): x\n';
+		assert.deepStrictEqual(parseMakeTargets(makefile), ['a', 'b']);
+		assert.deepStrictEqual(parseMakePrerequisites(makefile, 'b'), ['c', 'd']);
+	});
+
+	// @ts-ignore - mocha global
+	test('detects Makefile and CMake projects', () => {
+		const makeProject = path.join(FIXTURES, 'make-project');
+		const cmakeProject = path.join(FIXTURES, 'cmake-project');
+
+		assert.deepStrictEqual(detectBuildSystem(path.join(makeProject, 'main.c'), FIXTURES), { kind: 'make', root: makeProject });
+		assert.deepStrictEqual(detectBuildSystem(path.join(cmakeProject, 'src', 'main.c'), FIXTURES), { kind: 'cmake', root: cmakeProject });
+		assert.strictEqual(detectBuildSystem(path.join(FIXTURES, 'multi-file', 'main.c'), FIXTURES), undefined);
+	});
+
+	// @ts-ignore - mocha global
+	test('builds a Makefile project and parses its warnings', async function (this: any) {
+		if (!isInstalled('make') || !isInstalled('cc')) {
+			this.skip();
+		}
+		this.timeout(30000);
+
+		const dir = copyFixture('make-project');
+		try {
+			const result = await buildWithBuildSystem({ kind: 'make', root: dir }, path.join(dir, 'main.c'));
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.executable, path.join(dir, 'greeter'));
+			assert.ok(result.messages.some(m => m.file === path.join(dir, 'greet.c') && m.line === 5 && m.severity === 'warning'));
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	// @ts-ignore - mocha global
+	test('configures and builds a CMake project and finds its executable', async function (this: any) {
+		if (!isInstalled('cmake')) {
+			this.skip();
+		}
+		this.timeout(60000);
+
+		const dir = copyFixture('cmake-project');
+		try {
+			const result = await buildWithBuildSystem({ kind: 'cmake', root: dir }, path.join(dir, 'src', 'main.c'));
+
+			assert.strictEqual(result.success, true);
+			assert.ok(result.executable && fs.existsSync(result.executable));
+			assert.ok(result.messages.some(m => m.file === path.join(dir, 'src', 'main.c') && m.line === 4));
+			assert.deepStrictEqual(readCMakeTargets(path.dirname(result.executable as string)).map(t => t.name), ['calc']);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
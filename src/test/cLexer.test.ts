@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { tokenize, maskCommentsAndStrings, getDirectiveName, Token } from '../cLexer';
+
+function kinds(tokens: Token[]): string[] {
+	return tokens.map(token => `${token.kind}:${token.text}`);
+}
+
+// @ts-ignore - mocha global
+suite('C Lexer', () => {
+	// @ts-ignore - mocha global
+	test('splits declarations into keywords, identifiers, numbers and punctuators', () => {
+		assert.deepStrictEqual(kinds(tokenize('unsigned long x = 0x1Fu << 2;')), [
+			'keyword:unsigned', 'keyword:long', 'identifier:x', 'punctuator:=', 'number:0x1Fu',
+			'punctuator:<<', 'number:2', 'punctuator:;'
+		]);
+		assert.deepStrictEqual(kinds(tokenize('a->b += c... >>= 1.5e-3f')).map(k => k.split(':')[1]), [
+			'a', '->', 'b', '+=', 'c', '...', '>>=', '1.5e-3f'
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps line and block comments whole', () => {
+		const tokens = tokenize('int a; // strcpy(a, b);\n/* gets(x);\n   more */ int b;');
+
+		assert.deepStrictEqual(kinds(tokens.filter(t => t.kind === 'comment')), [
+			'comment:// strcpy(a, b);',
+			'comment:/* gets(x);\n   more */'
+		]);
+		const block = tokens.find(t => t.text.startsWith('/*')) as Token;
+		assert.deepStrictEqual([block.line, block.endLine], [1, 2]);
+		const b = tokens.find(t => t.text === 'b') as Token;
+		assert.deepStrictEqual([b.line, b.column], [2, 15]);
+		assert.ok(tokenize('int a; // note', false).every(t => t.kind !== 'comment'));
+	});
+
+	// @ts-ignore - mocha global
+	test('continues a line comment after a trailing backslash', () => {
+		const tokens = tokenize('// first \\\n   still comment\nint x;');
+
+		assert.strictEqual(tokens[0].kind, 'comment');
+		assert.strictEqual(tokens[0].endLine, 1);
+		assert.strictEqual(tokens[1].text, 'int');
+	});
+
+	// @ts-ignore - mocha global
+	test('reads string and character literals with escapes and prefixes', () => {
+		const tokens = tokenize('puts("say \\"hi\\" // not a comment"); c = \'\\\'\'; w = L"wide"; u8"text"; U\'x\';');
+
+		assert.deepStrictEqual(kinds(tokens.filter(t => t.kind === 'string' || t.kind === 'char')), [
+			'string:"say \\"hi\\" // not a comment"',
+			'char:\'\\\'\'',
+			'string:L"wide"',
+			'string:u8"text"',
+			'char:U\'x\''
+		]);
+		assert.ok(!tokens.some(t => t.kind === 'comment'));
+	});
+
+	// @ts-ignore - mocha global
+	test('ends unterminated literals at the end of the line', () => {
+		const tokens = tokenize('printf("oops\nint x;');
+
+		assert.strictEqual(tokens[2].text, '"oops');
+		assert.deepStrictEqual(kinds(tokens.slice(3)), ['keyword:int', 'identifier:x', 'punctuator:;']);
+	});
+
+	// @ts-ignore - mocha global
+	test('reads preprocessor lines as one token, including continuations', () => {
+		const tokens = tokenize('#include <stdio.h> // io\n  #  define SWAP(a, b) \\\n    do { int t = a; a = b; b = t; } while (0)\nint x = a # b;');
+
+		assert.deepStrictEqual(kinds(tokens.slice(0, 3)), [
+			'preprocessor:#include <stdio.h>',
+			'comment:// io',
+			'preprocessor:#  define SWAP(a, b) \\\n    do { int t = a; a = b; b = t; } while (0)'
+		]);
+		assert.strictEqual(getDirectiveName(tokens[2]), 'define');
+		assert.strictEqual(tokens[2].endLine, 2);
+		// "#" in the middle of a line is an operator, not a directive
+		assert.ok(tokens.slice(3).some(t => t.kind === 'punctuator' && t.text === '#'));
+	});
+
+	// @ts-ignore - mocha global
+	test('does not end a directive at a comment marker inside a string', () => {
+		const [directive] = tokenize('#define URL "http://example.com" /* site */');
+
+		assert.strictEqual(directive.text, '#define URL "http://example.com"');
+	});
+
+	// @ts-ignore - mocha global
+	test('masks comments and literal contents but keeps positions', () => {
+		const text = 'strcpy(a, "gets(b)"); /* malloc(\n1) */ x = \'(\';';
+		const masked = maskCommentsAndStrings(text);
+
+		assert.strictEqual(masked.length, text.length);
+		assert.strictEqual(masked, `strcpy(a, "       "); ${' '.repeat(10)}\n${' '.repeat(5)} x = ' ';`);
+	});
+});
@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseC, joinTokens, splitTopLevel, CTranslationUnit } from '../cParser';
+import { tokenize } from '../cLexer';
+
+const CORPUS = path.resolve(__dirname, '../../src/test/fixtures/c-parser/corpus.c');
+
+function getFunction(unit: CTranslationUnit, name: string, isDefinition = true) {
+	const func = unit.functions.find(f => f.name === name && f.isDefinition === isDefinition);
+	assert.ok(func, `function ${name} not found`);
+	return func;
+}
+
+// @ts-ignore - mocha global
+suite('C Parser', () => {
+	const unit = parseC(fs.readFileSync(CORPUS, 'utf8'));
+
+	// @ts-ignore - mocha global
+	test('reads includes, macros and typedefs', () => {
+		assert.deepStrictEqual(unit.includes, [
+			{ header: 'stdio.h', system: true, line: 4 },
+			{ header: 'stdlib.h', system: true, line: 5 },
+			{ header: 'list.h', system: false, line: 6 }
+		]);
+		assert.deepStrictEqual(unit.macros.map(m => [m.name, m.functionLike]), [['MAX', true], ['BUFFER_SIZE', false]]);
+		assert.deepStrictEqual(unit.typedefs, ['point_t', 'compare_fn']);
+	});
+
+	// @ts-ignore - mocha global
+	test('finds definitions and prototypes but nothing in comments', () => {
+		assert.deepStrictEqual(unit.functions.map(f => `${f.name}:${f.isDefinition}`), [
+			'dup_string:false', 'sum:false', 'main:true', 'dup_string:true', 'make_node:true',
+			'midpoint:true', 'mix:true', 'sort_all:true', 'sum:true'
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('normalizes signatures of static, pointer, struct and typedef returns', () => {
+		assert.strictEqual(getFunction(unit, 'dup_string').signature, 'static char *dup_string(const char *source)');
+		assert.deepStrictEqual(getFunction(unit, 'dup_string').specifiers, ['static']);
+		assert.strictEqual(getFunction(unit, 'make_node').signature, 'struct node *make_node(int value, struct node *next)');
+		assert.strictEqual(getFunction(unit, 'midpoint').returnType, 'point_t');
+		assert.strictEqual(getFunction(unit, 'mix').signature, 'static inline unsigned long long mix(unsigned long long seed, compare_fn compare)');
+		assert.strictEqual(getFunction(unit, 'sort_all').signature, 'void sort_all(void (*visit)(int), int values[], size_t count)');
+		assert.strictEqual(getFunction(unit, 'main').signature, 'int main(void)');
+	});
+
+	// @ts-ignore - mocha global
+	test('records lines for brace-on-next-line and multi-line parameter lists', () => {
+		const dup = getFunction(unit, 'dup_string');
+		assert.deepStrictEqual([dup.line, dup.nameLine, dup.declaratorEndLine, dup.bodyStartLine, dup.bodyEndLine], [47, 48, 48, 49, 53]);
+		const node = getFunction(unit, 'make_node');
+		assert.deepStrictEqual([node.line, node.declaratorEndLine, node.bodyStartLine, node.bodyEndLine], [55, 56, 56, 62]);
+	});
+
+	// @ts-ignore - mocha global
+	test('names parameters, including unnamed and function pointer ones', () => {
+		assert.deepStrictEqual(getFunction(unit, 'main').parameters, []);
+		assert.deepStrictEqual(getFunction(unit, 'sum', false).parameters, [{ text: 'int' }, { text: 'int' }]);
+		assert.deepStrictEqual(getFunction(unit, 'sort_all').parameters.map(p => p.name), ['visit', 'values', 'count']);
+		assert.deepStrictEqual(getFunction(unit, 'dup_string', false).parameters, [{ text: 'const char *source', name: 'source' }]);
+		assert.deepStrictEqual(parseC('void f(struct node, size_t, const char *);').functions[0].parameters.map(p => p.name), [undefined, undefined, undefined]);
+	});
+
+	// @ts-ignore - mocha global
+	test('collects global and local variables but not struct members', () => {
+		assert.deepStrictEqual(unit.variables.slice(0, 2), ['counter', 'names']);
+		for (const name of ['buffer', 'origin', 'file', 'c', 'i', 'copy', 'node', 'm']) {
+			assert.ok(unit.variables.includes(name), name);
+		}
+		for (const name of ['x', 'y', 'point', 'RED']) {
+			assert.ok(!unit.variables.includes(name), name);
+		}
+	});
+
+	// @ts-ignore - mocha global
+	test('finds calls in code only, with their arguments', () => {
+		const calls = unit.calls.filter(call => call.inFunction === 'main').map(call => call.name);
+		assert.deepStrictEqual(calls, ['fopen', 'printf', 'fgetc', 'MAX', 'sum']);
+		const strcpy = unit.calls.find(call => call.name === 'strcpy');
+		assert.ok(strcpy);
+		assert.strictEqual(strcpy.inFunction, 'dup_string');
+		assert.deepStrictEqual([strcpy.token.line, strcpy.token.column], [51, 4]);
+		assert.deepStrictEqual(strcpy.args.map(joinTokens), ['copy', 'source']);
+		assert.ok(!unit.calls.some(call => call.name === 'gets'));
+	});
+
+	// @ts-ignore - mocha global
+	test('does not mistake local prototypes and casts for calls', () => {
+		const local = parseC('int main(void) {\n    int helper(int);\n    double d = (double)helper(2);\n    return (int)d;\n}');
+
+		assert.deepStrictEqual(local.calls.map(call => `${call.name}@${call.token.line}`), ['helper@2']);
+	});
+
+	// @ts-ignore - mocha global
+	test('records controlling expressions of if, while and for', () => {
+		assert.deepStrictEqual(unit.conditions.map(c => `${c.keyword}: ${joinTokens(c.tokens)}`), [
+			'if: file = NULL',
+			'while: (c = fgetc(file)) != EOF',
+			'for: i < MAX(1, 2)',
+			'if: (node->next = next)'
+		]);
+		const [assignment, parenthesized] = [unit.conditions[0], unit.conditions[3]];
+		assert.strictEqual(splitTopLevel(assignment.tokens, '=').length, 2);
+		assert.strictEqual(splitTopLevel(parenthesized.tokens, '=').length, 1);
+	});
+
+	// @ts-ignore - mocha global
+	test('parses definitions after unbalanced or unusual code', () => {
+		const recovered = parseC('int broken(void) {\n    if (x {\n}\nint ok(void) { return 0; }');
+		assert.strictEqual(recovered.functions[0].name, 'broken');
+
+		const knr = parseC('int\nold_style(a, b)\n{\n    return a;\n}\n');
+		assert.strictEqual(knr.functions[0].signature, 'int old_style(a, b)');
+
+		const pointers = parseC('void (*signal_handler)(int) = 0;\nint (*table[4])(void);');
+		assert.deepStrictEqual(pointers.functions, []);
+	});
+
+	// @ts-ignore - mocha global
+	test('reads functions returning function pointers and the functions after them', () => {
+		const signal = parseC('void (*signal(int sig, void (*handler)(int)))(int);').functions[0];
+		assert.strictEqual(signal.signature, 'void (*signal(int sig, void (*handler)(int)))(int)');
+		assert.strictEqual(signal.returnType, 'void (*)(int)');
+		assert.deepStrictEqual(signal.parameters.map(p => p.name), ['sig', 'handler']);
+
+		const source = 'static int twice(int x) { return 2 * x; }\nint (*getfn(void))(int) {\n    return twice;\n}\nint helper(int x) { return x; }\nint main(void) { return getfn()(1); }\n';
+		const parsed = parseC(source);
+		assert.deepStrictEqual(parsed.functions.map(f => f.name), ['twice', 'getfn', 'helper', 'main']);
+		assert.deepStrictEqual([getFunction(parsed, 'getfn').declaratorEndLine, getFunction(parsed, 'getfn').bodyEndLine], [1, 3]);
+		assert.ok(parsed.calls.some(call => call.name === 'getfn' && call.inFunction === 'main'));
+
+		// Brace groups that are not function bodies do not swallow what follows
+		const unknown = parseC('int (*callback)(void) {\n    start();\n}\nint main(void) { return 0; }\n');
+		assert.deepStrictEqual(unknown.functions.map(f => f.name), ['main']);
+	});
+
+	// @ts-ignore - mocha global
+	test('joins tokens with C spacing', () => {
+		const join = (text: string) => joinTokens(tokenize(text));
+
+		assert.strictEqual(join('const   char*name'), 'const char *name');
+		assert.strictEqual(join('int  f ( int a ,int b )'), 'int f(int a, int b)');
+		assert.strictEqual(join('void ( * cb ) ( int )'), 'void (*cb)(int)');
+		assert.strictEqual(join('char **argv'), 'char **argv');
+		assert.strictEqual(join('int values [ ]'), 'int values[]');
+	});
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseCompilerOutput, toDiagnostics } from '../compilerOutput';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/compiler-output');
+const CWD = path.resolve('/work/project');
+
+function readFixture(name: string): string {
+	return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+// @ts-ignore - mocha global
+suite('Compiler Output Parser', () => {
+	// @ts-ignore - mocha global
+	test('parses gcc errors and warnings with caret lines in between', () => {
+		const messages = parseCompilerOutput(readFixture('gcc.txt'), CWD);
+
+		assert.deepStrictEqual(
+			messages.map(m => [m.severity, m.line, m.column]),
+			[['warning', 7, 13], ['error', 8, 20], ['error', 9, 5], ['error', 10, 13], ['warning', 7, 9]]
+		);
+		assert.strictEqual(messages[0].file, path.join(CWD, 'bad.c'));
+		assert.strictEqual(messages[0].option, '-Wint-conversion');
+		assert.strictEqual(messages[0].message, "initialization of 'int' from 'char *' makes integer from pointer without a cast");
+		assert.strictEqual(messages[3].message, "expected ';' before '}' token");
+	});
+
+	// @ts-ignore - mocha global
+	test('attaches notes to the message they follow', () => {
+		const messages = parseCompilerOutput(readFixture('gcc.txt'), CWD);
+
+		assert.strictEqual(messages[1].notes.length, 1);
+		assert.strictEqual(messages[2].notes.length, 1);
+		assert.strictEqual(messages[2].notes[0].message, 'declared here');
+		assert.strictEqual(messages[2].notes[0].line, 4);
+		assert.strictEqual(messages[2].notes[0].column, 12);
+	});
+
+	// @ts-ignore - mocha global
+	test('parses clang output including headers in subdirectories', () => {
+		const messages = parseCompilerOutput(readFixture('clang.txt'), CWD);
+
+		assert.strictEqual(messages.length, 4);
+		assert.strictEqual(messages[0].file, path.join(CWD, 'include', 'list.h'));
+		assert.strictEqual(messages[0].option, '-Wvisibility');
+		assert.strictEqual(messages[2].notes[0].message, "'helper' declared here");
+		assert.strictEqual(messages[3].severity, 'warning');
+	});
+
+	// @ts-ignore - mocha global
+	test('treats fatal errors as errors and keeps Windows drive letters in the path', () => {
+		const messages = parseCompilerOutput(readFixture('windows.txt'), CWD);
+
+		assert.strictEqual(messages.length, 1);
+		assert.strictEqual(messages[0].severity, 'error');
+		assert.strictEqual(messages[0].line, 3);
+		assert.strictEqual(messages[0].column, 10);
+		assert.strictEqual(messages[0].message, 'missing.h: No such file or directory');
+		assert.ok(messages[0].file.endsWith('main.c'));
+	});
+
+	// @ts-ignore - mocha global
+	test('accepts messages without a column and ignores linker output', () => {
+		const output = [
+			'main.c:12: error: expected \'{\' at end of input',
+			'/usr/bin/ld: /tmp/cc0SbPK4.o: in function `main\':',
+			'link.c:(.text+0x24): undefined reference to `sqrt\'',
+			'collect2: error: ld returned 1 exit status'
+		].join('\n');
+		const messages = parseCompilerOutput(output, CWD);
+
+		assert.strictEqual(messages.length, 1);
+		assert.strictEqual(messages[0].line, 12);
+		assert.strictEqual(messages[0].column, 0);
+	});
+
+	// @ts-ignore - mocha global
+	test('resolves paths against the directories recursive make enters', () => {
+		const output = [
+			"make[1]: Entering directory '/work/project/lib'",
+			'list.c:3:1: warning: data definition has no type or storage class',
+			"make[1]: Leaving directory '/work/project/lib'",
+			'main.c:5:2: error: unknown type name \'list\''
+		].join('\n');
+		const messages = parseCompilerOutput(output, CWD);
+
+		assert.strictEqual(messages[0].file, path.resolve('/work/project/lib/list.c'));
+		assert.strictEqual(messages[1].file, path.join(CWD, 'main.c'));
+	});
+
+	// @ts-ignore - mocha global
+	test('converts messages into diagnostics grouped by file', () => {
+		const byFile = toDiagnostics(parseCompilerOutput(readFixture('gcc.txt'), CWD), 'gcc');
+		const diagnostics = byFile.get(path.join(CWD, 'bad.c')) || [];
+
+		assert.strictEqual(diagnostics.length, 5);
+		assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Warning);
+		assert.strictEqual(diagnostics[0].code, '-Wint-conversion');
+		assert.strictEqual(diagnostics[1].severity, vscode.DiagnosticSeverity.Error);
+		assert.strictEqual(diagnostics[2].range.start.line, 8);
+		assert.strictEqual(diagnostics[2].range.start.character, 4);
+		assert.strictEqual(diagnostics[2].source, 'gcc');
+		assert.strictEqual(diagnostics[2].relatedInformation?.[0].location.range.start.line, 3);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { toDebugProfile, findDebugAdapter, createLaunchConfiguration, toWorkspaceRelative, DEBUG_ADAPTERS } from '../debugLaunch';
+
+const RUN = { args: ['-n', '3'], cwd: '/work', env: { MODE: 'test' }, stdinFile: '/work/input.txt' };
+
+function adapter(kind: string) {
+	return DEBUG_ADAPTERS.find(a => a.kind === kind)!;
+}
+
+// @ts-ignore - mocha global
+suite('Debug Launch', () => {
+	// @ts-ignore - mocha global
+	test('replaces optimization flags with -g -O0', () => {
+		const release = { name: 'release', defines: ['NDEBUG'], flags: ['-O2', '-s', '-march=native'] };
+		assert.deepStrictEqual(toDebugProfile(release), {
+			name: 'release-debug', defines: ['NDEBUG'], flags: ['-g', '-O0', '-march=native']
+		});
+
+		const debug = { name: 'debug', flags: ['-g', '-O0'] };
+		assert.strictEqual(toDebugProfile(debug), debug);
+	});
+
+	// @ts-ignore - mocha global
+	test('picks the preferred installed debug adapter', () => {
+		const installed = ['vadimcn.vscode-lldb', 'ms-vscode.cpptools', 'ms-python.python'];
+		assert.strictEqual(findDebugAdapter(installed)?.kind, 'cppdbg');
+		assert.strictEqual(findDebugAdapter(installed, 'lldb')?.kind, 'lldb');
+		assert.strictEqual(findDebugAdapter(installed, 'gdb')?.kind, 'cppdbg');
+		assert.strictEqual(findDebugAdapter(['ms-python.python']), undefined);
+	});
+
+	// @ts-ignore - mocha global
+	test('creates launch configurations in each adapter\'s format', () => {
+		const cppdbg = createLaunchConfiguration(adapter('cppdbg'), 'Debug', '/work/app', RUN, 'linux');
+		assert.strictEqual(cppdbg.type, 'cppdbg');
+		assert.strictEqual(cppdbg.MIMode, 'gdb');
+		assert.deepStrictEqual(cppdbg.args, ['-n', '3', '<', '/work/input.txt']);
+		assert.deepStrictEqual(cppdbg.environment, [{ name: 'MODE', value: 'test' }]);
+		assert.strictEqual(createLaunchConfiguration(adapter('cppdbg'), 'Debug', '/work/app', RUN, 'darwin').MIMode, 'lldb');
+
+		const lldb = createLaunchConfiguration(adapter('lldb'), 'Debug', '/work/app', RUN);
+		assert.deepStrictEqual(lldb.stdio, ['/work/input.txt', null, null]);
+		assert.deepStrictEqual(lldb.env, { MODE: 'test' });
+
+		const gdb = createLaunchConfiguration(adapter('gdb'), 'Debug', '/work/app', { ...RUN, args: ['a b'] });
+		assert.strictEqual(gdb.target, '/work/app');
+		assert.strictEqual(gdb.arguments, `'a b' < /work/input.txt`);
+	});
+
+	// @ts-ignore - mocha global
+	test('writes paths inside the workspace folder with ${workspaceFolder}', () => {
+		const folder = path.resolve('/work');
+		assert.strictEqual(toWorkspaceRelative(folder, folder), '${workspaceFolder}');
+		assert.strictEqual(toWorkspaceRelative(path.join(folder, 'build', 'app'), folder), `\${workspaceFolder}/build${path.sep}app`);
+		assert.strictEqual(toWorkspaceRelative(`-I${path.join(folder, 'include')}`, folder), '-I${workspaceFolder}/include');
+		assert.strictEqual(toWorkspaceRelative(path.resolve('/workspace/app'), folder), path.resolve('/workspace/app'));
+	});
+});
@@ -0,0 +1,75 @@
+/*
+ * Parser corpus: declarations written the ways real programs write them.
+ * int commented_out(void) { strcpy(a, b); }
+ */
+#include <stdio.h>
+#include <stdlib.h>
+#include "list.h"
+
+#define MAX(a, b) ((a) > (b) ? (a) : (b))
+#define BUFFER_SIZE 64
+
+typedef struct point {
+    int x;
+    int y;
+} point_t;
+
+typedef int (*compare_fn)(const void *, const void *);
+
+enum color { RED, GREEN, BLUE };
+
+static int counter = 0;
+const char *names[] = { "gets(", "strcpy(" };
+
+static char *dup_string(const char *source);
+int sum(int, int);
+
+int main(void)
+{
+    char buffer[BUFFER_SIZE];
+    point_t origin = { 0, 0 };
+    FILE *file = fopen("data.txt", "r");
+    int c;
+
+    // gets(buffer); would be unsafe
+    printf("strcpy(%s)\n", names[0]);
+    if (file = NULL) {
+        return 1;
+    }
+    while ((c = fgetc(file)) != EOF) {
+        counter++;
+    }
+    for (int i = 0; i < MAX(1, 2); i++) {
+        sum(i, origin.x);
+    }
+    return 0;
+}
+
+static char *
+dup_string(const char *source)
+{
+    char *copy = malloc(strlen(source) + 1);
+    strcpy(copy, source);
+    return copy;
+}
+
+struct node *make_node(int value,
+                       struct node *next) {
+    struct node *node = calloc(1, sizeof *node);
+    if ((node->next = next)) {
+        node->value = value;
+    }
+    return node;
+}
+
+point_t midpoint(point_t a, point_t b) { point_t m = { (a.x + b.x) / 2, (a.y + b.y) / 2 }; return m; }
+
+static inline unsigned long long
+__attribute__((unused)) mix(unsigned long long seed, compare_fn compare)
+{
+    return seed ^ (unsigned long long)compare;
+}
+
+void sort_all(void (*visit)(int), int values[], size_t count) { visit(values[count - 1]); }
+
+int sum(int a, int b) { return a + b; }
@@ -0,0 +1,7 @@
+#ifndef COMMON_H
+#define COMMON_H
+
+#include <stdio.h>
+#include "logging.h"
+
+#endif
@@ -0,0 +1,5 @@
+#pragma once
+
+#include <math.h>
+
+typedef struct { double w, h; } rect_t;
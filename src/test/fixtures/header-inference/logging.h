@@ -0,0 +1,7 @@
+#ifndef LOGGING_H
+#define LOGGING_H
+
+/* Project logger; not the math.h log() */
+void log(const char *message);
+
+#endif
@@ -0,0 +1,9 @@
+#include "common.h"
+#include "shapes.h"
+
+int main(void)
+{
+    printf("%f\n", sqrt(2.0));
+    log("started");
+    return 0;
+}
@@ -0,0 +1,7 @@
+#include <stdio.h>
+#include "greet.h"
+
+void greet(const char *name) {
+    int unused;
+    printf("Hello, %s!\n", name);
+}
@@ -0,0 +1,6 @@
+#include "greet.h"
+
+int main(void) {
+    greet("make");
+    return 0;
+}
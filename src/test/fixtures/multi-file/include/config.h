@@ -0,0 +1,6 @@
+#ifndef CONFIG_H
+#define CONFIG_H
+
+#define STACK_CAPACITY 16
+
+#endif
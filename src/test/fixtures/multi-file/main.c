@@ -0,0 +1,9 @@
+#include <stdio.h>
+#include "stack.h"
+
+int main(void) {
+    struct stack s = {0};
+    stack_push(&s, 42);
+    printf("%d\n", stack_pop(&s));
+    return 0;
+}
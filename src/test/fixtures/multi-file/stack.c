@@ -0,0 +1,9 @@
+#include "stack.h"
+
+void stack_push(struct stack *s, int value) {
+    s->items[s->size++] = value;
+}
+
+int stack_pop(struct stack *s) {
+    return s->items[--s->size];
+}
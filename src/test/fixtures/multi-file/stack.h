@@ -0,0 +1,14 @@
+#ifndef STACK_H
+#define STACK_H
+
+#include "config.h"
+
+struct stack {
+    int items[STACK_CAPACITY];
+    int size;
+};
+
+void stack_push(struct stack *s, int value);
+int stack_pop(struct stack *s);
+
+#endif
@@ -0,0 +1,12 @@
+#include <stdio.h>
+
+int main(void) {
+    int a, b;
+    if (scanf("%d %d", &a, &b) != 2) {
+        /* Wait forever on bad input so the timeout can be tested */
+        for (;;) {
+        }
+    }
+    printf("%d\n", a + b);
+    return 0;
+}
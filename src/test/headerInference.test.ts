@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseC } from '../cParser';
+import { getIncludedContext, findMissingHeaders, findIncludeInsertionLine } from '../headerInference';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/header-inference');
+const HEADERS: { [name: string]: string } = {
+	printf: 'stdio.h', puts: 'stdio.h', strlen: 'string.h', malloc: 'stdlib.h', log: 'math.h', sqrt: 'math.h', time: 'time.h'
+};
+
+function missingHeaders(text: string): string[] {
+	const unit = parseC(text);
+	return findMissingHeaders(unit, HEADERS, getIncludedContext(unit, undefined, []));
+}
+
+// @ts-ignore - mocha global
+suite('Header Inference', () => {
+	// @ts-ignore - mocha global
+	test('ignores calls in comments and strings', () => {
+		const text = [
+			'/* printf("in a block comment");',
+			'   malloc(10); */',
+			'int main(void) {',
+			'    const char *s = "call printf(x)"; // strlen(s)',
+			'    puts(s);',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(missingHeaders(text), ['stdio.h']);
+	});
+
+	// @ts-ignore - mocha global
+	test('skips functions, macros and variables declared in the file', () => {
+		const text = [
+			'#define time(x) ((x) * 2)',
+			'static double log(double value) { return value; }',
+			'int main(void) {',
+			'    int (*sqrt)(int) = 0;',
+			'    return time(1) + log(2.0) + sqrt(3) + strlen("x");',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(missingHeaders(text), ['string.h']);
+	});
+
+	// @ts-ignore - mocha global
+	test('counts headers included through the project\'s own headers', () => {
+		const filePath = path.join(FIXTURES, 'main.c');
+		const unit = parseC(fs.readFileSync(filePath, 'utf8'));
+
+		// shapes.h is only found through the include dir; without it math.h is missing
+		assert.deepStrictEqual(findMissingHeaders(unit, HEADERS, getIncludedContext(unit, filePath, [])), ['math.h']);
+
+		const context = getIncludedContext(unit, filePath, [path.join(FIXTURES, 'include')]);
+		assert.ok(context.headers.has('stdio.h'));
+		assert.ok(context.declaredNames.has('log'));
+		assert.ok(context.declaredNames.has('rect_t'));
+		assert.deepStrictEqual(findMissingHeaders(unit, HEADERS, context), []);
+	});
+
+	// @ts-ignore - mocha global
+	test('inserts after the last include', () => {
+		assert.strictEqual(findIncludeInsertionLine('// file\n#include <stdio.h>\n#include "a.h"\n\nint x;'), 3);
+	});
+
+	// @ts-ignore - mocha global
+	test('inserts inside an include guard or after #pragma once', () => {
+		const guarded = '/* Shapes */\n\n#ifndef SHAPES_H\n#define SHAPES_H\n\nint area(int w);\n\n#endif\n';
+		assert.strictEqual(findIncludeInsertionLine(guarded), 4);
+		assert.strictEqual(findIncludeInsertionLine('#pragma once\nint area(int w);\n'), 1);
+		// "#ifndef DEBUG" followed by another define is not a guard
+		assert.strictEqual(findIncludeInsertionLine('#ifndef DEBUG\n#define NDEBUG\n#endif\n'), 0);
+	});
+
+	// @ts-ignore - mocha global
+	test('inserts after a leading file comment but not between a doc comment and its function', () => {
+		const fileComment = '/*\n * main.c\n * Author: someone\n */\n\nint main(void) { return 0; }\n';
+		assert.strictEqual(findIncludeInsertionLine(fileComment), 4);
+		assert.strictEqual(findIncludeInsertionLine('// Entry point\nint main(void) { return 0; }\n'), 0);
+		assert.strictEqual(findIncludeInsertionLine('int main(void) { return 0; }\n'), 0);
+	});
+});
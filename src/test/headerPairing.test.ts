@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseC } from '../cParser';
+import { applyTextEdits, HEADER_BLOCK_BEGIN, HEADER_BLOCK_END } from '../prototypes';
+import { generateHeader, getGuardName, readQuotedHeaderDeclarations } from '../headerPairing';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/header-inference');
+
+const SOURCE = [
+	'/* A small stack */',
+	'',
+	'#include <stdio.h>',
+	'#include <stdlib.h>',
+	'',
+	'#define STACK_MAX 64',
+	'#define DEBUG 1',
+	'',
+	'typedef struct {',
+	'    int items[STACK_MAX];',
+	'    size_t count;',
+	'} stack_t;',
+	'',
+	'struct scratch { int unused; };',
+	'',
+	'void stack_push(stack_t *stack, int value);',
+	'static int helper(void);',
+	'',
+	'void stack_push(stack_t *stack, int value) { stack->items[stack->count++] = value; }',
+	'int stack_pop(stack_t *stack) { return stack->items[--stack->count]; }',
+	'static int helper(void) { return DEBUG; }',
+	''
+].join('\n');
+
+// @ts-ignore - mocha global
+suite('Header Pairing', () => {
+	// @ts-ignore - mocha global
+	test('moves the public types and their macros into a guarded header', () => {
+		const { headerText } = generateHeader(SOURCE, parseC(SOURCE), 'stack.h', 'includeGuard');
+
+		assert.strictEqual(headerText, [
+			'#ifndef STACK_H',
+			'#define STACK_H',
+			'',
+			'#include <stddef.h>',
+			'',
+			'#define STACK_MAX 64',
+			'',
+			'typedef struct {',
+			'    int items[STACK_MAX];',
+			'    size_t count;',
+			'} stack_t;',
+			'',
+			HEADER_BLOCK_BEGIN,
+			'void stack_push(stack_t *stack, int value);',
+			'int stack_pop(stack_t *stack);',
+			HEADER_BLOCK_END,
+			'',
+			'#endif /* STACK_H */',
+			''
+		].join('\n'));
+	});
+
+	// @ts-ignore - mocha global
+	test('includes the header in the source and removes what moved', () => {
+		const { sourceEdits } = generateHeader(SOURCE, parseC(SOURCE), 'stack.h', 'includeGuard');
+		const source = applyTextEdits(SOURCE, sourceEdits);
+
+		assert.ok(source.includes('#include <stdlib.h>\n#include "stack.h"\n'));
+		assert.ok(source.includes('#define DEBUG 1'));
+		assert.ok(source.includes('struct scratch { int unused; };'));
+		assert.ok(source.includes('static int helper(void);'));
+		assert.ok(!source.includes('STACK_MAX'));
+		assert.ok(!source.includes('} stack_t;'));
+		assert.ok(!source.includes('void stack_push(stack_t *stack, int value);'));
+	});
+
+	// @ts-ignore - mocha global
+	test('uses #pragma once and adds the include to a file without includes', () => {
+		const source = 'uint32_t checksum(const char *data, size_t length) { return 0; }\n';
+		const { headerText, sourceEdits } = generateHeader(source, parseC(source), 'checksum.h', 'pragmaOnce');
+
+		assert.strictEqual(headerText, `#pragma once\n\n#include <stddef.h>\n#include <stdint.h>\n\n${HEADER_BLOCK_BEGIN}\nuint32_t checksum(const char *data, size_t length);\n${HEADER_BLOCK_END}\n`);
+		assert.strictEqual(applyTextEdits(source, sourceEdits), '#include "checksum.h"\n' + source);
+	});
+
+	// @ts-ignore - mocha global
+	test('includes the project headers declaring the types of the prototypes', () => {
+		const source = '#include "common.h"\n#include "shapes.h"\n\nrect_t scale(rect_t rect, double factor) { return rect; }\n';
+		const unit = parseC(source);
+		const quotedHeaders = readQuotedHeaderDeclarations(unit, path.join(FIXTURES, 'shapes.c'), [path.join(FIXTURES, 'include')]);
+
+		assert.deepStrictEqual(quotedHeaders.map(quoted => [quoted.header, Array.from(quoted.declaredNames).sort()]), [['common.h', ['COMMON_H', 'LOGGING_H', 'log']], ['shapes.h', ['rect_t']]]);
+		assert.strictEqual(generateHeader(source, unit, 'scale.h', 'pragmaOnce', quotedHeaders).headerText, `#pragma once\n\n#include "shapes.h"\n\n${HEADER_BLOCK_BEGIN}\nrect_t scale(rect_t rect, double factor);\n${HEADER_BLOCK_END}\n`);
+	});
+
+	// @ts-ignore - mocha global
+	test('derives guard names from file names', () => {
+		assert.strictEqual(getGuardName('my-list.h'), 'MY_LIST_H');
+		assert.strictEqual(getGuardName('3d.h'), '_3D_H');
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadLibraryDatabase, getLibraryDatabase } from '../libraryDatabase';
+import { toCompletionSnippet, getSignatureLabel, findActiveCall, isCompletionOffered } from '../libraryCompletion';
+
+loadLibraryDatabase(path.resolve(__dirname, '../..'));
+const LIBRARY = getLibraryDatabase();
+
+/** Finds the call at the "|" marker */
+function callAt(source: string) {
+	const offset = source.indexOf('|');
+	return findActiveCall(source.replace('|', ''), offset);
+}
+
+// @ts-ignore - mocha global
+suite('Library Completion', () => {
+	// @ts-ignore - mocha global
+	test('inserts parameters as snippet placeholders', () => {
+		assert.strictEqual(toCompletionSnippet(LIBRARY.memcpy), 'memcpy(${1:dest}, ${2:src}, ${3:n})$0');
+		assert.strictEqual(toCompletionSnippet(LIBRARY.printf), 'printf(${1:format})$0');
+		assert.strictEqual(toCompletionSnippet(LIBRARY.getchar), 'getchar()$0');
+		assert.strictEqual(toCompletionSnippet(LIBRARY.EOF), 'EOF');
+		assert.strictEqual(toCompletionSnippet(LIBRARY.assert), 'assert(${1:expression})$0');
+	});
+
+	// @ts-ignore - mocha global
+	test('locates every parameter in the signature label', () => {
+		const signature = getSignatureLabel(LIBRARY.fgets)!;
+
+		assert.strictEqual(signature.label, 'char *fgets(char *str, int n, FILE *stream)');
+		assert.deepStrictEqual(signature.parameters.map(parameter => signature.label.substring(parameter.start, parameter.end)), ['char *str', 'int n', 'FILE *stream']);
+		assert.strictEqual(signature.variadic, false);
+		assert.strictEqual(getSignatureLabel(LIBRARY.printf)!.variadic, true);
+	});
+
+	// @ts-ignore - mocha global
+	test('counts the arguments typed so far', () => {
+		assert.deepStrictEqual(callAt('int main(void) { printf(|'), { name: 'printf', activeParameter: 0 });
+		assert.deepStrictEqual(callAt('void f(char *d) { memcpy(d, "a,b", |'), { name: 'memcpy', activeParameter: 2 });
+		assert.deepStrictEqual(callAt('void f(int *a) { memset(a, sizeof(int), (a[0], |'), { name: 'memset', activeParameter: 2 });
+		assert.deepStrictEqual(callAt('void f(char *s) { strcpy(s, strchr(s, \'x\'), |'), { name: 'strcpy', activeParameter: 2 });
+		assert.deepStrictEqual(callAt('void f(char *s) { strcpy(s, strchr(s, |'), { name: 'strchr', activeParameter: 1 });
+	});
+
+	// @ts-ignore - mocha global
+	test('finds no call in comments, strings or finished statements', () => {
+		assert.strictEqual(callAt('void f(void) { printf("%d, |'), undefined);
+		assert.strictEqual(callAt('void f(void) { // printf(|'), undefined);
+		assert.strictEqual(callAt('void f(void) { printf("x"); |'), undefined);
+		assert.strictEqual(callAt('void f(int a[]) { if (a[|'), undefined);
+		assert.strictEqual(callAt('#define SHOW(x) printf(|'), undefined);
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps entries declared by their own included header', () => {
+		const logMessage = { ...LIBRARY.printf, name: 'log_message', header: 'util/log.h', quoted: true };
+		const included = { headers: new Set(['util/log.h', 'stdio.h']), declaredNames: new Set(['log_message', 'log']) };
+
+		assert.ok(isCompletionOffered(logMessage, included));
+		assert.ok(isCompletionOffered(LIBRARY.printf, included));
+		// A function of the project named like a library one
+		assert.ok(!isCompletionOffered(LIBRARY.log, included));
+	});
+});
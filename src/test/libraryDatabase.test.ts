@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadLibraryDatabase, getLibraryDatabase, getFunctionToHeader, parseLibraryData, isStandardEnabled, formatInclude, LIBRARY_SCHEMA_FILE } from '../libraryDatabase';
+import { validateJson } from '../jsonSchema';
+
+const ROOT = path.resolve(__dirname, '../..');
+const WORKSPACE = path.join(ROOT, 'src', 'test', 'fixtures', 'library-reference');
+const SCHEMA = JSON.parse(fs.readFileSync(path.join(ROOT, LIBRARY_SCHEMA_FILE), 'utf8'));
+
+// @ts-ignore - mocha global
+suite('Library Database', () => {
+	// @ts-ignore - mocha global
+	test('loads the bundled reference without problems', () => {
+		assert.deepStrictEqual(loadLibraryDatabase(ROOT), []);
+
+		const library = getLibraryDatabase();
+		for (const name of ['snprintf', 'strtol', 'qsort', 'bsearch', 'fflush', 'errno', 'assert', 'signal', 'setjmp', 'open', 'read', 'fork', 'pthread_create', 'int32_t', 'bool']) {
+			assert.ok(library[name], `${name} is missing`);
+		}
+		assert.strictEqual(library.errno.kind, 'variable');
+		assert.strictEqual(library.printf.kind, 'function');
+		assert.deepStrictEqual(library.EOF.parameters, []);
+	});
+
+	// @ts-ignore - mocha global
+	test('takes the header map from the same entries', () => {
+		loadLibraryDatabase(ROOT);
+		const headers = getFunctionToHeader();
+
+		assert.strictEqual(headers.printf, 'stdio.h');
+		assert.strictEqual(headers.waitpid, 'sys/wait.h');
+		assert.strictEqual(headers.uint8_t, 'stdint.h');
+		// Every entry but gets, which the default C23 reference leaves out
+		assert.strictEqual(headers.gets, undefined);
+		assert.strictEqual(Object.keys(headers).length, Object.keys(getLibraryDatabase()).length - 1);
+	});
+
+	// @ts-ignore - mocha global
+	test('drops invalid entries and reports where they are', () => {
+		const result = parseLibraryData({
+			entries: [
+				{ name: 'ok', header: 'ok.h', standards: ['C99'], prototype: 'void ok(void);', description: 'Fine' },
+				{ name: 'no_header', standards: ['C99'], prototype: 'void no_header(void);', description: 'Missing header' },
+				{ name: 'bad_standard', header: 'x.h', standards: ['C42'], prototype: 'void bad_standard(void);', description: 'Unknown standard' },
+				{ name: 'extra', header: 'x.h', standards: ['C89'], prototype: 'int extra;', description: 'Unknown field', since: 1989 },
+				{ name: 'markup', header: 'x.h', standards: ['C89'], prototype: 'void markup(void);', description: 'Not a name', relatedFunctions: ['<img src=x>'] }
+			]
+		}, SCHEMA, 'test.json');
+
+		assert.deepStrictEqual(result.entries.map(entry => entry.name), ['ok']);
+		assert.deepStrictEqual(result.errors, [
+			'test.json: entries[1]: missing property "header"',
+			'test.json: entries[2].standards[0]: must be one of "C89", "C99", "C11", "C17", "C23", "POSIX"',
+			'test.json: entries[3]: unknown property "since"',
+			'test.json: entries[4].relatedFunctions[0]: does not match ^[A-Za-z_][A-Za-z0-9_]*$'
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('rejects files that are not a reference', () => {
+		assert.deepStrictEqual(parseLibraryData([], SCHEMA, 'test.json'), { entries: [], errors: ['test.json: (root): expected object, got array'] });
+		assert.deepStrictEqual(validateJson({ entries: {} }, SCHEMA), ['entries: expected array, got object']);
+	});
+
+	// @ts-ignore - mocha global
+	test('merges workspace reference files over the bundled one', () => {
+		try {
+			assert.deepStrictEqual(loadLibraryDatabase(ROOT, [WORKSPACE]), ['other.json: duplicate entry "log_message"']);
+
+			const library = getLibraryDatabase();
+			assert.strictEqual(library.log_message.header, 'util/log.h');
+			assert.strictEqual(library.strdup.header, 'util/strings.h');
+			assert.strictEqual(library.printf.header, 'stdio.h');
+			assert.strictEqual(getFunctionToHeader().log_message, 'util/log.h');
+			assert.strictEqual(formatInclude('util/log.h'), '#include "util/log.h"');
+			assert.strictEqual(formatInclude('string.h'), '#include <string.h>');
+		} finally {
+			loadLibraryDatabase(ROOT);
+		}
+		assert.strictEqual(formatInclude('util/log.h'), '#include <util/log.h>');
+	});
+
+	// @ts-ignore - mocha global
+	test('filters entries by C version and POSIX', () => {
+		assert.ok(isStandardEnabled(['C89'], 'C89', false));
+		assert.ok(!isStandardEnabled(['C99'], 'C89', true));
+		assert.ok(isStandardEnabled(['C11'], 'C23', false));
+		assert.ok(!isStandardEnabled(['POSIX'], 'C23', false));
+		assert.ok(isStandardEnabled(['POSIX', 'C23'], 'C11', true));
+		assert.ok(isStandardEnabled(['POSIX', 'C23'], 'C23', false));
+
+		// gets was removed in C11
+		assert.strictEqual(getLibraryDatabase().gets.removed, 'C11');
+		assert.ok(isStandardEnabled(['C89'], 'C99', false, 'C11'));
+		assert.ok(!isStandardEnabled(['C89'], 'C11', false, 'C11'));
+		assert.ok(!isStandardEnabled(['C89'], 'C23', true, 'C11'));
+		assert.ok(isStandardEnabled(['C89', 'POSIX'], 'C17', true, 'C11'));
+	});
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadLibraryDatabase, getLibraryDatabase } from '../libraryDatabase';
+import { renderLibraryHover, SHOW_REFERENCE_ENTRY_COMMAND } from '../libraryHover';
+
+loadLibraryDatabase(path.resolve(__dirname, '../..'));
+const LIBRARY = getLibraryDatabase();
+const hasEntry = (name: string) => name in LIBRARY;
+
+// @ts-ignore - mocha global
+suite('Library Hover', () => {
+	// @ts-ignore - mocha global
+	test('renders every part of a reference entry', () => {
+		const markdown = renderLibraryHover(LIBRARY.strncpy, hasEntry);
+
+		assert.ok(markdown.startsWith('```c\n' + LIBRARY.strncpy.prototype + '\n```'));
+		assert.ok(markdown.includes('`#include <string.h>`'));
+		assert.ok(markdown.includes('**Parameters**\n\n- `dest`'));
+		assert.ok(markdown.includes(`**Returns** ${LIBRARY.strncpy.returnValue}`));
+		assert.ok(markdown.includes(`**Notes** ${LIBRARY.strncpy.notes}`));
+		assert.ok(markdown.includes('**Example**\n\n```c\n' + LIBRARY.strncpy.example + '\n```'));
+	});
+
+	// @ts-ignore - mocha global
+	test('links related functions that have an entry and the sidebar reference', () => {
+		const markdown = renderLibraryHover(LIBRARY.strchr, hasEntry);
+		const link = (name: string) => `command:${SHOW_REFERENCE_ENTRY_COMMAND}?${encodeURIComponent(JSON.stringify([name]))}`;
+
+		assert.ok(markdown.includes(`[strstr](${link('strstr')})`));
+		assert.ok(markdown.includes(`[strrchr](${link('strrchr')})`));
+		assert.ok(markdown.endsWith(`[Open in Lazy C reference](${link('strchr')})`));
+	});
+});
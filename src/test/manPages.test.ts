@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { runProcess } from '../build';
+import { parseManIndex, cleanManOutput, searchManIndex } from '../manPages';
+
+const APROPOS = [
+	'printf (3)           - formatted output conversion',
+	'getc, fgetc (3)      - input of characters and strings',
+	'open (2)             - open and possibly create a file',
+	'ls (1)               - list directory contents',
+	'printf (3p)          - print formatted output',
+	'epoll_wait (2) - wait for an I/O event on an epoll file descriptor',
+	'garbage line'
+].join('\n');
+
+// @ts-ignore - mocha global
+suite('Man Pages', () => {
+	// @ts-ignore - mocha global
+	test('reads one summary per page name from the apropos index', () => {
+		assert.deepStrictEqual(parseManIndex(APROPOS), [
+			{ name: 'printf', section: '3', description: 'formatted output conversion' },
+			{ name: 'getc', section: '3', description: 'input of characters and strings' },
+			{ name: 'fgetc', section: '3', description: 'input of characters and strings' },
+			{ name: 'open', section: '2', description: 'open and possibly create a file' },
+			{ name: 'printf', section: '3p', description: 'print formatted output' },
+			{ name: 'epoll_wait', section: '2', description: 'wait for an I/O event on an epoll file descriptor' }
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('strips overstrike and color sequences from man output', () => {
+		assert.strictEqual(cleanManOutput('N\bNA\bAM\bME\bE   \n     _\bf_\bo_\bo - bar  \n\x1b[1mSYNOPSIS\x1b[0m\n'), 'NAME\n     foo - bar\nSYNOPSIS');
+	});
+
+	// @ts-ignore - mocha global
+	test('searches names before descriptions and skips names the reference has', () => {
+		const pages = parseManIndex(APROPOS);
+
+		assert.deepStrictEqual(searchManIndex(pages, 'epoll', new Set()).map(page => page.name), ['epoll_wait']);
+		assert.deepStrictEqual(searchManIndex(pages, 'file', new Set()).map(page => page.name), ['epoll_wait', 'open']);
+		assert.deepStrictEqual(searchManIndex(pages, 'c', new Set(['fgetc'])).map(page => `${page.name}(${page.section})`), ['getc(3)', 'epoll_wait(2)', 'open(2)', 'printf(3)']);
+		assert.deepStrictEqual(searchManIndex(pages, 'printf', new Set(['printf'])), []);
+		assert.deepStrictEqual(searchManIndex(pages, '  ', new Set()), []);
+	});
+
+	// @ts-ignore - mocha global
+	test('reads page text from stdout only, without troff warnings', async () => {
+		const result = await runProcess('sh', ['-c', 'echo NAME; echo "troff: warning" >&2'], os.tmpdir());
+
+		assert.strictEqual(cleanManOutput(result.stdout), 'NAME');
+		assert.ok(result.output.includes('troff: warning'));
+	});
+});
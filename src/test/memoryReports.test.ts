@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseSanitizerOutput, parseValgrindOutput, toMemoryDiagnostics } from '../memoryReports';
+import { toSanitizerProfile, toValgrindProfile } from '../memoryCheck';
+import { getProfileLinkFlags } from '../buildProfiles';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/memory-reports');
+const CWD = path.resolve('/work/project');
+const isUserFile = (file: string) => file.startsWith(CWD + path.sep);
+
+function readFixture(name: string): string {
+	return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+// @ts-ignore - mocha global
+suite('Memory Reports', () => {
+	// @ts-ignore - mocha global
+	test('parses AddressSanitizer errors with the allocation stack', () => {
+		const [report, ...rest] = parseSanitizerOutput(readFixture('asan-overflow.txt'), CWD);
+
+		assert.strictEqual(rest.length, 0);
+		assert.strictEqual(report.tool, 'AddressSanitizer');
+		assert.strictEqual(report.code, 'heap-buffer-overflow');
+		assert.strictEqual(report.message, 'heap-buffer-overflow: WRITE of size 4');
+		assert.deepStrictEqual(report.frames[0], { function: 'main', file: path.join(CWD, 'overflow.c'), line: 5, column: undefined });
+		assert.deepStrictEqual(report.frames[1], { function: '??' });
+		assert.strictEqual(report.sections[0].title, 'allocated by thread T0 here');
+		assert.strictEqual(report.sections[0].frames[1].line, 4);
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps the free and allocation stacks of a use after free apart', () => {
+		const [report] = parseSanitizerOutput(readFixture('asan-use-after-free.txt'), CWD);
+
+		assert.deepStrictEqual(report.sections.map(s => [s.title, s.frames[1].line]), [
+			['freed by thread T0 here', 5],
+			['previously allocated by thread T0 here', 4]
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('parses leaks and undefined behavior', () => {
+		const [leak] = parseSanitizerOutput(readFixture('lsan-leak.txt'), CWD);
+		assert.strictEqual(leak.kind, 'leak');
+		assert.strictEqual(leak.message, 'Direct leak of 7 byte(s) in 1 object(s)');
+		assert.deepStrictEqual(leak.frames.map(f => f.function), ['__interceptor_malloc', 'copy', 'main', '??']);
+
+		const [ub] = parseSanitizerOutput(readFixture('ubsan.txt'), CWD);
+		assert.strictEqual(ub.tool, 'UndefinedBehaviorSanitizer');
+		assert.strictEqual(ub.message, "signed integer overflow: 2147483647 + 1 cannot be represented in type 'int'");
+		assert.deepStrictEqual(ub.location, { function: '', file: path.join(CWD, 'ub.c'), line: 6, column: 9 });
+	});
+
+	// @ts-ignore - mocha global
+	test('parses Valgrind errors and leaks but not its summaries', () => {
+		const reports = parseValgrindOutput(readFixture('valgrind.txt'), CWD);
+
+		assert.deepStrictEqual(reports.map(r => [r.kind, r.message]), [
+			['error', 'Invalid write of size 4'],
+			['error', 'Conditional jump or move depends on uninitialised value(s)'],
+			['leak', '7 bytes in 1 blocks are definitely lost']
+		]);
+		assert.strictEqual(reports[0].sections[0].title, "Address 0x4a8b054 is 0 bytes after a block of size 20 alloc'd");
+		assert.deepStrictEqual(reports[0].sections[0].frames[0], { function: 'malloc' });
+		assert.deepStrictEqual(reports[2].frames[1], { function: 'copy', file: path.join(CWD, 'leak.c'), line: 5 });
+	});
+
+	// @ts-ignore - mocha global
+	test('points diagnostics at the faulting and allocating lines of user code', () => {
+		const reports = [
+			...parseSanitizerOutput(readFixture('asan-overflow.txt'), CWD),
+			...parseValgrindOutput(readFixture('valgrind.txt'), CWD)
+		];
+		const byFile = toMemoryDiagnostics(reports, isUserFile);
+
+		const [overflow] = byFile.get(path.join(CWD, 'overflow.c')) || [];
+		assert.strictEqual(overflow.severity, vscode.DiagnosticSeverity.Error);
+		assert.strictEqual(overflow.range.start.line, 4);
+		assert.strictEqual(overflow.source, 'AddressSanitizer');
+		assert.strictEqual(overflow.relatedInformation?.length, 1);
+		assert.strictEqual(overflow.relatedInformation?.[0].location.range.start.line, 3);
+		assert.strictEqual(overflow.relatedInformation?.[0].message, 'allocated by thread T0 here: #1 main');
+
+		const leakDiagnostics = byFile.get(path.join(CWD, 'leak.c')) || [];
+		const leak = leakDiagnostics.find(d => d.severity === vscode.DiagnosticSeverity.Warning);
+		assert.strictEqual(leakDiagnostics.length, 3);
+		assert.strictEqual(leak?.range.start.line, 4);
+		assert.strictEqual(leak?.message, '7 bytes in 1 blocks are definitely lost, allocated here and never freed');
+		assert.strictEqual(leak?.relatedInformation?.[0].message, '#2 main');
+	});
+
+	// @ts-ignore - mocha global
+	test('builds checked programs without optimization and links the sanitizer runtime', () => {
+		const sanitize = { name: 'sanitize', libraries: ['m'], flags: ['-g', '-O1', '-fsanitize=address,undefined', '-fno-omit-frame-pointer'] };
+		const sanitized = toSanitizerProfile(sanitize);
+		assert.strictEqual(sanitized.name, 'sanitize');
+		assert.deepStrictEqual(sanitized.flags, ['-g', '-O0', '-fsanitize=address,undefined', '-fno-omit-frame-pointer']);
+		assert.deepStrictEqual(getProfileLinkFlags(sanitized), ['-fsanitize=address,undefined', '-lm']);
+
+		const valgrind = toValgrindProfile(sanitize);
+		assert.strictEqual(valgrind.name, 'sanitize-valgrind');
+		assert.deepStrictEqual(valgrind.flags, ['-g', '-O0', '-fno-omit-frame-pointer']);
+		assert.strictEqual(toSanitizerProfile({ name: 'release', flags: ['-O2'] }).name, 'release-sanitize');
+	});
+});
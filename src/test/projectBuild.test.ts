@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findQuotedIncludes, collectDependencies, isOutOfDate, getLinkKey } from '../projectBuild';
+
+const PROJECT = path.resolve(__dirname, '../../src/test/fixtures/multi-file');
+
+// @ts-ignore - mocha global
+suite('Project Build', () => {
+	// @ts-ignore - mocha global
+	test('finds quoted includes but not system headers', () => {
+		const text = '#include <stdio.h>\n#include "stack.h"\n  #  include "util/io.h"\n// #include <"x.h">\n';
+		assert.deepStrictEqual(findQuotedIncludes(text), ['stack.h', 'util/io.h']);
+	});
+
+	// @ts-ignore - mocha global
+	test('collects headers included through other headers and include dirs', () => {
+		const dependencies = collectDependencies(path.join(PROJECT, 'main.c'), [path.join(PROJECT, 'include')]);
+		assert.deepStrictEqual(dependencies, [
+			path.join(PROJECT, 'include', 'config.h'),
+			path.join(PROJECT, 'stack.h')
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('skips headers that cannot be found', () => {
+		const dependencies = collectDependencies(path.join(PROJECT, 'main.c'), []);
+		assert.deepStrictEqual(dependencies, [path.join(PROJECT, 'stack.h')]);
+	});
+
+	// @ts-ignore - mocha global
+	test('detects targets older than their inputs', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lazyc-'));
+		try {
+			const source = path.join(dir, 'a.c');
+			const header = path.join(dir, 'a.h');
+			const object = path.join(dir, 'a.o');
+			fs.writeFileSync(source, '');
+			fs.writeFileSync(header, '');
+			fs.writeFileSync(object, '');
+
+			const past = new Date(Date.now() - 60000);
+			fs.utimesSync(source, past, past);
+			fs.utimesSync(header, past, past);
+			assert.strictEqual(isOutOfDate(object, [source, header]), false);
+
+			fs.utimesSync(header, new Date(), new Date(Date.now() + 60000));
+			assert.strictEqual(isOutOfDate(object, [source, header]), true);
+			assert.strictEqual(isOutOfDate(path.join(dir, 'missing.o'), [source]), true);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	// @ts-ignore - mocha global
+	test('relinks when the link flags or the objects change', () => {
+		const key = getLinkKey('gcc', ['obj/main.o', 'obj/util.o'], []);
+
+		assert.strictEqual(getLinkKey('gcc', ['obj/util.o', 'obj/main.o'], []), key);
+		assert.notStrictEqual(getLinkKey('gcc', ['obj/main.o', 'obj/util.o'], ['-lm']), key);
+		assert.notStrictEqual(getLinkKey('gcc', ['obj/main.o'], []), key);
+		assert.notStrictEqual(getLinkKey('clang', ['obj/main.o', 'obj/util.o'], []), key);
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseProjectConfig, PROJECT_SCHEMA_FILE } from '../projectConfig';
+
+const SCHEMA = JSON.parse(fs.readFileSync(path.join(path.resolve(__dirname, '../..'), PROJECT_SCHEMA_FILE), 'utf8'));
+
+// @ts-ignore - mocha global
+suite('Project Config', () => {
+	// @ts-ignore - mocha global
+	test('keeps a valid file as it is', () => {
+		const data = {
+			profiles: { debug: { warnings: ['all'], defines: ['DEBUG'] } },
+			runConfigurations: [{ name: 'small', args: ['1'] }],
+			rules: { 'unchecked-malloc': 'error' }
+		};
+		assert.deepStrictEqual(parseProjectConfig(data, SCHEMA), { config: data, errors: [] });
+	});
+
+	// @ts-ignore - mocha global
+	test('drops invalid profiles and run configurations and reports them', () => {
+		const { config, errors } = parseProjectConfig({
+			profiles: { debug: { warnings: ['all'] }, bad: { warnings: 'all' }, worse: { libraries: 'm' } },
+			runConfigurations: [{ args: ['1'] }, { name: 'ok' }]
+		}, SCHEMA);
+
+		assert.deepStrictEqual(config, { profiles: { debug: { warnings: ['all'] } }, runConfigurations: [{ name: 'ok' }] });
+		assert.deepStrictEqual(errors, [
+			'profiles.bad.warnings: expected array, got string',
+			'profiles.worse.libraries: expected array, got string',
+			'runConfigurations[0]: missing property "name"'
+		]);
+	});
+
+	// @ts-ignore - mocha global
+	test('ignores other invalid settings and files that are not objects', () => {
+		assert.deepStrictEqual(parseProjectConfig({ rules: { 'unchecked-malloc': 'loud' }, project: { output: 'app' } }, SCHEMA).config, { project: { output: 'app' } });
+		assert.deepStrictEqual(parseProjectConfig(['debug'], SCHEMA).config, {});
+	});
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { parseC } from '../cParser';
+import { computePrototypeEdits, applyTextEdits, computeHeaderBlockEdit, getPublicPrototypes, getPrototypeKey, HEADER_BLOCK_BEGIN, HEADER_BLOCK_END } from '../prototypes';
+
+function sync(text: string, managedNames: string[] = [], declaredElsewhere: string[] = []) {
+	const result = computePrototypeEdits(text, parseC(text), new Set(managedNames), new Set(declaredElsewhere));
+	return { text: applyTextEdits(text, result.edits), managedNames: Array.from(result.managedNames).sort() };
+}
+
+// @ts-ignore - mocha global
+suite('Prototypes', () => {
+	// @ts-ignore - mocha global
+	test('adds prototypes for every kind of definition after main', () => {
+		const source = [
+			'#include <stdio.h>',
+			'',
+			'typedef struct { int x, y; } point_t;',
+			'',
+			'int main(void) { return 0; }',
+			'',
+			'static char *',
+			'dup_string(const char *source)',
+			'{',
+			'    return 0;',
+			'}',
+			'struct node *make_node(int value,',
+			'                       struct node *next) { return next; }',
+			'point_t origin(void) { point_t p = { 0, 0 }; return p; }',
+			''
+		].join('\n');
+
+		const result = sync(source);
+		assert.strictEqual(result.text.split('\n').slice(0, 6).join('\n'), [
+			'#include <stdio.h>',
+			'',
+			'static char *dup_string(const char *source);',
+			'struct node *make_node(int value, struct node *next);',
+			'point_t origin(void);',
+			''
+		].join('\n'));
+		assert.deepStrictEqual(result.managedNames, ['dup_string', 'make_node', 'origin']);
+	});
+
+	// @ts-ignore - mocha global
+	test('adds prototypes for functions called above their definition only', () => {
+		const source = 'int twice(int x) { return half(x) * 4; }\nint half(int x) { return x / 2; }\n';
+
+		assert.strictEqual(sync(source).text, 'int half(int x);\n\nint twice(int x) { return half(x) * 4; }\nint half(int x) { return x / 2; }\n');
+	});
+
+	// @ts-ignore - mocha global
+	test('appends to the existing prototypes and leaves matching ones alone', () => {
+		const source = '#include <stdio.h>\n\nint add(int, int);\n\nint main(void) { return add(1, 2); }\nint add(int a, int b) { return a + b; }\nint sub(int a, int b) { return a - b; }\n';
+
+		assert.strictEqual(sync(source).text.split('\n').slice(2, 5).join('\n'), 'int add(int, int);\nint sub(int a, int b);\n');
+	});
+
+	// @ts-ignore - mocha global
+	test('updates prototypes whose signature changed', () => {
+		const source = '#include <stdio.h>\n\nint scale(int value);\n\nint main(void) { return 0; }\nlong scale(long value, int factor) { return value * factor; }\n';
+
+		const result = sync(source);
+		assert.ok(result.text.includes('\nlong scale(long value, int factor);\n'));
+		assert.ok(!result.text.includes('int scale(int value);'));
+	});
+
+	// @ts-ignore - mocha global
+	test('removes generated prototypes of renamed functions but keeps others', () => {
+		const source = '#include <stdio.h>\n\nint old_name(int x);\nint external(int x);\nint used(void);\n\nint main(void) { return used(); }\nint new_name(int x) { return x; }\n';
+
+		const result = sync(source, ['old_name', 'used']);
+		assert.strictEqual(result.text, '#include <stdio.h>\n\nint external(int x);\nint used(void);\nint new_name(int x);\n\nint main(void) { return used(); }\nint new_name(int x) { return x; }\n');
+		assert.deepStrictEqual(result.managedNames, ['new_name']);
+	});
+
+	// @ts-ignore - mocha global
+	test('skips functions declared in included headers', () => {
+		const source = '#include "util.h"\n\nint main(void) { return helper(); }\nint helper(void) { return 1; }\n';
+
+		assert.strictEqual(sync(source, [], ['helper']).text, source);
+	});
+
+	// @ts-ignore - mocha global
+	test('compares prototypes by types, not parameter names or spacing', () => {
+		const [prototype, definition] = parseC('char* copy(char *, const char*src);\nchar *copy(char *dest, const char *source) { return dest; }').functions;
+
+		assert.strictEqual(getPrototypeKey(prototype), getPrototypeKey(definition));
+	});
+
+	// @ts-ignore - mocha global
+	test('writes the public prototypes into a managed header block', () => {
+		const unit = parseC('static int hidden(void) { return 0; }\nint shown(int x) { return x; }\nint main(void) { return 0; }\n');
+		const prototypes = getPublicPrototypes(unit);
+		assert.deepStrictEqual(prototypes, ['int shown(int x);']);
+
+		const header = '#ifndef MATH_H\n#define MATH_H\n\n#ifdef DEBUG\n#endif\n\n#endif /* MATH_H */\n';
+		const withBlock = applyTextEdits(header, [computeHeaderBlockEdit(header, prototypes)!]);
+		assert.strictEqual(withBlock, `#ifndef MATH_H\n#define MATH_H\n\n#ifdef DEBUG\n#endif\n\n${HEADER_BLOCK_BEGIN}\nint shown(int x);\n${HEADER_BLOCK_END}\n\n#endif /* MATH_H */\n`);
+		assert.strictEqual(computeHeaderBlockEdit(withBlock, prototypes), undefined);
+
+		const updated = applyTextEdits(withBlock, [computeHeaderBlockEdit(withBlock, ['int shown(long x);', 'void more(void);'])!]);
+		assert.ok(updated.includes(`${HEADER_BLOCK_BEGIN}\nint shown(long x);\nvoid more(void);\n${HEADER_BLOCK_END}`));
+		assert.ok(!updated.includes('int shown(int x);'));
+	});
+
+	// @ts-ignore - mocha global
+	test('appends the header block to a header without include guard', () => {
+		const header = '#pragma once\nstruct list;';
+
+		assert.strictEqual(applyTextEdits(header, [computeHeaderBlockEdit(header, ['void f(void);'])!]), `#pragma once\nstruct list;\n\n${HEADER_BLOCK_BEGIN}\nvoid f(void);\n${HEADER_BLOCK_END}\n`);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { quoteShellArgument, buildRunCommandLine, expandRunVariables } from '../runConfigurations';
+
+// @ts-ignore - mocha global
+suite('Run Configurations', () => {
+	// @ts-ignore - mocha global
+	test('leaves plain arguments unquoted', () => {
+		assert.strictEqual(quoteShellArgument('--count=3', 'posix'), '--count=3');
+		assert.strictEqual(quoteShellArgument('data/input.txt', 'cmd'), 'data/input.txt');
+		assert.strictEqual(quoteShellArgument('C:\\data\\in.txt', 'powershell'), 'C:\\data\\in.txt');
+	});
+
+	// @ts-ignore - mocha global
+	test('quotes spaces and quotes for each shell', () => {
+		assert.strictEqual(quoteShellArgument("it's here", 'posix'), `'it'\\''s here'`);
+		assert.strictEqual(quoteShellArgument("it's here", 'powershell'), `'it''s here'`);
+		assert.strictEqual(quoteShellArgument('say "hi"', 'cmd'), '"say ""hi"""');
+		assert.strictEqual(quoteShellArgument('', 'posix'), `''`);
+		assert.strictEqual(quoteShellArgument('a\\b', 'posix'), `'a\\b'`);
+	});
+
+	// @ts-ignore - mocha global
+	test('builds command lines with stdin redirection', () => {
+		assert.strictEqual(
+			buildRunCommandLine('/work/build/app', ['-n', 'two words'], '/work/in put.txt', 'posix'),
+			`/work/build/app -n 'two words' < '/work/in put.txt'`
+		);
+		assert.strictEqual(buildRunCommandLine('app', [], undefined, 'posix'), './app');
+		assert.strictEqual(
+			buildRunCommandLine('C:\\build\\app.exe', ['-v'], 'C:\\in.txt', 'powershell'),
+			'Get-Content -Raw C:\\in.txt | & C:\\build\\app.exe -v'
+		);
+		assert.strictEqual(
+			buildRunCommandLine('C:\\build\\app.exe', [], 'C:\\in.txt', 'cmd'),
+			'C:\\build\\app.exe < C:\\in.txt'
+		);
+	});
+
+	// @ts-ignore - mocha global
+	test('expands workspace, file and environment variables', () => {
+		const root = path.resolve('/work');
+		const source = path.join(root, 'src', 'main.c');
+		process.env.LAZYC_TEST_VALUE = '42';
+
+		assert.strictEqual(expandRunVariables('${workspaceFolder}/data', source, root), `${root}/data`);
+		assert.strictEqual(expandRunVariables('${fileDirname}', source, root), path.join(root, 'src'));
+		assert.strictEqual(expandRunVariables('n=${env:LAZYC_TEST_VALUE}${env:LAZYC_UNSET}', source, root), 'n=42');
+	});
+});
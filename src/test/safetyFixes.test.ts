@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { parseC } from '../cParser';
+import { applyTextEdits } from '../prototypes';
+import { getUnsafeCallFixes, getNullCheckFix, getSuppressionEdit, SafetyFix } from '../safetyFixes';
+
+/** Returns the fixes offered for the first call to name */
+function fixesFor(source: string, name: string): SafetyFix[] {
+	const unit = parseC(source);
+	const call = unit.calls.find(candidate => candidate.name === name)!;
+	return getUnsafeCallFixes(source, unit, call);
+}
+
+function nullCheckFor(source: string, name: string): string | undefined {
+	const unit = parseC(source);
+	const fix = getNullCheckFix(source, unit, unit.calls.find(candidate => candidate.name === name)!);
+	return fix && applyTextEdits(source, fix.edits);
+}
+
+// @ts-ignore - mocha global
+suite('Safety Fixes', () => {
+	// @ts-ignore - mocha global
+	test('replaces gets with fgets and strips the newline', () => {
+		const source = '#include <stdio.h>\n\nint main(void) {\n    char line[80];\n    gets(line);\n    return 0;\n}\n';
+		const [fix] = fixesFor(source, 'gets');
+
+		assert.strictEqual(applyTextEdits(source, fix.edits),
+			'#include <stdio.h>\n#include <string.h>\n\nint main(void) {\n    char line[80];\n    if (fgets(line, sizeof line, stdin) != NULL) {\n        line[strcspn(line, "\\n")] = \'\\0\';\n    }\n    return 0;\n}\n');
+
+		// Inside an expression only the call is replaced
+		const condition = source.replace('gets(line);', 'if (gets(line)) puts(line);');
+		assert.strictEqual(applyTextEdits(condition, fixesFor(condition, 'gets')[0].edits),
+			source.replace('gets(line);', 'if (fgets(line, sizeof line, stdin)) puts(line);'));
+	});
+
+	// @ts-ignore - mocha global
+	test('bounds strcpy, strcat and sprintf by the destination array', () => {
+		const source = '#include <stdio.h>\n#include <string.h>\n\nvoid greet(const char *name) {\n\tchar buf[32];\n\tstrcpy(buf, name);\n\tstrcat(buf, "!");\n\tsprintf(buf, "%s: %d", name, 1);\n}\n';
+
+		const strcpyFixes = fixesFor(source, 'strcpy');
+		assert.deepStrictEqual(strcpyFixes.map(fix => fix.title), ['Replace strcpy with snprintf', 'Replace strcpy with strncpy and terminate']);
+		assert.ok(applyTextEdits(source, strcpyFixes[0].edits).includes('\tsnprintf(buf, sizeof buf, "%s", name);\n'));
+		assert.ok(applyTextEdits(source, strcpyFixes[1].edits).includes('\tstrncpy(buf, name, sizeof buf - 1);\n\tbuf[sizeof buf - 1] = \'\\0\';\n'));
+		assert.ok(applyTextEdits(source, fixesFor(source, 'strcat')[0].edits).includes('strncat(buf, "!", sizeof buf - strlen(buf) - 1);'));
+		assert.ok(applyTextEdits(source, fixesFor(source, 'sprintf')[0].edits).includes('snprintf(buf, sizeof buf, "%s: %d", name, 1);'));
+	});
+
+	// @ts-ignore - mocha global
+	test('offers no bounded rewrite without a char array in scope', () => {
+		assert.deepStrictEqual(fixesFor('void f(char buf[32], const char *s) { strcpy(buf, s); }', 'strcpy'), []);
+		assert.deepStrictEqual(fixesFor('void f(const char *s) { char *buf = 0; strcpy(buf, s); }', 'strcpy'), []);
+		assert.deepStrictEqual(fixesFor('void f(const char *s) { { char buf[8]; } char *buf; strcpy(buf, s); }', 'strcpy'), []);
+		assert.strictEqual(fixesFor('static char buf[8];\nvoid f(const char *s) { strcpy(buf, s); }', 'strcpy').length, 2);
+	});
+
+	// @ts-ignore - mocha global
+	test('checks the result of fopen and malloc and returns what the function returns', () => {
+		assert.strictEqual(nullCheckFor('#include <stdio.h>\nint main(void) {\n    FILE *fp = fopen("a.txt", "r");\n    return 0;\n}\n', 'fopen'),
+			'#include <stdio.h>\nint main(void) {\n    FILE *fp = fopen("a.txt", "r");\n    if (fp == NULL) {\n        perror("fopen");\n        return 1;\n    }\n    return 0;\n}\n');
+		assert.ok(nullCheckFor('#include <stdio.h>\nint *make(void) {\n\tint *p;\n\tp = (int *)malloc(4);\n\treturn p;\n}\n', 'malloc')!
+			.includes('\tp = (int *)malloc(4);\n\tif (p == NULL) {\n\t\tperror("malloc");\n\t\treturn NULL;\n\t}\n'));
+		assert.ok(nullCheckFor('#include <stdio.h>\nvoid f(void) { char *p = malloc(4);\n}\n', 'malloc')!.includes('return;'));
+		assert.strictEqual(nullCheckFor('void f(void) { use(malloc(4)); }', 'malloc'), undefined);
+	});
+
+	// @ts-ignore - mocha global
+	test('inserts the NULL check right after the assignment', () => {
+		assert.strictEqual(nullCheckFor('#include <stdio.h>\nvoid f(void) {\n    FILE *f = fopen("a", "r"); fclose(f);\n}\n', 'fopen'),
+			'#include <stdio.h>\nvoid f(void) {\n    FILE *f = fopen("a", "r");\n    if (f == NULL) {\n        perror("fopen");\n        return;\n    }\n    fclose(f);\n}\n');
+		assert.ok(nullCheckFor('#include <stdio.h>\nvoid f(void) {\n    FILE *f = fopen("a", "r"); // config\n}\n', 'fopen')!
+			.includes('fopen("a", "r"); // config\n    if (f == NULL) {'));
+	});
+
+	// @ts-ignore - mocha global
+	test('exits from functions without an error value to return', () => {
+		const structReturn = nullCheckFor('#include <stdio.h>\nstruct s load(void) {\n    struct s r;\n    FILE *f = fopen("a", "r");\n    return r;\n}\n', 'fopen')!;
+		assert.ok(structReturn.startsWith('#include <stdio.h>\n#include <stdlib.h>\n'));
+		assert.ok(structReturn.includes('        perror("fopen");\n        exit(EXIT_FAILURE);\n'));
+
+		for (const returnType of ['bool', 'size_t', 'unsigned int']) {
+			assert.ok(nullCheckFor(`#include <stdlib.h>\n${returnType} f(void) { char *p = malloc(4);\n}\n`, 'malloc')!.includes('exit(EXIT_FAILURE);'), returnType);
+		}
+		assert.ok(nullCheckFor('#include <stdlib.h>\nstatic long f(void) { char *p = malloc(4);\n}\n', 'malloc')!.includes('return -1;'));
+	});
+
+	// @ts-ignore - mocha global
+	test('inserts a suppression comment or extends the one above', () => {
+		const source = 'int main(void) {\n\tFILE *fp = fopen("a", "r");\n}\n';
+		const suppressed = applyTextEdits(source, [getSuppressionEdit(source, 1, 'fopen-null-check')]);
+
+		assert.strictEqual(suppressed, 'int main(void) {\n\t// lazyc-ignore-next-line fopen-null-check\n\tFILE *fp = fopen("a", "r");\n}\n');
+		assert.strictEqual(applyTextEdits(suppressed, [getSuppressionEdit(suppressed, 2, 'memory-allocation')]),
+			'int main(void) {\n\t// lazyc-ignore-next-line fopen-null-check, memory-allocation\n\tFILE *fp = fopen("a", "r");\n}\n');
+	});
+});
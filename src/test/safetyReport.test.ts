@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { summarizeReport, toJsonReport, toSarifReport, toHtmlReport, SafetyReport } from '../safetyReport';
+
+const report: SafetyReport = {
+	created: '2026-10-19T12:00:00.000Z',
+	files: [
+		{
+			path: 'src/main.c',
+			issues: [
+				{ ruleId: 'unsafe-gets', severity: 'error', message: 'Unsafe function \'gets\'.', line: 4, column: 4, endLine: 4, endColumn: 8 },
+				{ ruleId: 'fopen-null-check', severity: 'info', message: 'Check fopen for <NULL>', line: 9, column: 14, endLine: 9, endColumn: 19 }
+			]
+		},
+		{ path: 'src/util.h', issues: [] },
+		{
+			path: 'src/io.c',
+			issues: [{ ruleId: 'unsafe-gets', severity: 'warning', message: 'Unsafe function \'gets\'.', line: 0, column: 0, endLine: 0, endColumn: 4 }]
+		}
+	]
+};
+
+// @ts-ignore - mocha global
+suite('Safety Report', () => {
+	// @ts-ignore - mocha global
+	test('counts issues per rule and per file', () => {
+		const summary = summarizeReport(report);
+
+		assert.strictEqual(summary.files, 3);
+		assert.strictEqual(summary.issues, 3);
+		assert.deepStrictEqual(summary.byRule, [{ ruleId: 'unsafe-gets', count: 2 }, { ruleId: 'fopen-null-check', count: 1 }]);
+		assert.deepStrictEqual(summary.byFile, [{ path: 'src/main.c', count: 2 }, { path: 'src/io.c', count: 1 }]);
+		assert.deepStrictEqual(JSON.parse(toJsonReport(report)).summary, summary);
+	});
+
+	// @ts-ignore - mocha global
+	test('writes SARIF results with 1-based regions and note levels', () => {
+		const run = JSON.parse(toSarifReport(report, '1.0.7')).runs[0];
+		const rules = run.tool.driver.rules;
+
+		assert.strictEqual(run.tool.driver.name, 'Lazy C');
+		assert.strictEqual(run.results.length, 3);
+		assert.deepStrictEqual(run.results[1].locations[0].physicalLocation, {
+			artifactLocation: { uri: 'src/main.c', uriBaseId: '%SRCROOT%' },
+			region: { startLine: 10, startColumn: 15, endLine: 10, endColumn: 20 }
+		});
+		assert.strictEqual(run.results[1].level, 'note');
+		assert.strictEqual(rules[run.results[1].ruleIndex].id, 'fopen-null-check');
+	});
+
+	// @ts-ignore - mocha global
+	test('escapes messages in the HTML report and skips clean files', () => {
+		const html = toHtmlReport(report);
+
+		assert.ok(html.includes('Check fopen for &lt;NULL&gt;'));
+		assert.ok(html.includes('<h3>src/io.c</h3>'));
+		assert.ok(!html.includes('<h3>src/util.h</h3>'));
+		assert.ok(html.includes('3 issue(s) in 2 of 3 file(s)'));
+	});
+});
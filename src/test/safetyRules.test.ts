@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import { findSafetyIssues, findSafetyIssuesIncrementally, splitCodeRegions, getSafetyRule, getRuleSeverity, resolveRuleSeverity, hasUnboundedStringConversion, SAFETY_RULES } from '../safetyRules';
+
+/** Rule IDs reported in source, in order */
+function ruleIds(source: string): string[] {
+	return findSafetyIssues(source).map(finding => finding.ruleId);
+}
+
+// @ts-ignore - mocha global
+suite('Safety Rules', () => {
+	// @ts-ignore - mocha global
+	test('reports each unsafe function under its own rule', () => {
+		const source = [
+			'void f(char *dest, const char *src, char *command) {',
+			'    strcpy(dest, src);',
+			'    system(command);',
+			'    char *word = strtok(dest, " ");',
+			'    int n = atoi(src) + rand();',
+			'    char *name = tmpnam(NULL);',
+			'    char *scratch = alloca(n);',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(ruleIds(source), ['unsafe-strcpy', 'system-call', 'strtok-not-reentrant', 'unchecked-conversion', 'insecure-rand', 'insecure-temp-file', 'alloca']);
+		assert.deepStrictEqual(findSafetyIssues(source)[0], {
+			ruleId: 'unsafe-strcpy',
+			message: 'Unsafe function \'strcpy\'. Consider using \'strncpy\' instead.',
+			line: 1, column: 4, endLine: 1, endColumn: 10
+		});
+	});
+
+	// @ts-ignore - mocha global
+	test('finds scanf strings without a width and non-literal formats', () => {
+		assert.ok(hasUnboundedStringConversion('%s'));
+		assert.ok(hasUnboundedStringConversion('%d %[^\\n]'));
+		assert.ok(!hasUnboundedStringConversion('%19s %*s %%s %ms'));
+
+		assert.deepStrictEqual(ruleIds('void f(char *s) { char b[8]; scanf("%s", b); sscanf(s, "%7s", b); }'), ['scanf-unbounded-string']);
+		assert.deepStrictEqual(ruleIds('void f(const char *s) { printf(s); fprintf(stderr, s); printf("%s", s); printf(GREETING); puts(s); }'), ['format-string', 'format-string']);
+	});
+
+	// @ts-ignore - mocha global
+	test('catches realloc assigned back to its argument only', () => {
+		assert.deepStrictEqual(ruleIds('void f(int *p, int *q) { p = realloc(p, 8); q = (int *)realloc(p, 8); }')
+			.filter(id => id !== 'memory-allocation'), ['realloc-self-assign']);
+		const members = findSafetyIssues('void f(struct node *node, struct buf s, char **bufs) {\n    node->data = realloc(node->data, 8);\n    s.buf = realloc(s.buf, 8);\n    bufs[0] = realloc(bufs[0], 8);\n    node->next = realloc(node->data, 8);\n}')
+			.filter(finding => finding.ruleId === 'realloc-self-assign');
+		assert.deepStrictEqual(members.map(finding => `${finding.line}:${finding.column}`), ['1:4', '2:4', '3:4']);
+		assert.strictEqual(members[0].message, '\'node->data\' is lost when realloc fails; assign the result to a temporary first');
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps the severities of the warning levels', () => {
+		const gets = getSafetyRule('unsafe-gets')!;
+		const fopen = getSafetyRule('fopen-null-check')!;
+		const memory = getSafetyRule('memory-allocation')!;
+
+		assert.strictEqual(getRuleSeverity(gets, 'low'), 'warning');
+		assert.strictEqual(getRuleSeverity(gets, 'high'), 'error');
+		assert.strictEqual(getRuleSeverity(fopen, 'low'), undefined);
+		assert.strictEqual(getRuleSeverity(fopen, 'medium'), 'info');
+		assert.strictEqual(getRuleSeverity(fopen, 'high'), 'warning');
+		assert.strictEqual(getRuleSeverity(memory, 'medium'), undefined);
+		assert.strictEqual(new Set(SAFETY_RULES.map(rule => rule.id)).size, SAFETY_RULES.length);
+	});
+
+	// @ts-ignore - mocha global
+	test('skips lines silenced by suppression comments', () => {
+		const source = [
+			'void f(char *d, const char *s) {',
+			'    // lazyc-ignore-next-line unsafe-strcpy -- length checked above',
+			'    strcpy(d, s);',
+			'    // lazyc-ignore-next-line system-call',
+			'    strcpy(d, s);',
+			'    /* lazyc-disable */',
+			'    strcat(d, s);',
+			'    system(s);',
+			'    /* lazyc-enable */',
+			'    /* lazyc-disable unsafe-strcat, unsafe-gets */',
+			'    strcat(d, s);',
+			'    system(s);',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(findSafetyIssues(source).map(finding => `${finding.line}:${finding.ruleId}`), ['4:unsafe-strcpy', '11:system-call']);
+	});
+
+	// @ts-ignore - mocha global
+	test('lets project rule settings override the warning level', () => {
+		const fopen = getSafetyRule('fopen-null-check')!;
+
+		assert.strictEqual(resolveRuleSeverity(fopen, 'medium', { 'fopen-null-check': 'off' }), undefined);
+		assert.strictEqual(resolveRuleSeverity(fopen, 'low', { 'fopen-null-check': 'error' }), 'error');
+		assert.strictEqual(resolveRuleSeverity(fopen, 'medium', { 'unsafe-gets': 'off' }), 'info');
+	});
+
+	// @ts-ignore - mocha global
+	test('re-analyzes only the functions that changed', () => {
+		const source = [
+			'#include <stdio.h>',
+			'#define BLOCK {',
+			'static char name[16];',
+			'',
+			'/* Reads the name */',
+			'void read_name(void) {',
+			'    gets(name);',
+			'}',
+			'',
+			'int main(void) { system("ls"); read_name(); return 0; }',
+			''
+		].join('\n');
+
+		assert.deepStrictEqual(splitCodeRegions(source).map(region => source.substring(region.start, region.end).split('\n')[0]), ['void read_name(void) {', 'int main(void) { system("ls"); read_name(); return 0; }']);
+
+		const first = findSafetyIssuesIncrementally(source, new Map());
+		assert.deepStrictEqual(first.findings, findSafetyIssues(source));
+		assert.strictEqual(first.analyzedRegions, 2);
+
+		// A new line above moves main's findings without analyzing it again
+		const edited = source.replace('    gets(name);', '    gets(name);\n    strcpy(name, "x");');
+		const second = findSafetyIssuesIncrementally(edited, first.cache);
+		assert.deepStrictEqual(second.findings, findSafetyIssues(edited));
+		assert.strictEqual(second.analyzedRegions, 1);
+		assert.deepStrictEqual(second.findings.map(finding => `${finding.line}:${finding.ruleId}`), ['6:unsafe-gets', '7:unsafe-strcpy', '10:system-call']);
+
+		const suppressed = edited.replace('int main', '// lazyc-ignore-next-line system-call\nint main');
+		assert.deepStrictEqual(findSafetyIssuesIncrementally(suppressed, second.cache).findings, findSafetyIssues(suppressed));
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps the findings after a block that is still being typed', () => {
+		const source = [
+			'void a(char *d, const char *s) { strcpy(d, s); }',
+			'void b(char *d, const char *s) {',
+			'    if (s) {',
+			'    strcpy(d, s);',
+			'}',
+			'void c(char *d, int n) { sprintf(d, "%d", n); system(d); }',
+			''
+		].join('\n');
+
+		assert.strictEqual(findSafetyIssues(source).length, 4);
+		assert.deepStrictEqual(findSafetyIssuesIncrementally(source, new Map()).findings, findSafetyIssues(source));
+	});
+
+	// @ts-ignore - mocha global
+	test('keeps the findings after braces opened in both branches of an #ifdef', () => {
+		const source = [
+			'void f(char *d, const char *s) {',
+			'#ifdef SAFE',
+			'    if (s != NULL) {',
+			'#else',
+			'    if (s) {',
+			'#endif',
+			'        strcpy(d, s);',
+			'    }',
+			'}',
+			'int main(void) { system("ls"); return 0; }',
+			''
+		].join('\n');
+
+		const { findings } = findSafetyIssuesIncrementally(source, new Map());
+		assert.deepStrictEqual(findings, findSafetyIssues(source));
+		assert.deepStrictEqual(findings.map(finding => `${finding.line}:${finding.ruleId}`), ['6:unsafe-strcpy', '9:system-call']);
+	});
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { findMissingSemicolons } from '../semicolons';
+import { SemicolonRule, SemicolonRules } from '../config';
+
+const ALL_RULES: SemicolonRules = { statements: true, jumps: true, declarations: true, typeDefinitions: true, doWhile: true };
+
+interface SemicolonCase {
+	name: string;
+	/** The checked line is marked with "@"; the marker is removed before checking */
+	source: string[];
+	/** Expected rule, or undefined when no semicolon should be added */
+	rule?: SemicolonRule;
+}
+
+const CASES: SemicolonCase[] = [
+	// Statements that need a semicolon
+	{ name: 'a call', source: ['int main(void) {', '@    printf("hi\\n")', '}'], rule: 'statements' },
+	{ name: 'an assignment', source: ['void f(int x) {', '@    x = x * 2', '}'], rule: 'statements' },
+	{ name: 'a postfix increment', source: ['void f(int i) {', '@    i++', '}'], rule: 'statements' },
+	{ name: 'a return', source: ['int f(void) {', '@    return 0', '}'], rule: 'jumps' },
+	{ name: 'a bare break', source: ['void f(int x) {', '    switch (x) {', '    case 1:', '@        break', '    }', '}'], rule: 'jumps' },
+	{ name: 'a local declaration', source: ['void f(void) {', '@    size_t count = 0', '}'], rule: 'declarations' },
+	{ name: 'a pointer declaration with a typedef type', source: ['void f(void) {', '@    FILE *file = NULL', '}'], rule: 'declarations' },
+	{ name: 'a global variable', source: ['@static int counter = 0', 'int main(void) { return 0; }'], rule: 'declarations' },
+	{ name: 'a statement after an if on the same line', source: ['void f(int x) {', '@    if (x) return', '}'], rule: 'jumps' },
+	{ name: 'the body line of an if without braces', source: ['void f(int x) {', '    if (x > 0)', '@        x--', '}'], rule: 'statements' },
+	{ name: 'the last line of a multi-line call', source: ['void f(int a) {', '    printf("%d %d\\n",', '           a,', '@           a * 2)', '}'], rule: 'statements' },
+	{ name: 'the closing line of a multi-line initializer', source: ['int grid[2][2] = {', '    {1, 2},', '    {3, 4}', '@}', 'int x;'], rule: 'declarations' },
+	{ name: 'the closing brace of a struct', source: ['struct point {', '    int x;', '    int y;', '@}'], rule: 'typeDefinitions' },
+	{ name: 'the closing brace of an enum', source: ['enum color { RED, GREEN', '@}'], rule: 'typeDefinitions' },
+	{ name: 'the name after a typedef struct body', source: ['typedef struct {', '    int x;', '@} point_t'], rule: 'declarations' },
+	{ name: 'a struct member', source: ['struct point {', '@    int x', '};'], rule: 'declarations' },
+	{ name: 'the while of a do-while loop', source: ['void f(int i) {', '    do {', '        i--;', '@    } while (i > 0)', '}'], rule: 'doWhile' },
+	{ name: 'a statement before a trailing comment', source: ['void f(int x) {', '@    x = 1 // one', '}'], rule: 'statements' },
+
+	// Lines that continue or need no semicolon
+	{ name: 'the first line of a multi-line call', source: ['void f(int a) {', '@    printf("%d\\n"', '           , a);', '}'] },
+	{ name: 'a line ending with a comma', source: ['void f(int a) {', '@    printf("%d\\n",', '           a);', '}'] },
+	{ name: 'a line ending with a binary operator', source: ['int f(int a, int b) {', '@    return a +', '           b;', '}'] },
+	{ name: 'a line ending with &&', source: ['int f(int a, int b) {', '@    if (a > 0 &&', '        b > 0) return 1;', '    return 0;', '}'] },
+	{ name: 'a line followed by an operator', source: ['int f(int a, int b) {', '@    int ok = a', '        && b;', '    return ok;', '}'] },
+	{ name: 'a line followed by a ternary continuation', source: ['int f(int a) {', '@    return a > 0', '        ? a', '        : -a;', '}'] },
+	{ name: 'joined string literals', source: ['void f(void) {', '@    puts("first "', '         "second");', '}'] },
+	{ name: 'an if condition', source: ['void f(int x) {', '@    if (x == 1)', '        x = 2;', '}'] },
+	{ name: 'an else if with a closing brace', source: ['void f(int x) {', '    if (x) {', '        x = 1;', '@    } else if (x < 0)', '        x = 2;', '}'] },
+	{ name: 'a bare else', source: ['void f(int x) {', '    if (x) x = 1;', '@    else', '        x = 2;', '}'] },
+	{ name: 'a do line', source: ['void f(int i) {', '@    do', '        i--;', '    while (i);', '}'] },
+	{ name: 'a for loop header', source: ['void f(int n) {', '@    for (int i = 0; i < n; i++)', '        n--;', '}'] },
+	{ name: 'a while loop that is not a do-while', source: ['void f(int n) {', '    {', '    }', '@    while (n > 0)', '        n--;', '}'] },
+	{ name: 'a function definition with the brace on the next line', source: ['@int add(int a, int b)', '{', '    return a + b;', '}'] },
+	{ name: 'a prototype being typed at file scope', source: ['@int add(int a, int b)'] },
+	{ name: 'a case label', source: ['void f(int x) {', '    switch (x) {', '@    case 1:', '        break;', '    }', '}'] },
+	{ name: 'a goto label', source: ['void f(void) {', '@done:', '    return;', '}'] },
+	{ name: 'an initializer row', source: ['int grid[2][2] = {', '    {1, 2},', '@    {3, 4}', '};'] },
+	{ name: 'an enumerator', source: ['enum color {', '    RED,', '@    GREEN', '};'] },
+	{ name: 'a typedef struct body that still needs its name', source: ['typedef struct {', '    int x;', '@}', 'point_t;'] },
+	{ name: 'a struct tag before its body', source: ['@struct point', '{', '    int x;', '};'] },
+	{ name: 'a macro continuation', source: ['#define SWAP(a, b) \\', '@    do { int t = a; a = b; b = t; } while (0)', 'int x;'] },
+	{ name: 'a code line ending with a backslash', source: ['void f(int x) {', '@    x = 1 \\', '        + 2;', '}'] },
+	{ name: 'a preprocessor line', source: ['@#include <stdio.h>'] },
+	{ name: 'a line comment', source: ['void f(void) {', '@    // call(x)', '}'] },
+	{ name: 'a line inside a block comment', source: ['/*', '@ * printf(x)', ' */'] },
+	{ name: 'a call inside a string that spans lines', source: ['void f(void) {', '    puts("a \\', '@printf(x)")', '}'] },
+	{ name: 'a closing brace of a function', source: ['void f(void) {', '    return;', '@}'] },
+	{ name: 'a line that already ends with a semicolon', source: ['void f(int x) {', '@    x = 1; // done', '}'] },
+	{ name: 'an opening brace', source: ['void f(int x) {', '@    if (x) {', '    }', '}'] },
+	{ name: 'a blank line', source: ['void f(void) {', '@', '}'] },
+	{ name: 'a line with only a type', source: ['@static unsigned', 'long value = 0;'] }
+];
+
+function check(testCase: SemicolonCase, rules: SemicolonRules = ALL_RULES) {
+	const line = testCase.source.findIndex(sourceLine => sourceLine.startsWith('@'));
+	const text = testCase.source.map(sourceLine => sourceLine.replace(/^@/, '')).join('\n');
+	return { line, text, insertions: findMissingSemicolons(text, [line], rules) };
+}
+
+// @ts-ignore - mocha global
+suite('Semicolons', () => {
+	for (const testCase of CASES) {
+		// @ts-ignore - mocha global
+		test(`${testCase.rule ? 'adds a semicolon to' : 'leaves alone'} ${testCase.name}`, () => {
+			const { line, insertions } = check(testCase);
+
+			assert.ok(line >= 0, 'no line marked with @');
+			assert.deepStrictEqual(insertions.map(insertion => insertion.rule), testCase.rule ? [testCase.rule] : []);
+		});
+	}
+
+	// @ts-ignore - mocha global
+	test('inserts after the code, before a trailing comment', () => {
+		const { insertions } = check({ name: '', source: ['void f(int x) {', '@    x = 1   /* one */ // two', '}'] });
+
+		assert.deepStrictEqual(insertions, [{ line: 1, column: 9, rule: 'statements' }]);
+	});
+
+	// @ts-ignore - mocha global
+	test('honors disabled rules', () => {
+		const rules = { ...ALL_RULES, statements: false };
+
+		assert.deepStrictEqual(check(CASES[0], rules).insertions, []);
+		assert.strictEqual(check(CASES[3], rules).insertions.length, 1);
+	});
+
+	// @ts-ignore - mocha global
+	test('checks several lines at once', () => {
+		const text = 'void f(int x) {\n    x = 1\n    if (x)\n    x++\n}';
+
+		assert.deepStrictEqual(findMissingSemicolons(text, [3, 1, 2, 1], ALL_RULES).map(i => i.line), [1, 3]);
+	});
+});
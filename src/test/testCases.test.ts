@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { discoverTestCases, normalizeOutput, runTestCase, testBelongsTo, TestCase } from '../testCases';
+
+const FIXTURE = path.resolve(__dirname, '../../src/test/fixtures/test-cases');
+
+function isInstalled(command: string): boolean {
+	return !spawnSync(command, ['--version']).error;
+}
+
+// @ts-ignore - mocha global
+suite('Test Cases', () => {
+	// @ts-ignore - mocha global
+	test('finds .in/.out pairs and tests.json cases of a source file', () => {
+		const discovery = discoverTestCases(path.join(FIXTURE, 'sum.c'));
+
+		assert.strictEqual(discovery.error, undefined);
+		assert.deepStrictEqual(discovery.cases.map(c => c.name), ['basic', 'sum-big', 'negative', 'wrong']);
+		assert.strictEqual(discovery.cases[0].input, '1 2\n');
+		assert.strictEqual(discovery.cases[0].file, path.join(FIXTURE, 'basic.out'));
+		assert.strictEqual(discovery.cases[2].file, path.join(FIXTURE, 'tests.json'));
+		assert.strictEqual(discovery.cases[2].line, 2);
+		assert.strictEqual(discovery.cases[3].timeout, 2000);
+	});
+
+	// @ts-ignore - mocha global
+	test('assigns tests to the source file they are named after, otherwise to main()', () => {
+		const sources = ['sum.c', 'util.c'].map(name => path.join(FIXTURE, name));
+
+		assert.strictEqual(testBelongsTo('util', sources[1], sources), true);
+		assert.strictEqual(testBelongsTo('util', sources[0], sources), false);
+		assert.strictEqual(testBelongsTo('basic', sources[0], sources), true);
+		assert.strictEqual(testBelongsTo('basic', sources[1], sources), false);
+		assert.strictEqual(testBelongsTo('summary', sources[1], [sources[1]]), true);
+		assert.deepStrictEqual(discoverTestCases(sources[1]).cases.map(c => c.name), ['util']);
+	});
+
+	// @ts-ignore - mocha global
+	test('reports a broken tests.json without losing the other cases', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lazyc-'));
+		try {
+			fs.writeFileSync(path.join(dir, 'main.c'), 'int main(void) { return 0; }\n');
+			fs.writeFileSync(path.join(dir, 'a.in'), '');
+			fs.writeFileSync(path.join(dir, 'a.out'), '');
+			fs.writeFileSync(path.join(dir, 'tests.json'), '[{ "name": "x" }]');
+
+			const discovery = discoverTestCases(path.join(dir, 'main.c'));
+			assert.deepStrictEqual(discovery.cases.map(c => c.name), ['a']);
+			assert.ok(discovery.error && discovery.error.includes('"output"'));
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	// @ts-ignore - mocha global
+	test('ignores line endings, trailing spaces and trailing blank lines', () => {
+		assert.strictEqual(normalizeOutput('1 2 \r\n3\r\n\r\n'), '1 2\n3');
+		assert.notStrictEqual(normalizeOutput('1  2'), normalizeOutput('1 2'));
+	});
+
+	// @ts-ignore - mocha global
+	test('runs a program on each case and detects failures and timeouts', async function (this: any) {
+		if (!isInstalled('cc')) {
+			this.skip();
+		}
+		this.timeout(30000);
+
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lazyc-'));
+		try {
+			const executable = path.join(dir, 'sum');
+			assert.strictEqual(spawnSync('cc', ['-o', executable, path.join(FIXTURE, 'sum.c')]).status, 0);
+			const [basic, , negative, wrong] = discoverTestCases(path.join(FIXTURE, 'sum.c')).cases;
+			const stuck: TestCase = { ...basic, name: 'stuck', input: 'x\n' };
+
+			assert.strictEqual((await runTestCase(executable, basic, dir, 5000)).status, 'passed');
+			assert.strictEqual((await runTestCase(executable, negative, dir, 5000)).status, 'passed');
+
+			const failed = await runTestCase(executable, wrong, dir, 5000);
+			assert.strictEqual(failed.status, 'failed');
+			assert.strictEqual(failed.actual, '2\n');
+
+			const timedOut = await runTestCase(executable, stuck, dir, 300);
+			assert.strictEqual(timedOut.status, 'timeout');
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,491 @@
+/**
+ * Test cases
+ * Discovers input/expected-output cases next to a C file ("name.in"/"name.out" pairs or
+ * "tests.json"), runs the built program on each input and reports the results in the
+ * Test Explorer
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { getConfig } from './config';
+import { getProjectRoot } from './projectConfig';
+
+export const TESTS_FILE = 'tests.json';
+
+export interface TestCase {
+    name: string;
+    /** Text written to the program's standard input */
+    input: string;
+    /** Expected standard output */
+    expected: string;
+    /** Command line arguments, from tests.json only */
+    args?: string[];
+    /** Timeout in milliseconds overriding "c-helper.testTimeout" */
+    timeout?: number;
+    /** File the expected output was read from */
+    file: string;
+    /** 0-based line of the case in that file */
+    line: number;
+}
+
+export interface TestDiscovery {
+    cases: TestCase[];
+    /** Set when tests.json could not be read */
+    error?: string;
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'timeout' | 'crashed';
+
+export interface TestCaseResult {
+    status: TestCaseStatus;
+    /** Standard output of the program */
+    actual: string;
+    stderr: string;
+    exitCode: number | null;
+    /** Signal or spawn error that ended the program abnormally */
+    crash?: string;
+    /** Run time in milliseconds */
+    duration: number;
+}
+
+/** One entry of tests.json */
+interface TestsFileEntry {
+    name?: string;
+    input?: string;
+    output?: string;
+    args?: string[];
+    timeout?: number;
+}
+
+// Output beyond this is dropped and the program stopped, e.g. when it prints in an endless loop
+const MAX_OUTPUT_LENGTH = 1024 * 1024;
+const MAIN_FUNCTION_PATTERN = /\bint\s+main\s*\(/;
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+function stripExtension(fileName: string): string {
+    return fileName.substring(0, fileName.length - path.extname(fileName).length);
+}
+
+function hasNamePrefix(testName: string, sourceName: string): boolean {
+    return testName === sourceName
+        || (testName.startsWith(sourceName) && /^[._-]/.test(testName.substring(sourceName.length)));
+}
+
+function definesMain(sourcePath: string): boolean {
+    try {
+        return MAIN_FUNCTION_PATTERN.test(fs.readFileSync(sourcePath, 'utf8'));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decides whether a test named e.g. "sum-2" in a directory belongs to a source file.
+ * A test prefixed with a source file name ("sum", "sum.1", "sum_big") belongs to that file;
+ * any other test belongs to the only C file of the directory, or to the one defining main().
+ */
+export function testBelongsTo(testName: string, sourcePath: string, siblingSources: string[]): boolean {
+    const sourceName = stripExtension(path.basename(sourcePath));
+    if (hasNamePrefix(testName, sourceName)) {
+        return true;
+    }
+    const others = siblingSources.filter(sibling => sibling !== sourcePath);
+    if (others.some(sibling => hasNamePrefix(testName, stripExtension(path.basename(sibling))))) {
+        return false;
+    }
+    return others.length === 0 || definesMain(sourcePath);
+}
+
+function readText(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf8');
+}
+
+function findPairCases(dir: string, entries: string[], owns: (name: string) => boolean): TestCase[] {
+    const cases: TestCase[] = [];
+    for (const entry of entries.filter(entry => entry.endsWith('.in')).sort()) {
+        const name = stripExtension(entry);
+        const expectedFile = path.join(dir, `${name}.out`);
+        if (!owns(name) || !fs.existsSync(expectedFile)) {
+            continue;
+        }
+        cases.push({
+            name,
+            input: readText(path.join(dir, entry)),
+            expected: readText(expectedFile),
+            file: expectedFile,
+            line: 0
+        });
+    }
+    return cases;
+}
+
+function lineOf(text: string, index: number): number {
+    return index < 0 ? 0 : text.substring(0, index).split('\n').length - 1;
+}
+
+/**
+ * Reads tests.json. It is either a list of cases for the directory's program, or an
+ * object mapping source file names to their lists of cases:
+ *   [{ "name": "sum", "input": "1 2\n", "output": "3\n" }]
+ *   { "sum.c": [...], "max.c": [...] }
+ */
+export function parseTestsFile(text: string, testsFile: string, sourcePath: string, owns: (name: string) => boolean): TestCase[] {
+    const parsed = JSON.parse(text);
+    let entries: TestsFileEntry[];
+    let shared = false;
+
+    if (Array.isArray(parsed)) {
+        entries = parsed;
+        shared = true;
+    } else if (parsed && typeof parsed === 'object') {
+        const forSource = parsed[path.basename(sourcePath)];
+        entries = Array.isArray(forSource) ? forSource : [];
+    } else {
+        throw new Error('expected a list of test cases or an object keyed by source file name');
+    }
+
+    const cases: TestCase[] = [];
+    let searchFrom = 0;
+    entries.forEach((entry, index) => {
+        if (!entry || typeof entry !== 'object' || typeof entry.output !== 'string') {
+            throw new Error(`test case ${index + 1} has no "output" string`);
+        }
+        const name = typeof entry.name === 'string' && entry.name ? entry.name : `case ${index + 1}`;
+        if (shared && !owns(name)) {
+            return;
+        }
+
+        // Point at the case in the file so the Test Explorer can jump to it
+        const nameIndex = entry.name ? text.indexOf(JSON.stringify(entry.name), searchFrom) : -1;
+        if (nameIndex >= 0) {
+            searchFrom = nameIndex + 1;
+        }
+
+        cases.push({
+            name,
+            input: typeof entry.input === 'string' ? entry.input : '',
+            expected: entry.output,
+            args: Array.isArray(entry.args) ? entry.args.map(String) : undefined,
+            timeout: typeof entry.timeout === 'number' && entry.timeout > 0 ? entry.timeout : undefined,
+            file: testsFile,
+            line: lineOf(text, nameIndex)
+        });
+    });
+    return cases;
+}
+
+/**
+ * Finds the test cases of a C source file in its directory
+ */
+export function discoverTestCases(sourcePath: string): TestDiscovery {
+    const dir = path.dirname(sourcePath);
+    let entries: string[];
+    try {
+        entries = fs.readdirSync(dir);
+    } catch {
+        return { cases: [] };
+    }
+
+    const siblingSources = entries.filter(entry => entry.endsWith('.c')).map(entry => path.join(dir, entry));
+    const owns = (name: string) => testBelongsTo(name, sourcePath, siblingSources);
+    const cases = findPairCases(dir, entries, owns);
+
+    if (!entries.includes(TESTS_FILE)) {
+        return { cases };
+    }
+
+    const testsFile = path.join(dir, TESTS_FILE);
+    try {
+        cases.push(...parseTestsFile(readText(testsFile), testsFile, sourcePath, owns));
+        return { cases };
+    } catch (error) {
+        return { cases, error: `${TESTS_FILE}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * Normalizes output for comparison: line endings, trailing spaces and trailing blank lines
+ * do not make a test fail
+ */
+export function normalizeOutput(output: string): string {
+    return output
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .map(line => line.trimEnd())
+        .join('\n')
+        .replace(/\n+$/, '');
+}
+
+/**
+ * Runs a program on one test case. The exit code is reported but only the output decides
+ * whether the case passed; a program killed by a signal (e.g. a segfault) crashed.
+ */
+export function runTestCase(
+    executable: string,
+    testCase: TestCase,
+    cwd: string,
+    timeout: number,
+    token?: vscode.CancellationToken
+): Promise<TestCaseResult> {
+    return new Promise(resolve => {
+        const started = Date.now();
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+        let settled = false;
+
+        const child = spawn(executable, testCase.args || [], { cwd, shell: false });
+        const finish = (exitCode: number | null, crash?: string) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            cancellation?.dispose();
+
+            let status: TestCaseStatus;
+            if (timedOut) {
+                status = 'timeout';
+            } else if (crash) {
+                status = 'crashed';
+            } else {
+                status = normalizeOutput(stdout) === normalizeOutput(testCase.expected) ? 'passed' : 'failed';
+            }
+            resolve({ status, actual: stdout, stderr, exitCode, crash, duration: Date.now() - started });
+        };
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGKILL');
+        }, timeout);
+        const cancellation = token?.onCancellationRequested(() => child.kill('SIGKILL'));
+
+        child.stdout.on('data', data => {
+            stdout += data.toString();
+            if (stdout.length > MAX_OUTPUT_LENGTH) {
+                stdout = stdout.substring(0, MAX_OUTPUT_LENGTH);
+                child.kill('SIGKILL');
+            }
+        });
+        child.stderr.on('data', data => {
+            if (stderr.length < MAX_OUTPUT_LENGTH) {
+                stderr += data.toString();
+            }
+        });
+        // The program may exit without reading all of its input
+        child.stdin.on('error', () => { /* ignore EPIPE */ });
+        child.stdin.end(testCase.input);
+
+        child.on('error', error => finish(null, error.message));
+        child.on('close', (code, signal) => finish(code, signal && !timedOut ? `terminated by ${signal}` : undefined));
+    });
+}
+
+// ============================================================================
+// TEST EXPLORER
+// ============================================================================
+
+/** Builds a C file (or its project) and returns the program to run */
+export type ProgramBuilder = (sourcePath: string) => Promise<{ success: boolean; outputPath: string }>;
+
+let controller: vscode.TestController | undefined;
+// Test case of each test item, keyed by item id
+const testCasesById = new Map<string, TestCase>();
+
+export function registerTestCases(context: vscode.ExtensionContext, build: ProgramBuilder) {
+    controller = vscode.tests.createTestController('c-helper.testCases', 'Lazy C Tests');
+    controller.resolveHandler = async item => {
+        if (!item) {
+            await discoverWorkspaceTests();
+        }
+    };
+    controller.refreshHandler = () => discoverWorkspaceTests();
+    controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => runTests(request, token, build), true);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/{*.in,*.out,*.c,${TESTS_FILE}}`);
+    const refreshDirectory = (uri: vscode.Uri) => refreshDirectoryTests(path.dirname(uri.fsPath));
+
+    context.subscriptions.push(
+        controller,
+        watcher,
+        watcher.onDidCreate(refreshDirectory),
+        watcher.onDidChange(refreshDirectory),
+        watcher.onDidDelete(refreshDirectory)
+    );
+}
+
+async function discoverWorkspaceTests() {
+    const files = await vscode.workspace.findFiles(`**/{*.in,${TESTS_FILE}}`, '**/node_modules/**');
+    const directories = new Set(files.map(file => path.dirname(file.fsPath)));
+    directories.forEach(refreshDirectoryTests);
+}
+
+function refreshDirectoryTests(dir: string) {
+    if (!controller) {
+        return;
+    }
+
+    let sources: string[] = [];
+    try {
+        sources = fs.readdirSync(dir).filter(entry => entry.endsWith('.c')).map(entry => path.join(dir, entry));
+    } catch {
+        // The directory was deleted
+    }
+
+    // Drop items of this directory whose source file is gone
+    controller.items.forEach(item => {
+        if (path.dirname(item.id) === dir && !sources.includes(item.id)) {
+            controller?.items.delete(item.id);
+        }
+    });
+    sources.forEach(refreshSourceTests);
+}
+
+function refreshSourceTests(sourcePath: string) {
+    if (!controller) {
+        return;
+    }
+
+    const discovery = discoverTestCases(sourcePath);
+    if (discovery.cases.length === 0 && !discovery.error) {
+        controller.items.delete(sourcePath);
+        return;
+    }
+
+    const sourceItem = controller.items.get(sourcePath)
+        || controller.createTestItem(sourcePath, path.basename(sourcePath), vscode.Uri.file(sourcePath));
+    sourceItem.error = discovery.error;
+    sourceItem.children.forEach(child => testCasesById.delete(child.id));
+    sourceItem.children.replace(discovery.cases.map(testCase => {
+        const id = `${sourcePath}#${testCase.name}`;
+        const item = controller!.createTestItem(id, testCase.name, vscode.Uri.file(testCase.file));
+        item.range = new vscode.Range(testCase.line, 0, testCase.line, 0);
+        testCasesById.set(id, testCase);
+        return item;
+    }));
+    controller.items.add(sourceItem);
+}
+
+/**
+ * Groups the requested items by source file; a source item stands for all of its cases
+ */
+function collectRequestedCases(request: vscode.TestRunRequest): Map<vscode.TestItem, vscode.TestItem[]> {
+    const bySource = new Map<vscode.TestItem, vscode.TestItem[]>();
+    const excluded = new Set((request.exclude || []).map(item => item.id));
+    const add = (sourceItem: vscode.TestItem, caseItem: vscode.TestItem) => {
+        if (excluded.has(sourceItem.id) || excluded.has(caseItem.id)) {
+            return;
+        }
+        const cases = bySource.get(sourceItem) || [];
+        if (!cases.includes(caseItem)) {
+            cases.push(caseItem);
+        }
+        bySource.set(sourceItem, cases);
+    };
+
+    const requested: vscode.TestItem[] = [];
+    if (request.include) {
+        requested.push(...request.include);
+    } else {
+        controller?.items.forEach(item => requested.push(item));
+    }
+
+    for (const item of requested) {
+        if (item.parent) {
+            add(item.parent, item);
+        } else {
+            item.children.forEach(child => add(item, child));
+        }
+    }
+    return bySource;
+}
+
+function toTerminalText(text: string): string {
+    return text.replace(/\r?\n/g, '\r\n');
+}
+
+async function runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, build: ProgramBuilder) {
+    if (!controller) {
+        return;
+    }
+
+    const run = controller.createTestRun(request);
+    try {
+        for (const [sourceItem, caseItems] of collectRequestedCases(request)) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const sourcePath = sourceItem.id;
+            caseItems.forEach(item => run.enqueued(item));
+
+            const result = await build(sourcePath);
+            if (!result.success || !result.outputPath) {
+                const message = new vscode.TestMessage(result.success
+                    ? 'The program to run could not be determined. Select a target with "Lazy C: Select Build Target".'
+                    : `Build of ${path.basename(sourcePath)} failed, see the "Lazy C Build" output`);
+                caseItems.forEach(item => run.errored(item, message));
+                continue;
+            }
+
+            for (const item of caseItems) {
+                const testCase = testCasesById.get(item.id);
+                if (token.isCancellationRequested) {
+                    run.skipped(item);
+                    continue;
+                }
+                if (!testCase) {
+                    run.skipped(item);
+                    continue;
+                }
+
+                run.started(item);
+                const timeout = testCase.timeout || getConfig().testTimeout;
+                const outcome = await runTestCase(result.outputPath, testCase, getProjectRoot(sourcePath), timeout, token);
+                if (outcome.stderr) {
+                    run.appendOutput(toTerminalText(outcome.stderr), undefined, item);
+                }
+                reportResult(run, item, testCase, outcome, timeout);
+            }
+        }
+    } finally {
+        run.end();
+    }
+}
+
+function reportResult(run: vscode.TestRun, item: vscode.TestItem, testCase: TestCase, result: TestCaseResult, timeout: number) {
+    const location = new vscode.Location(vscode.Uri.file(testCase.file), new vscode.Position(testCase.line, 0));
+
+    switch (result.status) {
+        case 'passed':
+            run.passed(item, result.duration);
+            return;
+        case 'failed': {
+            const exit = result.exitCode ? ` (exit code ${result.exitCode})` : '';
+            const message = vscode.TestMessage.diff(`Output differs from the expected output${exit}`, testCase.expected, result.actual);
+            message.location = location;
+            run.failed(item, message, result.duration);
+            return;
+        }
+        case 'timeout': {
+            const message = new vscode.TestMessage(`Timed out after ${timeout} ms`);
+            message.location = location;
+            run.failed(item, message, result.duration);
+            return;
+        }
+        case 'crashed': {
+            const message = new vscode.TestMessage(`Program ${result.crash}`);
+            message.location = location;
+            run.failed(item, message, result.duration);
+            return;
+        }
+    }
+}